@@ -0,0 +1,45 @@
+/*
+ * Copyright (c) Huawei Technologies Co., Ltd. 2020-2024. All rights reserved.
+ * Generated by the Cloud Object compiler. DO NOT EDIT!
+ */
+import type { CloudObjectLikely } from '../ImportObject';
+
+export interface ReviewDraft {
+    poiId: string;
+    cleanliness: number;
+    availability: number;
+    content?: string;
+}
+
+export interface ReviewStatsResult {
+    poiId: string;
+    reviewCount: number;
+    cleanlinessAvg: number;
+    availabilityAvg: number;
+    overallAvg: number;
+    lastReviewAt: number;
+}
+
+export interface MyReviewResult {
+    poiId: string;
+    cleanliness: number;
+    availability: number;
+    content: string;
+    updatedAt: number;
+}
+
+export class ToiletReviewService implements CloudObjectLikely {
+    name = 'toilet-review';
+
+    async submitReview(draft: ReviewDraft): Promise<ReviewStatsResult> {
+        return Promise.reject(new Error('Method not implemented.'));
+    }
+
+    async getMyReview(poiId: string): Promise<MyReviewResult | null> {
+        return Promise.reject(new Error('Method not implemented.'));
+    }
+
+    async recomputeStats(poiId: string): Promise<ReviewStatsResult> {
+        return Promise.reject(new Error('Method not implemented.'));
+    }
+}
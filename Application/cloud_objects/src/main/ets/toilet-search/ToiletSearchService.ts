@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) Huawei Technologies Co., Ltd. 2020-2024. All rights reserved.
+ * Generated by the Cloud Object compiler. DO NOT EDIT!
+ */
+import type { CloudObjectLikely } from '../ImportObject';
+
+export interface NearbyQuery {
+    latitude: number;
+    longitude: number;
+    radiusM: number;
+    limit?: number;
+}
+
+export interface NearbyToilet {
+    id: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    distance: number;
+    openingHours?: string;
+    fee?: boolean;
+    wheelchair?: string;
+    changingTable?: boolean;
+    attributes?: Record<string, string>;
+    source: string;
+    updatedAt: number;
+}
+
+export interface NearbyResult {
+    toilets: NearbyToilet[];
+    precision: number;
+    cellsScanned: number;
+    truncated: boolean;
+}
+
+export class ToiletSearchService implements CloudObjectLikely {
+    name = 'toilet-search';
+
+    async searchNearby(query: NearbyQuery): Promise<NearbyResult> {
+        return Promise.reject(new Error('Method not implemented.'));
+    }
+}
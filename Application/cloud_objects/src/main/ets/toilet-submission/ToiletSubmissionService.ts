@@ -0,0 +1,32 @@
+/*
+ * Copyright (c) Huawei Technologies Co., Ltd. 2020-2024. All rights reserved.
+ * Generated by the Cloud Object compiler. DO NOT EDIT!
+ */
+import type { CloudObjectLikely } from '../ImportObject';
+
+export interface SubmissionDraft {
+    name: string;
+    latitude: number;
+    longitude: number;
+    openingHours?: string;
+    fee?: boolean;
+    wheelchair?: string;
+    changingTable?: boolean;
+    attributes?: Record<string, string>;
+}
+
+export interface SubmissionResult {
+    id: string;
+    status: string;
+    duplicateOf?: string;
+    duplicateName?: string;
+    toiletId?: string;
+}
+
+export class ToiletSubmissionService implements CloudObjectLikely {
+    name = 'toilet-submission';
+
+    async submit(draft: SubmissionDraft): Promise<SubmissionResult> {
+        return Promise.reject(new Error('Method not implemented.'));
+    }
+}
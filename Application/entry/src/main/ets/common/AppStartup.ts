@@ -0,0 +1,21 @@
+/**
+ * 启动时各存储的初始化进度
+ * EntryAbility.onCreate 不会被系统等待，首页可能在存储初始化完成前就已创建；
+ * 页面读取存储前先等待 ready()。初始化失败的存储之后仍是未初始化状态，由页面按未初始化处理
+ */
+class AppStartup {
+  private static pending: Promise<void> = Promise.resolve();
+
+  // 在 onCreate 中同步调用，保证页面创建时已能拿到初始化进度
+  public static begin(init: Promise<void>): void {
+    AppStartup.pending = init.catch((error: Error) => {
+      console.error('App startup failed:', error);
+    });
+  }
+
+  public static ready(): Promise<void> {
+    return AppStartup.pending;
+  }
+}
+
+export default AppStartup;
@@ -1,20 +1,40 @@
 import preferences from '@ohos.data.preferences';
+import { normalizeWeights, RankingWeights } from '../map/Ranking';
+import { LocationPrivacyPolicy, normalizeLocationPrivacy } from './locationPrivacy';
+import {
+  AppSettings,
+  applySettingsPatch,
+  LEGACY_SETTING_KEYS,
+  migrateSettings,
+  SettingsRecord
+} from './settings';
 
-const MAP_ENGINE_KEY = 'map_engine';
-const DEFAULT_MAP_ENGINE = 'huawei'; // 默认使用华为地图
+const PREF_NAME = 'map_settings';
+const SETTINGS_KEY = 'settings'; // 类型化设置整体保存为 JSON（见 settings.ts）
 
+export type SettingsListener = (settings: AppSettings) => void;
+
+/**
+ * 应用设置（单例）
+ * 初始化时读取并迁移保存的设置，之后读取走内存；修改时校验、保存并通知订阅的页面
+ */
 class AppStorage {
   private static instance: AppStorage;
   private pref: preferences.Preferences;
+  private settings: AppSettings;
+  private stored: SettingsRecord; // 上次读取的原始内容，保存时保留当前版本不认识的字段
+  private listeners: SettingsListener[] = [];
 
-  private constructor(pref: preferences.Preferences) {
+  private constructor(pref: preferences.Preferences, settings: AppSettings, stored: SettingsRecord) {
     this.pref = pref;
+    this.settings = settings;
+    this.stored = stored;
   }
 
   public static async init(context: any): Promise<void> {
     if (!AppStorage.instance) {
-      const pref = await preferences.getPreferences(context, 'map_settings');
-      AppStorage.instance = new AppStorage(pref);
+      const pref = await preferences.getPreferences(context, PREF_NAME);
+      AppStorage.instance = await AppStorage.load(pref);
     }
   }
 
@@ -25,15 +45,161 @@ class AppStorage {
     return AppStorage.instance;
   }
 
+  // 读取设置：没有新格式时从旧版分散的键迁移，迁移或升级后立即写回
+  private static async load(pref: preferences.Preferences): Promise<AppStorage> {
+    const text = (await pref.get(SETTINGS_KEY, '')) as string;
+    let raw: SettingsRecord | null = null;
+    if (text) {
+      try {
+        raw = JSON.parse(text) as SettingsRecord;
+      } catch (e) {
+        console.warn('设置已损坏，恢复默认值:', e);
+      }
+    } else {
+      const all = (await pref.getAll()) as SettingsRecord;
+      raw = { ...all, version: 0 };
+    }
+    const settings = migrateSettings(raw);
+    // 旧版的键不属于设置 JSON，只保留新格式中的原始内容
+    const storage = new AppStorage(pref, settings, text && raw ? raw : {});
+    if (!raw || raw.version !== settings.version) {
+      await storage.persist();
+      for (const key of Object.keys(LEGACY_SETTING_KEYS)) {
+        await pref.delete(key);
+      }
+      await pref.flush();
+    }
+    return storage;
+  }
+
+  /**
+   * 当前设置的快照
+   */
+  public getSettings(): AppSettings {
+    return this.settings;
+  }
+
+  /**
+   * 修改设置：校验后保存并通知订阅者
+   */
+  public async update(patch: Partial<AppSettings>): Promise<AppSettings> {
+    this.settings = applySettingsPatch(this.settings, patch);
+    await this.persist();
+    for (const listener of this.listeners.slice()) {
+      try {
+        listener(this.settings);
+      } catch (e) {
+        console.warn('设置监听回调失败:', e);
+      }
+    }
+    return this.settings;
+  }
+
+  /**
+   * 订阅设置变化，返回取消订阅的函数
+   */
+  public subscribe(listener: SettingsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
   public async getMapEngine(): Promise<string> {
-    return (await this.pref.get(MAP_ENGINE_KEY, DEFAULT_MAP_ENGINE)) as string;
+    return this.settings.mapEngine;
   }
 
   public async setMapEngine(engine: string): Promise<void> {
-    await this.pref.put(MAP_ENGINE_KEY, engine);
+    await this.update({ mapEngine: engine });
+  }
+
+  // 导航时调起的 App（导航目标 ID）
+  public async getNavigationApp(): Promise<string> {
+    return this.settings.navigationApp;
+  }
+
+  public async setNavigationApp(targetId: string): Promise<void> {
+    await this.update({ navigationApp: targetId });
+  }
+
+  // 默认搜索半径（米）
+  public async getSearchRadius(): Promise<number> {
+    return this.settings.searchRadiusM;
+  }
+
+  public async setSearchRadius(radiusM: number): Promise<void> {
+    await this.update({ searchRadiusM: radiusM });
+  }
+
+  // 出行方式：walking 或 cycling
+  public async getTravelMode(): Promise<string> {
+    return this.settings.travelMode;
+  }
+
+  public async setTravelMode(mode: string): Promise<void> {
+    if (mode !== this.settings.travelMode) {
+      await this.update({ travelMode: mode });
+    }
+  }
+
+  // 是否在搜索结果中隐藏当前已关门的公厕
+  public async getHideClosed(): Promise<boolean> {
+    return this.settings.hideClosed;
+  }
+
+  public async setHideClosed(hide: boolean): Promise<void> {
+    await this.update({ hideClosed: hide });
+  }
+
+  public async getSearchMode(): Promise<string> {
+    return this.settings.searchMode;
+  }
+
+  public async setSearchMode(mode: string): Promise<void> {
+    await this.update({ searchMode: mode });
+  }
+
+  // 综合排序的各因素权重
+  public async getRankingWeights(): Promise<RankingWeights> {
+    return this.settings.rankingWeights;
+  }
+
+  public async setRankingWeights(weights: RankingWeights): Promise<void> {
+    await this.update({ rankingWeights: normalizeWeights(weights) });
+  }
+
+  // 是否需要无障碍设施；开启后无障碍情况参与排序
+  public async getNeedAccessible(): Promise<boolean> {
+    return this.settings.needAccessible;
+  }
+
+  public async setNeedAccessible(need: boolean): Promise<void> {
+    await this.update({ needAccessible: need });
+  }
+
+  public async getSortMode(): Promise<string> {
+    return this.settings.sortMode;
+  }
+
+  public async setSortMode(mode: string): Promise<void> {
+    await this.update({ sortMode: mode });
+  }
+
+  // 日志中位置的保留时长与精度
+  public async getLocationPrivacy(): Promise<LocationPrivacyPolicy> {
+    return this.settings.locationPrivacy;
+  }
+
+  public async setLocationPrivacy(policy: LocationPrivacyPolicy): Promise<void> {
+    await this.update({ locationPrivacy: normalizeLocationPrivacy(policy) });
+  }
+
+  private async persist(): Promise<void> {
+    this.stored = { ...this.stored, ...this.settings };
+    await this.pref.put(SETTINGS_KEY, JSON.stringify(this.stored));
     await this.pref.flush();
   }
 }
 
 // 导出类
-export default AppStorage;
\ No newline at end of file
+export default AppStorage;
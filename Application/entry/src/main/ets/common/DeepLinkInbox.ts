@@ -0,0 +1,39 @@
+import type { DeepLink } from './deepLink';
+
+export type DeepLinkListener = (link: DeepLink) => void;
+
+/**
+ * 外部链接的中转：EntryAbility 收到链接时页面可能还没有创建
+ * 没有订阅者时暂存最近一条，首页订阅时立即交付；新链接覆盖尚未处理的旧链接
+ */
+class DeepLinkInbox {
+  private static pending: DeepLink | null = null;
+  private static listener: DeepLinkListener | null = null;
+
+  public static deliver(link: DeepLink): void {
+    if (DeepLinkInbox.listener) {
+      DeepLinkInbox.listener(link);
+    } else {
+      DeepLinkInbox.pending = link;
+    }
+  }
+
+  /**
+   * 只保留一个订阅者（首页），返回取消订阅的函数
+   */
+  public static subscribe(listener: DeepLinkListener): () => void {
+    DeepLinkInbox.listener = listener;
+    const pending = DeepLinkInbox.pending;
+    DeepLinkInbox.pending = null;
+    if (pending) {
+      listener(pending);
+    }
+    return () => {
+      if (DeepLinkInbox.listener === listener) {
+        DeepLinkInbox.listener = null;
+      }
+    };
+  }
+}
+
+export default DeepLinkInbox;
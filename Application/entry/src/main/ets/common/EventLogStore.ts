@@ -0,0 +1,224 @@
+import relationalStore from '@ohos.data.relationalStore';
+import preferences from '@ohos.data.preferences';
+import util from '@ohos.util';
+import {
+  EventBackend,
+  EventDraft,
+  EventLog,
+  EventPayload,
+  EventQuery,
+  fromLegacyLocationLog,
+  fromLegacySearchLog,
+  LogEvent,
+  severitiesAtLeast
+} from './eventLog';
+import { DEFAULT_LOCATION_PRIVACY, LocationPrivacyPolicy, locationScrubber } from './locationPrivacy';
+
+const TABLE = 'events';
+
+const CREATE_STATEMENTS: string[] = [
+  `CREATE TABLE IF NOT EXISTS ${TABLE} (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp INTEGER NOT NULL, ` +
+    'kind TEXT NOT NULL, severity TEXT NOT NULL, session_id TEXT NOT NULL, search_id TEXT, message TEXT NOT NULL, ' +
+    'payload TEXT)',
+  `CREATE INDEX IF NOT EXISTS idx_events_timestamp ON ${TABLE} (timestamp)`,
+  `CREATE INDEX IF NOT EXISTS idx_events_search ON ${TABLE} (search_id)`
+];
+
+// 旧版日志所在的首选项文件，迁移后删除
+const LEGACY_LOCATION_PREF = 'location_logs';
+const LEGACY_SEARCH_PREF = 'search_logs';
+const LEGACY_KEY = 'logs';
+
+// 基于关系型数据库的存储：追加写入单行，查询与清理交给 SQL
+class RdbEventBackend implements EventBackend {
+  private store: relationalStore.RdbStore;
+
+  constructor(store: relationalStore.RdbStore) {
+    this.store = store;
+  }
+
+  public async insert(event: LogEvent): Promise<void> {
+    const row: relationalStore.ValuesBucket = {
+      timestamp: event.timestamp,
+      kind: event.kind,
+      severity: event.severity,
+      session_id: event.sessionId,
+      search_id: event.searchId ?? null,
+      message: event.message,
+      payload: event.payload ? JSON.stringify(event.payload) : null
+    };
+    await this.store.insert(TABLE, row);
+  }
+
+  public async query(query: EventQuery): Promise<LogEvent[]> {
+    const predicates = new relationalStore.RdbPredicates(TABLE);
+    if (query.from !== undefined) predicates.greaterThanOrEqualTo('timestamp', query.from);
+    if (query.to !== undefined) predicates.lessThanOrEqualTo('timestamp', query.to);
+    if (query.kinds && query.kinds.length > 0) predicates.in('kind', query.kinds);
+    if (query.minSeverity) predicates.in('severity', severitiesAtLeast(query.minSeverity));
+    if (query.searchId) predicates.equalTo('search_id', query.searchId);
+    predicates.orderByDesc('timestamp').orderByDesc('id');
+    if (query.limit !== undefined) predicates.limitAs(query.limit);
+
+    const rs = await this.store.query(predicates);
+    const events: LogEvent[] = [];
+    try {
+      while (rs.goToNextRow()) {
+        events.push(this.toEvent(rs));
+      }
+    } finally {
+      rs.close();
+    }
+    return events;
+  }
+
+  public async deleteBefore(severity: string, cutoff: number): Promise<number> {
+    const predicates = new relationalStore.RdbPredicates(TABLE);
+    predicates.equalTo('severity', severity).lessThan('timestamp', cutoff);
+    return await this.store.delete(predicates);
+  }
+
+  public async trimToNewest(max: number): Promise<number> {
+    const total = await this.count();
+    if (total <= max) return 0;
+    await this.store.executeSql(
+      `DELETE FROM ${TABLE} WHERE id NOT IN (SELECT id FROM ${TABLE} ORDER BY timestamp DESC, id DESC LIMIT ?)`, [max]);
+    return total - max;
+  }
+
+  public async updatePayload(id: number, payload: EventPayload | null): Promise<void> {
+    const predicates = new relationalStore.RdbPredicates(TABLE);
+    predicates.equalTo('id', id);
+    const row: relationalStore.ValuesBucket = { payload: payload ? JSON.stringify(payload) : null };
+    await this.store.update(row, predicates);
+  }
+
+  public async clear(): Promise<void> {
+    await this.store.executeSql(`DELETE FROM ${TABLE}`);
+  }
+
+  private async count(): Promise<number> {
+    const rs = await this.store.querySql(`SELECT COUNT(*) AS total FROM ${TABLE}`);
+    try {
+      return rs.goToFirstRow() ? rs.getLong(rs.getColumnIndex('total')) : 0;
+    } finally {
+      rs.close();
+    }
+  }
+
+  private toEvent(rs: relationalStore.ResultSet): LogEvent {
+    const text = (column: string): string | null => {
+      const index = rs.getColumnIndex(column);
+      return rs.isColumnNull(index) ? null : rs.getString(index);
+    };
+    const event: LogEvent = {
+      id: rs.getLong(rs.getColumnIndex('id')),
+      timestamp: rs.getLong(rs.getColumnIndex('timestamp')),
+      kind: text('kind') ?? '',
+      severity: text('severity') ?? '',
+      sessionId: text('session_id') ?? '',
+      message: text('message') ?? ''
+    };
+    const searchId = text('search_id');
+    if (searchId) event.searchId = searchId;
+    const payload = text('payload');
+    if (payload) {
+      try {
+        event.payload = JSON.parse(payload);
+      } catch (_) {
+        // 损坏的附加信息直接忽略
+      }
+    }
+    return event;
+  }
+}
+
+/**
+ * 应用事件日志（单例）
+ * 首次初始化时把旧版定位/检索日志迁移进来，并按位置隐私设置执行一次保留策略
+ */
+class EventLogStore {
+  private static instance: EventLog | null = null;
+
+  public static async init(context: any, privacy: LocationPrivacyPolicy = DEFAULT_LOCATION_PRIVACY): Promise<void> {
+    if (!EventLogStore.instance) {
+      const store = await relationalStore.getRdbStore(context, {
+        name: 'event_log.db',
+        securityLevel: relationalStore.SecurityLevel.S1
+      });
+      for (const sql of CREATE_STATEMENTS) {
+        await store.executeSql(sql);
+      }
+      const backend = new RdbEventBackend(store);
+      await migrateLegacyLogs(context, backend);
+      const log = new EventLog(backend, () => util.generateRandomUUID(false));
+      await log.setScrubber(locationScrubber(privacy));
+      await log.applyRetention();
+      EventLogStore.instance = log;
+    }
+  }
+
+  public static getInstance(): EventLog {
+    if (!EventLogStore.instance) {
+      throw new Error('EventLogStore has not been initialized. Call init() first.');
+    }
+    return EventLogStore.instance;
+  }
+
+  public static isInitialized(): boolean {
+    return EventLogStore.instance !== null;
+  }
+
+  /**
+   * 更改位置隐私设置：之后写入的坐标按新精度保存，已保存的坐标立即按新设置处理，返回改动条数
+   */
+  public static async applyLocationPrivacy(privacy: LocationPrivacyPolicy): Promise<number> {
+    return await EventLogStore.getInstance().setScrubber(locationScrubber(privacy));
+  }
+
+  /**
+   * 在后台清理过期的事件与坐标，失败只打印警告
+   */
+  public static purgeExpired(): void {
+    if (!EventLogStore.instance) return;
+    EventLogStore.instance.applyRetention().catch((e: Error) => {
+      console.warn('清理事件日志失败:', e);
+    });
+  }
+}
+
+/**
+ * 记录一条事件；日志未初始化或写入失败时只打印警告，不影响调用方
+ */
+export function logEvent(draft: EventDraft): void {
+  if (!EventLogStore.isInitialized()) {
+    console.warn(`Event log not ready, dropped ${draft.kind}: ${draft.message}`);
+    return;
+  }
+  EventLogStore.getInstance().record(draft).catch((e: Error) => {
+    console.warn('写入事件日志失败:', e);
+  });
+}
+
+async function migrateLegacyLogs(context: any, backend: EventBackend): Promise<void> {
+  const sources: Array<{ name: string; convert: (raw: any) => LogEvent | null }> = [
+    { name: LEGACY_LOCATION_PREF, convert: fromLegacyLocationLog },
+    { name: LEGACY_SEARCH_PREF, convert: fromLegacySearchLog }
+  ];
+  for (const source of sources) {
+    try {
+      const pref = await preferences.getPreferences(context, source.name);
+      const raw = (await pref.get(LEGACY_KEY, '')) as string;
+      const items: any[] = raw ? JSON.parse(raw) : [];
+      for (const item of Array.isArray(items) ? items : []) {
+        const event = source.convert(item);
+        if (event) await backend.insert(event);
+      }
+      await preferences.deletePreferences(context, source.name);
+    } catch (e) {
+      console.warn(`迁移旧版日志失败: ${source.name}`, e);
+    }
+  }
+}
+
+export default EventLogStore;
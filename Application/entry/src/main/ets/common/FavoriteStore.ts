@@ -0,0 +1,176 @@
+import preferences from '@ohos.data.preferences';
+import type { ToiletPoi } from '../map/MapService';
+
+export type Favorite = {
+  poi: ToiletPoi;          // 收藏时的公厕快照（WGS-84），数据源不再返回时仍可展示与导航
+  note: string;            // 用户备注
+  tags: string[];          // 用户标签，如 "公司附近"、"干净"
+  createdAt: number;
+  updatedAt: number;
+  lastVisitedAt?: number;  // 最近一次从收藏发起导航的时间
+};
+
+// ArkTS V1 不支持 Partial 等工具类型，提供显式的编辑信息类型
+export interface FavoriteEdit {
+  note?: string;
+  tags?: string[];
+}
+
+/**
+ * 收藏的公厕与个人备注
+ * 记录常驻内存，供检索结果同步叠加收藏标记；写入时整体持久化
+ */
+class FavoriteStore {
+  private static instance: FavoriteStore | null = null;
+  private pref!: preferences.Preferences;
+  private favorites: Favorite[] = [];
+  private static readonly PREF_NAME = 'favorites';
+  private static readonly KEY = 'items';
+
+  private constructor(pref: preferences.Preferences) {
+    this.pref = pref;
+  }
+
+  public static async init(context: any): Promise<void> {
+    if (!FavoriteStore.instance) {
+      const pref = await preferences.getPreferences(context, FavoriteStore.PREF_NAME);
+      const store = new FavoriteStore(pref);
+      await store.load();
+      FavoriteStore.instance = store;
+    }
+  }
+
+  public static getInstance(): FavoriteStore {
+    if (!FavoriteStore.instance) {
+      throw new Error('FavoriteStore has not been initialized. Call init() first.');
+    }
+    return FavoriteStore.instance;
+  }
+
+  public static isInitialized(): boolean {
+    return FavoriteStore.instance !== null;
+  }
+
+  // 按收藏时间倒序
+  public getAll(): Favorite[] {
+    return this.favorites.slice().sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  public get(id: string): Favorite | undefined {
+    return this.favorites.find(f => f.poi.id === id);
+  }
+
+  public isFavorite(id: string): boolean {
+    return this.get(id) !== undefined;
+  }
+
+  /**
+   * 收藏公厕；已收藏时只刷新快照，保留备注与标签
+   */
+  public async add(poi: ToiletPoi, note: string = '', tags: string[] = []): Promise<Favorite> {
+    const now = Date.now();
+    const snapshot = snapshotOf(poi);
+    const existing = this.get(poi.id);
+    if (existing) {
+      existing.poi = snapshot;
+      existing.updatedAt = now;
+      await this.save();
+      return existing;
+    }
+    const favorite: Favorite = { poi: snapshot, note, tags: normalizeTags(tags), createdAt: now, updatedAt: now };
+    this.favorites.push(favorite);
+    await this.save();
+    return favorite;
+  }
+
+  public async update(id: string, edit: FavoriteEdit): Promise<void> {
+    const favorite = this.get(id);
+    if (!favorite) return;
+    if (edit.note !== undefined) favorite.note = edit.note.trim();
+    if (edit.tags !== undefined) favorite.tags = normalizeTags(edit.tags);
+    favorite.updatedAt = Date.now();
+    await this.save();
+  }
+
+  public async markVisited(id: string, timestamp: number = Date.now()): Promise<void> {
+    const favorite = this.get(id);
+    if (!favorite) return;
+    favorite.lastVisitedAt = timestamp;
+    await this.save();
+  }
+
+  public async remove(id: string): Promise<void> {
+    const before = this.favorites.length;
+    this.favorites = this.favorites.filter(f => f.poi.id !== id);
+    if (this.favorites.length !== before) {
+      await this.save();
+    }
+  }
+
+  // 所有标签（去重，按使用次数排序），用于列表页筛选
+  public allTags(): string[] {
+    const counts: Record<string, number> = {};
+    for (const f of this.favorites) {
+      for (const tag of f.tags) counts[tag] = (counts[tag] ?? 0) + 1;
+    }
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+  }
+
+  private async load(): Promise<void> {
+    const raw = (await this.pref.get(FavoriteStore.KEY, '[]')) as string;
+    try {
+      const parsed = JSON.parse(raw) as Favorite[];
+      this.favorites = Array.isArray(parsed) ? parsed.filter(f => !!f && !!f.poi && !!f.poi.id) : [];
+    } catch (_) {
+      this.favorites = [];
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.pref.put(FavoriteStore.KEY, JSON.stringify(this.favorites));
+    await this.pref.flush();
+  }
+}
+
+// 快照不保存查询时的距离、排序、收藏标记与社区评分
+function snapshotOf(poi: ToiletPoi): ToiletPoi {
+  const copy: ToiletPoi = {
+    ...poi,
+    location: { latitude: poi.location.latitude, longitude: poi.location.longitude },
+    distance: 0
+  };
+  delete copy.favorite;
+  delete copy.rating;
+  delete copy.reviewCount;
+  delete copy.ranking;
+  delete copy.route;
+  return copy;
+}
+
+/**
+ * 导出用的公厕数据：备注与标签写入 attributes（标签以分号分隔），随 GeoJSON/GPX 一起导出
+ */
+export function favoriteExportPoi(favorite: Favorite): ToiletPoi {
+  const attributes: Record<string, string> = { ...(favorite.poi.attributes ?? {}) };
+  if (favorite.note) attributes['note'] = favorite.note;
+  if (favorite.tags.length > 0) attributes['tags'] = favorite.tags.join(';');
+  return { ...favorite.poi, attributes };
+}
+
+/**
+ * 标签去空白、去重；支持中英文逗号与空格分隔的输入
+ */
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(/[,，、\s]+/));
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const result: string[] = [];
+  for (const tag of tags) {
+    const t = tag.trim();
+    if (t.length > 0 && result.indexOf(t) < 0) result.push(t);
+  }
+  return result;
+}
+
+export default FavoriteStore;
@@ -0,0 +1,106 @@
+import preferences from '@ohos.data.preferences';
+import { ToiletPoi } from './types';
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+}
+
+/**
+ * 本地公厕数据集（用户导入的活动、园区等数据）
+ * 记录常驻内存，供 LocalProvider 同步读取；写入时整体持久化
+ */
+class LocalDatasetStore {
+  private static instance: LocalDatasetStore | null = null;
+  private pref!: preferences.Preferences;
+  private records: ToiletPoi[] = [];
+  private static readonly PREF_NAME = 'local_dataset';
+  private static readonly RECORDS_KEY = 'records';
+
+  private constructor(pref: preferences.Preferences) {
+    this.pref = pref;
+  }
+
+  public static async init(context: any): Promise<void> {
+    if (!LocalDatasetStore.instance) {
+      const pref = await preferences.getPreferences(context, LocalDatasetStore.PREF_NAME);
+      const store = new LocalDatasetStore(pref);
+      await store.load();
+      LocalDatasetStore.instance = store;
+    }
+  }
+
+  public static getInstance(): LocalDatasetStore {
+    if (!LocalDatasetStore.instance) {
+      throw new Error('LocalDatasetStore has not been initialized. Call init() first.');
+    }
+    return LocalDatasetStore.instance;
+  }
+
+  public static isInitialized(): boolean {
+    return LocalDatasetStore.instance !== null;
+  }
+
+  public getAll(): ToiletPoi[] {
+    return this.records.slice();
+  }
+
+  public count(): number {
+    return this.records.length;
+  }
+
+  /**
+   * 合并导入记录：id 相同的覆盖，其余追加
+   */
+  public async merge(incoming: ToiletPoi[]): Promise<MergeSummary> {
+    const byId: Record<string, number> = {};
+    this.records.forEach((r, i) => byId[r.id] = i);
+    let added = 0;
+    let updated = 0;
+    for (const record of incoming) {
+      const idx = byId[record.id];
+      if (idx !== undefined) {
+        this.records[idx] = record;
+        updated++;
+      } else {
+        byId[record.id] = this.records.length;
+        this.records.push(record);
+        added++;
+      }
+    }
+    await this.save();
+    return { added, updated };
+  }
+
+  public async replaceAll(records: ToiletPoi[]): Promise<void> {
+    this.records = records.slice();
+    await this.save();
+  }
+
+  public async clear(): Promise<void> {
+    await this.replaceAll([]);
+  }
+
+  private async load(): Promise<void> {
+    const raw = (await this.pref.get(LocalDatasetStore.RECORDS_KEY, '[]')) as string;
+    try {
+      const parsed = JSON.parse(raw) as ToiletPoi[];
+      this.records = Array.isArray(parsed) ? parsed : [];
+    } catch (_) {
+      this.records = [];
+    }
+  }
+
+  private async save(): Promise<void> {
+    // 距离为查询时计算的临时值，不持久化
+    const stored = this.records.map((r) => {
+      const copy: ToiletPoi = { ...r };
+      delete copy.distance;
+      return copy;
+    });
+    await this.pref.put(LocalDatasetStore.RECORDS_KEY, JSON.stringify(stored));
+    await this.pref.flush();
+  }
+}
+
+export default LocalDatasetStore;
@@ -0,0 +1,252 @@
+import preferences from '@ohos.data.preferences';
+import type { ToiletPoi } from '../map/MapService';
+import { decodeGeohashBounds, encodeGeohash, geohashesInCircle } from './geohash';
+import { haversineMeters } from './distance';
+import {
+  POI_CACHE_GEOHASH_PRECISION,
+  POI_CACHE_MAX_AGE_MS,
+  POI_CACHE_MAX_CELLS,
+  POI_CACHE_MAX_POIS,
+  POI_CACHE_TTL_MS
+} from './config';
+
+// 部分覆盖网格的检索圆，用于判断之后的查询是否落在已检索过的范围内
+type CoveredArea = {
+  lat: number;
+  lng: number;
+  radiusM: number;
+  fetchedAt: number;
+};
+
+// 单个网格的缓存内容
+type CacheCell = {
+  fetchedAt: number;
+  complete: boolean;  // 该网格是否被一次检索完整覆盖（否则只是顺带收录了部分结果）
+  pois: ToiletPoi[];  // 不含 distance，查询时按中心点重新计算
+  covered?: CoveredArea[];  // 部分覆盖该网格的检索圆，最近的在后
+};
+
+// 网格索引信息（常驻内存，用于新鲜度判断与淘汰）
+type CellMeta = {
+  fetchedAt: number;
+  lastAccess: number;
+  count: number;
+  complete: boolean;
+};
+
+// 缓存的持久化存储（与 preferences.Preferences 的对应方法一致，测试中可替换为内存实现）
+export interface PoiCacheStorage {
+  get(key: string, defValue: preferences.ValueType): Promise<preferences.ValueType>;
+  put(key: string, value: preferences.ValueType): Promise<void>;
+  delete(key: string): Promise<void>;
+  flush(): Promise<void>;
+}
+
+// 每个部分覆盖网格保留的检索圆数量
+const MAX_COVERED_AREAS = 4;
+
+export interface PoiCacheQuery {
+  pois: ToiletPoi[];       // 半径内的缓存结果（已填充 distance 并按距离排序）
+  hit: boolean;            // 是否命中任一网格
+  fresh: boolean;          // 查询区域的关键网格均在有效期内且完整
+  oldestFetchedAt?: number;
+}
+
+/**
+ * 离线公厕缓存
+ * 按 geohash 网格分桶持久化，每个网格独立记录抓取时间；
+ * 超过数量上限时按最近访问时间淘汰
+ */
+class PoiCacheStore {
+  private static instance: PoiCacheStore | null = null;
+  private pref: PoiCacheStorage;
+  private index: Record<string, CellMeta> = {};
+  private static readonly PREF_NAME = 'poi_cache';
+  private static readonly INDEX_KEY = 'index';
+  private static readonly CELL_PREFIX = 'cell_';
+
+  private constructor(pref: PoiCacheStorage) {
+    this.pref = pref;
+  }
+
+  public static async init(context: any): Promise<void> {
+    if (!PoiCacheStore.instance) {
+      const pref = await preferences.getPreferences(context, PoiCacheStore.PREF_NAME);
+      PoiCacheStore.instance = await PoiCacheStore.open(pref);
+    }
+  }
+
+  /**
+   * 在指定存储上打开缓存（不作为全局实例）
+   */
+  public static async open(storage: PoiCacheStorage): Promise<PoiCacheStore> {
+    const store = new PoiCacheStore(storage);
+    await store.loadIndex();
+    return store;
+  }
+
+  public static getInstance(): PoiCacheStore {
+    if (!PoiCacheStore.instance) {
+      throw new Error('PoiCacheStore has not been initialized. Call init() first.');
+    }
+    return PoiCacheStore.instance;
+  }
+
+  public static isInitialized(): boolean {
+    return PoiCacheStore.instance !== null;
+  }
+
+  /**
+   * 查询圆形区域内的缓存结果
+   * 新鲜度判定：与圆相交的每个网格都需在有效期内，且要么被完整覆盖过，要么查询圆落在该网格记录的某次检索圆内
+   */
+  public async query(latitude: number, longitude: number, radiusM: number, now: number = Date.now()): Promise<PoiCacheQuery> {
+    const cells = geohashesInCircle(latitude, longitude, radiusM, POI_CACHE_GEOHASH_PRECISION);
+    const pois: ToiletPoi[] = [];
+    let hit = false;
+    let fresh = true;
+    let oldest: number | undefined = undefined;
+
+    for (const hash of cells) {
+      const meta = this.index[hash];
+      const cell = meta ? await this.readCell(hash) : null;
+      if (!meta || !cell) {
+        fresh = false;
+        continue;
+      }
+      if (!isCellFreshFor(cell, latitude, longitude, radiusM, now)) {
+        fresh = false;
+      }
+      hit = true;
+      meta.lastAccess = now;
+      oldest = oldest === undefined ? cell.fetchedAt : Math.min(oldest, cell.fetchedAt);
+      for (const poi of cell.pois) {
+        const distance = Math.round(haversineMeters(latitude, longitude, poi.location.latitude, poi.location.longitude));
+        if (distance <= radiusM) {
+          pois.push({ ...poi, distance });
+        }
+      }
+    }
+    if (hit) {
+      await this.saveIndex();
+    }
+    pois.sort((a, b) => a.distance - b.distance);
+    return { pois, hit, fresh: hit && fresh, oldestFetchedAt: oldest };
+  }
+
+  /**
+   * 写入一次检索的结果
+   * completeRadiusM 为数据源实际完整检索的半径（受半径上限、分页截断影响，可小于 radiusM，0 表示都不完整）；
+   * 整个网格都在完整检索圆内时整体替换；其余网格只合并新结果，不刷新其抓取时间，并记录完整检索圆
+   */
+  public async put(latitude: number, longitude: number, radiusM: number, pois: ToiletPoi[],
+    now: number = Date.now(), completeRadiusM: number = radiusM): Promise<void> {
+    const cells = geohashesInCircle(latitude, longitude, radiusM, POI_CACHE_GEOHASH_PRECISION);
+    const complete = Math.min(completeRadiusM, radiusM);
+    const area: CoveredArea = { lat: latitude, lng: longitude, radiusM: complete, fetchedAt: now };
+    const byCell: Record<string, ToiletPoi[]> = {};
+    for (const poi of pois) {
+      const hash = encodeGeohash(poi.location.latitude, poi.location.longitude, POI_CACHE_GEOHASH_PRECISION);
+      const stored: ToiletPoi = { ...poi, distance: 0 };
+      (byCell[hash] = byCell[hash] ?? []).push(stored);
+    }
+
+    for (const hash of cells) {
+      const incoming = byCell[hash] ?? [];
+      let cell: CacheCell;
+      if (complete > 0 && isCellInside(hash, latitude, longitude, complete)) {
+        cell = { fetchedAt: now, complete: true, pois: incoming };
+      } else {
+        const existing = await this.readCell(hash);
+        if (existing) {
+          cell = existing;
+          for (const poi of incoming) {
+            const idx = cell.pois.findIndex(p => p.id === poi.id);
+            if (idx >= 0) cell.pois[idx] = poi; else cell.pois.push(poi);
+          }
+        } else {
+          cell = { fetchedAt: now, complete: false, pois: incoming };
+        }
+        const recent = (cell.covered ?? []).filter(a => now - a.fetchedAt <= POI_CACHE_TTL_MS);
+        cell.covered = complete > 0 ? recent.concat([area]).slice(-MAX_COVERED_AREAS) : recent;
+      }
+      await this.pref.put(PoiCacheStore.CELL_PREFIX + hash, JSON.stringify(cell));
+      this.index[hash] = { fetchedAt: cell.fetchedAt, lastAccess: now, count: cell.pois.length, complete: cell.complete };
+    }
+    await this.evict(now);
+    await this.saveIndex();
+  }
+
+  public async clear(): Promise<void> {
+    for (const hash of Object.keys(this.index)) {
+      await this.pref.delete(PoiCacheStore.CELL_PREFIX + hash);
+    }
+    this.index = {};
+    await this.saveIndex();
+  }
+
+  // 淘汰：先删除超过最长保留时间的网格，再按最近访问时间删除直至满足数量上限
+  private async evict(now: number): Promise<void> {
+    const hashes = Object.keys(this.index);
+    const victims: string[] = hashes.filter(h => now - this.index[h].fetchedAt > POI_CACHE_MAX_AGE_MS);
+    const remaining = hashes
+      .filter(h => victims.indexOf(h) < 0)
+      .sort((a, b) => this.index[a].lastAccess - this.index[b].lastAccess);
+    let total = remaining.reduce((sum, h) => sum + this.index[h].count, 0);
+    while (remaining.length > 0 && (remaining.length > POI_CACHE_MAX_CELLS || total > POI_CACHE_MAX_POIS)) {
+      const h = remaining.shift() as string;
+      total -= this.index[h].count;
+      victims.push(h);
+    }
+    for (const h of victims) {
+      delete this.index[h];
+      await this.pref.delete(PoiCacheStore.CELL_PREFIX + h);
+    }
+  }
+
+  private async readCell(hash: string): Promise<CacheCell | null> {
+    const raw = (await this.pref.get(PoiCacheStore.CELL_PREFIX + hash, '')) as string;
+    if (!raw) return null;
+    try {
+      const cell = JSON.parse(raw) as CacheCell;
+      return Array.isArray(cell?.pois) ? cell : null;
+    } catch (_) {
+      return null;
+    }
+  }
+
+  private async loadIndex(): Promise<void> {
+    const raw = (await this.pref.get(PoiCacheStore.INDEX_KEY, '{}')) as string;
+    try {
+      const parsed = JSON.parse(raw) as Record<string, CellMeta>;
+      this.index = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (_) {
+      this.index = {};
+    }
+  }
+
+  private async saveIndex(): Promise<void> {
+    await this.pref.put(PoiCacheStore.INDEX_KEY, JSON.stringify(this.index));
+    await this.pref.flush();
+  }
+}
+
+// 网格的四个角都在圆内，即整个网格被检索覆盖
+function isCellInside(hash: string, latitude: number, longitude: number, radiusM: number): boolean {
+  const b = decodeGeohashBounds(hash);
+  return haversineMeters(latitude, longitude, b.minLat, b.minLng) <= radiusM &&
+    haversineMeters(latitude, longitude, b.minLat, b.maxLng) <= radiusM &&
+    haversineMeters(latitude, longitude, b.maxLat, b.minLng) <= radiusM &&
+    haversineMeters(latitude, longitude, b.maxLat, b.maxLng) <= radiusM;
+}
+
+// 网格能否直接回答这次查询：完整且未过期，或查询圆落在一次未过期的检索圆内
+function isCellFreshFor(cell: CacheCell, latitude: number, longitude: number, radiusM: number, now: number): boolean {
+  if (cell.complete && now - cell.fetchedAt <= POI_CACHE_TTL_MS) {
+    return true;
+  }
+  return (cell.covered ?? []).some(a => now - a.fetchedAt <= POI_CACHE_TTL_MS &&
+    haversineMeters(latitude, longitude, a.lat, a.lng) + radiusM <= a.radiusM);
+}
+
+export default PoiCacheStore;
@@ -0,0 +1,143 @@
+/**
+ * 取消令牌
+ * 由 CancellationSource 发出，向下传递到定位、HTTP 请求等耗时操作；
+ * 取消后相关操作应尽快以 CancelledError 结束，调用方据此丢弃过期结果
+ */
+
+export enum CancelReason {
+  CANCELLED = 'cancelled', // 主动取消（离开页面、发起新检索等）
+  DEADLINE = 'deadline'    // 超出整体时间预算
+}
+
+export class CancelledError extends Error {
+  public readonly reason: CancelReason;
+
+  constructor(reason: CancelReason = CancelReason.CANCELLED) {
+    super(reason === CancelReason.DEADLINE ? '检索超时，请稍后重试' : '检索已取消');
+    this.name = 'CancelledError';
+    this.reason = reason;
+  }
+}
+
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError || (error as Error)?.name === 'CancelledError';
+}
+
+export type CancelListener = (reason: CancelReason) => void;
+
+export class CancellationToken {
+  private cancelReason: CancelReason | null = null;
+  private listeners: CancelListener[] = [];
+
+  public get isCancelled(): boolean {
+    return this.cancelReason !== null;
+  }
+
+  public get reason(): CancelReason | null {
+    return this.cancelReason;
+  }
+
+  /**
+   * 注册取消回调；已取消时立即回调。返回值用于注销
+   */
+  public onCancel(listener: CancelListener): () => void {
+    if (this.cancelReason !== null) {
+      listener(this.cancelReason);
+      return () => {};
+    }
+    this.listeners.push(listener);
+    return () => {
+      const idx = this.listeners.indexOf(listener);
+      if (idx >= 0) this.listeners.splice(idx, 1);
+    };
+  }
+
+  public throwIfCancelled(): void {
+    if (this.cancelReason !== null) {
+      throw new CancelledError(this.cancelReason);
+    }
+  }
+
+  // 仅由 CancellationSource 调用
+  public signal(reason: CancelReason): void {
+    if (this.cancelReason !== null) return;
+    this.cancelReason = reason;
+    const listeners = this.listeners;
+    this.listeners = [];
+    for (const listener of listeners) {
+      try {
+        listener(reason);
+      } catch (e) {
+        console.warn('Cancel listener failed:', e);
+      }
+    }
+  }
+}
+
+export class CancellationSource {
+  public readonly token: CancellationToken = new CancellationToken();
+  private timerId: number | undefined = undefined;
+
+  /**
+   * @param parent 父令牌取消时随之取消
+   */
+  constructor(parent?: CancellationToken) {
+    parent?.onCancel((reason: CancelReason) => this.cancel(reason));
+  }
+
+  /**
+   * 创建带时间预算的来源，超时后以 DEADLINE 取消
+   */
+  public static withTimeout(timeoutMs: number, parent?: CancellationToken): CancellationSource {
+    const source = new CancellationSource(parent);
+    source.timerId = setTimeout(() => source.cancel(CancelReason.DEADLINE), timeoutMs);
+    return source;
+  }
+
+  public cancel(reason: CancelReason = CancelReason.CANCELLED): void {
+    this.clearTimer();
+    this.token.signal(reason);
+  }
+
+  /**
+   * 操作正常结束后调用，停止超时计时（不影响父令牌的传递）
+   */
+  public dispose(): void {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timerId !== undefined) {
+      clearTimeout(this.timerId);
+      this.timerId = undefined;
+    }
+  }
+}
+
+/**
+ * 令牌取消时立即以 CancelledError 拒绝，不必等待底层操作返回
+ * 适用于无法真正中断的系统接口（如单次定位），其迟到的结果会被丢弃
+ */
+export function raceCancellation<T>(promise: Promise<T>, token?: CancellationToken): Promise<T> {
+  if (!token) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const unsubscribe = token.onCancel((reason: CancelReason) => reject(new CancelledError(reason)));
+    promise.then(
+      (value: T) => {
+        unsubscribe();
+        resolve(value);
+      },
+      (error: Error) => {
+        unsubscribe();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * 可取消的等待
+ */
+export function delay(ms: number, token?: CancellationToken): Promise<void> {
+  return raceCancellation(new Promise<void>(resolve => setTimeout(resolve, ms)), token);
+}
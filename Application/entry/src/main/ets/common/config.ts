@@ -7,11 +7,18 @@
 export const APP_TITLE = '找厕所';
 
 // 默认搜索半径（米）
-export const DEFAULT_RADIUS_M = 5000;
+export const DEFAULT_RADIUS_M = 500;
+
+// 可选的搜索半径（米），从小到大；最后一项为上限
+export const SEARCH_RADIUS_OPTIONS_M: number[] = [500, 1000, 2000, 5000];
 
 // 默认结果数量限制
 export const DEFAULT_LIMIT = 20;
 
+// 估算用时的速度（米/分钟）
+export const WALKING_SPEED_M_PER_MIN = 80;
+export const CYCLING_SPEED_M_PER_MIN = 200;
+
 // 默认地图中心点（北京）
 export const DEFAULT_CENTER = {
   lat: 39.9098,
@@ -19,4 +26,79 @@ export const DEFAULT_CENTER = {
 };
 
 // 默认地图缩放级别
-export const DEFAULT_ZOOM = 15;
\ No newline at end of file
+export const DEFAULT_ZOOM = 15;
+
+// 高德 Web 服务 Key（为空时跳过高德检索，按回退链继续）
+export const AMAP_WEB_KEY = '';
+
+// 百度地图 Web 服务 AK（与 module.json5 中 baidu_map_ak 保持一致）
+export const BAIDU_WEB_AK = 'xTn4vwunlUWLWilFpx5QcDUOycbq34YZ';
+
+// 各地图引擎的检索回退链：依次尝试，前一个失败或无结果时使用下一个
+export const MAP_ENGINE_FALLBACK_CHAIN: Record<string, string[]> = {
+  huawei: ['huawei'],
+  amap: ['amap', 'huawei'],
+  baidu: ['baidu', 'huawei']
+};
+
+// 离线缓存：geohash 精度（6 位约 1.2km × 0.6km）
+export const POI_CACHE_GEOHASH_PRECISION = 6;
+
+// 离线缓存：网格有效期（超过后联网时会重新拉取）
+export const POI_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 离线缓存：网格最长保留时间（超过后直接淘汰）
+export const POI_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// 离线缓存：容量上限
+export const POI_CACHE_MAX_CELLS = 400;
+export const POI_CACHE_MAX_POIS = 5000;
+
+// 一次检索在所有数据源上的总时间预算（不含定位）
+export const SEARCH_DEADLINE_MS = 30000;
+
+// Overpass 镜像列表：按顺序优先使用，失败后轮换到下一个
+export const OVERPASS_ENDPOINTS: string[] = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.private.coffee/api/interpreter'
+];
+
+// Overpass 镜像失败后的冷却时间：首次 30 秒，连续失败翻倍，最长 10 分钟
+export const OVERPASS_BACKOFF_BASE_MS = 30 * 1000;
+export const OVERPASS_BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+// 社区评分缓存有效期（期间同一公厕不重复查询云数据库）
+export const REVIEW_STATS_TTL_MS = 5 * 60 * 1000;
+
+// 云端检索（云函数 toilet-search）的半径上限与单次返回条数，与云函数的限制一致
+export const CLOUD_SEARCH_MAX_RADIUS_M = 20000;
+export const CLOUD_SEARCH_LIMIT = 100;
+
+// 没有路网数据时，路程按直线距离乘以该绕行系数估算
+export const ROUTE_DETOUR_FACTOR = 1.3;
+
+// 定位点或公厕距最近的路网节点超过该距离时不按路网规划
+export const ROUTE_MAX_SNAP_M = 250;
+
+// 路网缓存：下载半径、定位点距缓存边界的最小余量（不足时下载新的区域）、有效期与保留份数
+export const ROAD_GRAPH_FETCH_RADIUS_M = 2000;
+export const ROAD_GRAPH_EDGE_MARGIN_M = 800;
+export const ROAD_GRAPH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const ROAD_GRAPH_MAX_CACHED = 6;
+
+// 跟随模式：位置变化小于该距离时不重算；定位精度差于该值的位置不参与判断
+export const FOLLOW_MIN_MOVE_M = 10;
+export const FOLLOW_MAX_ACCURACY_M = 100;
+
+// 跟随模式：偏离上次检索中心超过 max(最小距离, 半径 × 比例) 或走出检索范围时重新检索，两次检索至少间隔冷却时间
+export const FOLLOW_REQUERY_MIN_M = 150;
+export const FOLLOW_REQUERY_RATIO = 0.3;
+export const FOLLOW_REQUERY_COOLDOWN_MS = 30 * 1000;
+
+// 跟随模式：持续定位的上报间隔（秒）
+export const FOLLOW_FIX_INTERVAL_S = 3;
+
+// 地图标记聚合：屏幕上相距不足该距离（vp）的标记合并显示；达到最大缩放级别后逐个显示
+export const CLUSTER_RADIUS_PX = 60;
+export const CLUSTER_MAX_ZOOM = 18;
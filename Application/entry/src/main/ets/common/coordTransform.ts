@@ -0,0 +1,132 @@
+/**
+ * 坐标系转换：WGS-84 / GCJ-02（国测局，高德/华为国内）/ BD-09（百度）
+ * 境外坐标不做偏移；GCJ-02 → WGS-84 使用迭代逆解，误差在厘米级
+ */
+
+export enum CoordSystem {
+  WGS84 = 'wgs84',
+  GCJ02 = 'gcj02',
+  BD09 = 'bd09'
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// 克拉索夫斯基椭球参数
+const A = 6378245.0;
+const EE = 0.00669342162296594323;
+const X_PI = Math.PI * 3000.0 / 180.0;
+// 逆解迭代的收敛阈值（度），约 1cm
+const INVERSE_EPSILON = 1e-7;
+const INVERSE_MAX_ITERATIONS = 30;
+
+/**
+ * 粗略判断是否在中国境外（境外不加偏移）
+ */
+export function outOfChina(lat: number, lng: number): boolean {
+  return lng < 72.004 || lng > 137.8347 || lat < 0.8293 || lat > 55.8271;
+}
+
+export function wgs84ToGcj02(lat: number, lng: number): LatLng {
+  if (outOfChina(lat, lng)) {
+    return { lat, lng };
+  }
+  const d = gcjDelta(lat, lng);
+  return { lat: lat + d.lat, lng: lng + d.lng };
+}
+
+/**
+ * GCJ-02 → WGS-84：以一次近似为初值，迭代修正直至正向变换结果与输入吻合
+ */
+export function gcj02ToWgs84(lat: number, lng: number): LatLng {
+  if (outOfChina(lat, lng)) {
+    return { lat, lng };
+  }
+  let wgsLat = lat;
+  let wgsLng = lng;
+  for (let i = 0; i < INVERSE_MAX_ITERATIONS; i++) {
+    const g = wgs84ToGcj02(wgsLat, wgsLng);
+    const dLat = g.lat - lat;
+    const dLng = g.lng - lng;
+    wgsLat -= dLat;
+    wgsLng -= dLng;
+    if (Math.abs(dLat) < INVERSE_EPSILON && Math.abs(dLng) < INVERSE_EPSILON) {
+      break;
+    }
+  }
+  return { lat: wgsLat, lng: wgsLng };
+}
+
+export function gcj02ToBd09(lat: number, lng: number): LatLng {
+  const z = Math.sqrt(lng * lng + lat * lat) + 0.00002 * Math.sin(lat * X_PI);
+  const theta = Math.atan2(lat, lng) + 0.000003 * Math.cos(lng * X_PI);
+  return { lat: z * Math.sin(theta) + 0.006, lng: z * Math.cos(theta) + 0.0065 };
+}
+
+export function bd09ToGcj02(lat: number, lng: number): LatLng {
+  const x = lng - 0.0065;
+  const y = lat - 0.006;
+  const z = Math.sqrt(x * x + y * y) - 0.00002 * Math.sin(y * X_PI);
+  const theta = Math.atan2(y, x) - 0.000003 * Math.cos(x * X_PI);
+  return { lat: z * Math.sin(theta), lng: z * Math.cos(theta) };
+}
+
+/**
+ * 任意两个坐标系之间转换
+ */
+export function convertCoord(lat: number, lng: number, from: string, to: string): LatLng {
+  if (from === to) {
+    return { lat, lng };
+  }
+  // 统一先转到 GCJ-02，再转到目标坐标系
+  let gcj: LatLng;
+  switch (from) {
+    case CoordSystem.WGS84:
+      gcj = wgs84ToGcj02(lat, lng);
+      break;
+    case CoordSystem.BD09:
+      gcj = bd09ToGcj02(lat, lng);
+      break;
+    default:
+      gcj = { lat, lng };
+  }
+  switch (to) {
+    case CoordSystem.WGS84:
+      // BD-09 → WGS-84 的 GCJ 中间值境外不偏移，与正向保持一致
+      return gcj02ToWgs84(gcj.lat, gcj.lng);
+    case CoordSystem.BD09:
+      return gcj02ToBd09(gcj.lat, gcj.lng);
+    default:
+      return gcj;
+  }
+}
+
+function gcjDelta(lat: number, lng: number): LatLng {
+  let dLat = transformLat(lng - 105.0, lat - 35.0);
+  let dLng = transformLng(lng - 105.0, lat - 35.0);
+  const radLat = lat / 180.0 * Math.PI;
+  let magic = Math.sin(radLat);
+  magic = 1 - EE * magic * magic;
+  const sqrtMagic = Math.sqrt(magic);
+  dLat = (dLat * 180.0) / ((A * (1 - EE)) / (magic * sqrtMagic) * Math.PI);
+  dLng = (dLng * 180.0) / (A / sqrtMagic * Math.cos(radLat) * Math.PI);
+  return { lat: dLat, lng: dLng };
+}
+
+function transformLat(x: number, y: number): number {
+  let ret = -100.0 + 2.0 * x + 3.0 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+  ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+  ret += (20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin(y / 3.0 * Math.PI)) * 2.0 / 3.0;
+  ret += (160.0 * Math.sin(y / 12.0 * Math.PI) + 320 * Math.sin(y * Math.PI / 30.0)) * 2.0 / 3.0;
+  return ret;
+}
+
+function transformLng(x: number, y: number): number {
+  let ret = 300.0 + x + 2.0 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+  ret += (20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0 / 3.0;
+  ret += (20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin(x / 3.0 * Math.PI)) * 2.0 / 3.0;
+  ret += (150.0 * Math.sin(x / 12.0 * Math.PI) + 300.0 * Math.sin(x / 30.0 * Math.PI)) * 2.0 / 3.0;
+  return ret;
+}
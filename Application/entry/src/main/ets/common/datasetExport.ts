@@ -0,0 +1,99 @@
+/**
+ * 公厕数据集导出：GeoJSON、GPX
+ * 输入为检索结果或本地数据集转换后的 ToiletPoi，坐标统一按 WGS-84 输出
+ */
+
+import type { ToiletPoi } from '../map/MapService';
+import { CoordSystem } from './coordTransform';
+import { poiLocationIn } from '../map/PoiDatum';
+
+const GPX_CREATOR = 'FindShit';
+const GPX_EXT_NS = 'urn:findshit:gpx:1';
+
+// 导出文件：建议的文件名与文本内容
+export interface ExportFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * 导出为 GeoJSON FeatureCollection（坐标顺序为 [经度, 纬度]）
+ */
+export function exportGeoJson(pois: ToiletPoi[]): string {
+  const features = pois.map((poi) => {
+    const p = poiLocationIn(poi, CoordSystem.WGS84);
+    const properties: Record<string, any> = { ...(poi.attributes ?? {}) };
+    properties['id'] = poi.id;
+    properties['name'] = poi.name;
+    properties['amenity'] = 'toilets';
+    if (poi.address) properties['address'] = poi.address;
+    if (poi.openingHours) properties['opening_hours'] = poi.openingHours;
+    if (poi.fee !== undefined) properties['fee'] = poi.fee ? 'yes' : 'no';
+    if (poi.wheelchair) properties['wheelchair'] = poi.wheelchair;
+    if (poi.changingTable !== undefined) properties['changing_table'] = poi.changingTable ? 'yes' : 'no';
+    if (poi.host) properties['host'] = poi.host;
+    if (poi.sources && poi.sources.length > 0) properties['sources'] = poi.sources.join(';');
+    return {
+      type: 'Feature',
+      id: poi.id,
+      geometry: { type: 'Point', coordinates: [round6(p.lng), round6(p.lat)] },
+      properties
+    };
+  });
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+/**
+ * 导出为 GPX 1.1 航点；结构化字段与其他属性写入 extensions
+ */
+export function exportGpx(pois: ToiletPoi[], title: string = '公厕', now: Date = new Date()): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${GPX_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:fs="${GPX_EXT_NS}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(title)}</name>`,
+    `    <time>${now.toISOString()}</time>`,
+    '  </metadata>'
+  ];
+  for (const poi of pois) {
+    const p = poiLocationIn(poi, CoordSystem.WGS84);
+    lines.push(`  <wpt lat="${round6(p.lat)}" lon="${round6(p.lng)}">`);
+    lines.push(`    <name>${escapeXml(poi.name)}</name>`);
+    if (poi.address) lines.push(`    <desc>${escapeXml(poi.address)}</desc>`);
+    lines.push('    <type>toilet</type>');
+    const ext: string[] = [`      <fs:id>${escapeXml(poi.id)}</fs:id>`];
+    if (poi.openingHours) ext.push(`      <fs:opening_hours>${escapeXml(poi.openingHours)}</fs:opening_hours>`);
+    if (poi.fee !== undefined) ext.push(`      <fs:fee>${poi.fee ? 'yes' : 'no'}</fs:fee>`);
+    if (poi.wheelchair) ext.push(`      <fs:wheelchair>${escapeXml(poi.wheelchair)}</fs:wheelchair>`);
+    if (poi.changingTable !== undefined) {
+      ext.push(`      <fs:changing_table>${poi.changingTable ? 'yes' : 'no'}</fs:changing_table>`);
+    }
+    for (const key of Object.keys(poi.attributes ?? {})) {
+      ext.push(`      <fs:attr key="${escapeXml(key)}">${escapeXml(poi.attributes![key])}</fs:attr>`);
+    }
+    lines.push('    <extensions>', ...ext, '    </extensions>');
+    lines.push('  </wpt>');
+  }
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 按格式（'gpx' 或 'geojson'）导出，文件名为 baseName 加对应扩展名
+ */
+export function exportPois(pois: ToiletPoi[], format: string, baseName: string, title: string,
+  now: Date = new Date()): ExportFile {
+  if (format === 'gpx') {
+    return { name: `${baseName}.gpx`, content: exportGpx(pois, title, now) };
+  }
+  return { name: `${baseName}.geojson`, content: exportGeoJson(pois) };
+}
+
+export function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function round6(x: number): number {
+  return Math.round(x * 1e6) / 1e6;
+}
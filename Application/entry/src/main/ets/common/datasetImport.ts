@@ -0,0 +1,506 @@
+/**
+ * 公厕数据集导入：GeoJSON、CSV（可配置列映射）、OSM XML
+ * 纯文本解析，不依赖文件系统；逐条校验，无效记录计入 issues 而不中断整体导入
+ */
+
+import { ToiletPoi } from './types';
+import { CoordSystem, convertCoord } from './coordTransform';
+
+export enum DatasetFormat {
+  GEOJSON = 'geojson',
+  CSV = 'csv',
+  OSM_XML = 'osm'
+}
+
+// 单条记录的问题说明；row 为 CSV 行号（从 1 开始，含表头）或要素序号（从 0 开始）
+export interface ImportIssue {
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  records: ToiletPoi[];
+  issues: ImportIssue[];
+}
+
+// CSV 列映射：值为表头中的列名
+export interface CsvColumnMapping {
+  lat: string;
+  lng: string;
+  id?: string;
+  name?: string;
+  address?: string;
+  openingHours?: string;
+  fee?: string;
+  wheelchair?: string;
+  changingTable?: string;
+}
+
+export interface ImportOptions {
+  idPrefix?: string;            // 缺少 id 时生成 id 的前缀，默认 import
+  datum?: string;               // 源数据坐标系（CoordSystem），导入时统一转换为 WGS-84
+  mapping?: CsvColumnMapping;   // 仅 CSV：不提供时按常见列名自动识别
+  delimiter?: string;           // 仅 CSV：不提供时在逗号、分号、制表符中自动识别
+}
+
+// 自动识别 CSV 列时使用的候选列名（小写比较）
+const CSV_ALIASES: Record<string, string[]> = {
+  lat: ['lat', 'latitude', 'y', '纬度'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x', '经度'],
+  id: ['id', 'osm_id', '编号'],
+  name: ['name', 'title', '名称', '名字'],
+  address: ['address', 'addr', 'addr:full', '地址'],
+  openingHours: ['opening_hours', 'openinghours', 'hours', 'open_hours', '营业时间', '开放时间'],
+  fee: ['fee', '收费'],
+  wheelchair: ['wheelchair', 'accessible', '无障碍'],
+  changingTable: ['changing_table', 'changingtable', '母婴台']
+};
+
+// 映射到结构化字段的属性名，其余字段进入 attributes
+const KNOWN_KEYS = ['id', 'name', 'address', 'addr:full', 'opening_hours', 'fee', 'wheelchair', 'changing_table',
+  'amenity', 'lat', 'lng', 'lon'];
+
+/**
+ * 根据文件名与内容判断格式
+ */
+export function detectFormat(fileName: string, text: string): DatasetFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.geojson') || lower.endsWith('.json')) return DatasetFormat.GEOJSON;
+  if (lower.endsWith('.csv') || lower.endsWith('.tsv') || lower.endsWith('.txt')) return DatasetFormat.CSV;
+  if (lower.endsWith('.osm') || lower.endsWith('.xml')) return DatasetFormat.OSM_XML;
+  const head = text.trimStart();
+  if (head.startsWith('{')) return DatasetFormat.GEOJSON;
+  if (head.startsWith('<')) return DatasetFormat.OSM_XML;
+  return head.length > 0 ? DatasetFormat.CSV : null;
+}
+
+export function importDataset(text: string, format: DatasetFormat, options: ImportOptions = {}): ImportResult {
+  switch (format) {
+    case DatasetFormat.GEOJSON:
+      return importGeoJson(text, options);
+    case DatasetFormat.CSV:
+      return importCsv(text, options);
+    case DatasetFormat.OSM_XML:
+      return importOsmXml(text, options);
+    default:
+      throw new Error(`Unsupported dataset format: ${format}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+
+/**
+ * 支持 FeatureCollection / Feature；几何为 Point，或 Polygon/MultiPoint（取顶点平均值）
+ */
+export function importGeoJson(text: string, options: ImportOptions = {}): ImportResult {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`GeoJSON 解析失败: ${(e as Error).message}`);
+  }
+  const features: any[] = data?.type === 'FeatureCollection' && Array.isArray(data.features)
+    ? data.features
+    : (data?.type === 'Feature' ? [data] : []);
+  if (features.length === 0 && data?.type !== 'FeatureCollection') {
+    throw new Error('GeoJSON 中没有 Feature');
+  }
+
+  const builder = new RecordBuilder(options);
+  features.forEach((feature: any, i: number) => {
+    const point = geometryPoint(feature?.geometry);
+    if (!point) {
+      builder.issue(i, `不支持的几何类型: ${feature?.geometry?.type ?? '无'}`);
+      return;
+    }
+    const props: Record<string, any> = feature?.properties ?? {};
+    builder.add(i, point[1], point[0], {
+      id: feature?.id ?? props['id'],
+      name: props['name'],
+      address: props['address'] ?? props['addr:full'],
+      openingHours: props['opening_hours'],
+      fee: props['fee'],
+      wheelchair: props['wheelchair'],
+      changingTable: props['changing_table']
+    }, extraAttributes(props));
+  });
+  return builder.result();
+}
+
+function geometryPoint(geometry: any): number[] | null {
+  const coords = geometry?.coordinates;
+  switch (geometry?.type) {
+    case 'Point':
+      return Array.isArray(coords) && coords.length >= 2 ? [Number(coords[0]), Number(coords[1])] : null;
+    case 'MultiPoint':
+      return averagePoint(coords);
+    case 'Polygon':
+      return Array.isArray(coords) ? averagePoint(openRing(coords[0])) : null;
+    default:
+      return null;
+  }
+}
+
+function averagePoint(points: any): number[] | null {
+  if (!Array.isArray(points) || points.length === 0) return null;
+  let x = 0;
+  let y = 0;
+  for (const p of points) {
+    x += Number(p?.[0]);
+    y += Number(p?.[1]);
+  }
+  return [x / points.length, y / points.length];
+}
+
+// 闭合环的最后一个点与第一个点相同，求平均前去掉，避免起点被计入两次
+function openRing(points: any): any {
+  if (!Array.isArray(points) || points.length < 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const closed = Number(first?.[0]) === Number(last?.[0]) && Number(first?.[1]) === Number(last?.[1]);
+  return closed ? points.slice(0, -1) : points;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+/**
+ * 首行为表头；支持双引号包裹、引号转义与字段内换行
+ */
+export function importCsv(text: string, options: ImportOptions = {}): ImportResult {
+  const content = text.charCodeAt(0) === 0xFEFF ? text.substring(1) : text;
+  const delimiter = options.delimiter ?? detectDelimiter(content);
+  const rows = parseCsvRows(content, delimiter);
+  if (rows.length === 0) {
+    throw new Error('CSV 为空');
+  }
+  const header = rows[0].map(h => h.trim());
+  const mapping = options.mapping ?? autoMapping(header);
+  if (!mapping) {
+    throw new Error('无法识别经纬度列，请指定列映射');
+  }
+  const col = (name: string | undefined): number => name ? header.indexOf(name) : -1;
+  const latIdx = col(mapping.lat);
+  const lngIdx = col(mapping.lng);
+  if (latIdx < 0 || lngIdx < 0) {
+    throw new Error(`CSV 缺少经纬度列: ${mapping.lat}, ${mapping.lng}`);
+  }
+  const mapped = [mapping.lat, mapping.lng, mapping.id, mapping.name, mapping.address, mapping.openingHours,
+    mapping.fee, mapping.wheelchair, mapping.changingTable];
+
+  const builder = new RecordBuilder(options);
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r];
+    if (row.length === 1 && row[0].trim() === '') continue; // 空行
+    const cell = (name: string | undefined): string | undefined => {
+      const idx = col(name);
+      const value = idx >= 0 ? row[idx]?.trim() : undefined;
+      return value ? value : undefined;
+    };
+    const attributes: Record<string, string> = {};
+    header.forEach((h, i) => {
+      if (mapped.indexOf(h) < 0 && h && row[i] !== undefined && row[i].trim() !== '') {
+        attributes[h] = row[i].trim();
+      }
+    });
+    builder.add(r + 1, Number(cell(mapping.lat)), Number(cell(mapping.lng)), {
+      id: cell(mapping.id),
+      name: cell(mapping.name),
+      address: cell(mapping.address),
+      openingHours: cell(mapping.openingHours),
+      fee: cell(mapping.fee),
+      wheelchair: cell(mapping.wheelchair),
+      changingTable: cell(mapping.changingTable)
+    }, attributes);
+  }
+  return builder.result();
+}
+
+/**
+ * 按常见列名自动识别列映射；找不到经纬度列时返回 null
+ */
+export function autoMapping(header: string[]): CsvColumnMapping | null {
+  const lower = header.map(h => h.trim().toLowerCase());
+  const find = (field: string): string | undefined => {
+    for (const alias of CSV_ALIASES[field]) {
+      const idx = lower.indexOf(alias);
+      if (idx >= 0) return header[idx].trim();
+    }
+    return undefined;
+  };
+  const lat = find('lat');
+  const lng = find('lng');
+  if (!lat || !lng) return null;
+  return {
+    lat,
+    lng,
+    id: find('id'),
+    name: find('name'),
+    address: find('address'),
+    openingHours: find('openingHours'),
+    fee: find('fee'),
+    wheelchair: find('wheelchair'),
+    changingTable: find('changingTable')
+  };
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const d of candidates) {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsvRows(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// OSM XML
+
+/**
+ * 读取 amenity=toilets 或 toilets=yes 的 node 与 way（way 取所引用节点的平均位置）
+ * 仅处理 OSM 导出文件的常见结构，不是通用 XML 解析器
+ */
+export function importOsmXml(text: string, options: ImportOptions = {}): ImportResult {
+  if (text.indexOf('<osm') < 0) {
+    throw new Error('不是 OSM XML 文件');
+  }
+  const nodes: Record<string, number[]> = {};
+  const elements: Array<{ type: string; id: string; lat: number; lng: number; tags: Record<string, string> }> = [];
+
+  const nodeRe = /<node\b([^>]*?)(\/>|>([\s\S]*?)<\/node>)/g;
+  let m: RegExpExecArray | null;
+  while ((m = nodeRe.exec(text)) !== null) {
+    const attrs = parseAttributes(m[1]);
+    const lat = Number(attrs['lat']);
+    const lng = Number(attrs['lon']);
+    nodes[attrs['id']] = [lat, lng];
+    const tags = parseTags(m[3] ?? '');
+    if (isToilet(tags)) {
+      elements.push({ type: 'node', id: attrs['id'], lat, lng, tags });
+    }
+  }
+
+  // 自闭合的 <way .../> 没有子元素，不能跨到下一个 way 的内容
+  const wayRe = /<way\b([^>]*?)(\/>|>([\s\S]*?)<\/way>)/g;
+  while ((m = wayRe.exec(text)) !== null) {
+    const attrs = parseAttributes(m[1]);
+    const body = m[3] ?? '';
+    const tags = parseTags(body);
+    if (!isToilet(tags)) continue;
+    const refs: number[][] = [];
+    const ndRe = /<nd\b[^>]*\bref="([^"]+)"/g;
+    let nd: RegExpExecArray | null;
+    while ((nd = ndRe.exec(body)) !== null) {
+      const p = nodes[nd[1]];
+      if (p) refs.push(p);
+    }
+    const avg = refs.length > 0 ? averagePoint(openRing(refs.map(p => [p[1], p[0]]))) : null;
+    elements.push({ type: 'way', id: attrs['id'], lat: avg ? avg[1] : NaN, lng: avg ? avg[0] : NaN, tags });
+  }
+
+  const builder = new RecordBuilder({ ...options, idPrefix: options.idPrefix ?? 'osm' });
+  elements.forEach((el, i) => {
+    builder.add(i, el.lat, el.lng, {
+      id: `${el.type}_${el.id}`,
+      name: el.tags['name'],
+      address: el.tags['addr:full'] ?? (el.tags['addr:street'] ? `${el.tags['addr:street']}${el.tags['addr:housenumber'] ?? ''}` : undefined),
+      openingHours: el.tags['opening_hours'],
+      fee: el.tags['fee'],
+      wheelchair: el.tags['wheelchair'],
+      changingTable: el.tags['changing_table']
+    }, extraAttributes(el.tags));
+  });
+  return builder.result();
+}
+
+function isToilet(tags: Record<string, string>): boolean {
+  return tags['amenity'] === 'toilets' || tags['toilets'] === 'yes';
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw)) !== null) {
+    attrs[m[1]] = unescapeXml(m[2] ?? m[3] ?? '');
+  }
+  return attrs;
+}
+
+function parseTags(body: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const re = /<tag\b([^>]*?)\/?>/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(body)) !== null) {
+    const attrs = parseAttributes(m[1]);
+    if (attrs['k'] !== undefined) tags[attrs['k']] = attrs['v'] ?? '';
+  }
+  return tags;
+}
+
+function unescapeXml(s: string): string {
+  return s.replace(/&quot;/g, '"').replace(/&apos;/g, '\'').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// ---------------------------------------------------------------------------
+// 校验与记录构造
+
+type RawFields = {
+  id?: any;
+  name?: any;
+  address?: any;
+  openingHours?: any;
+  fee?: any;
+  wheelchair?: any;
+  changingTable?: any;
+};
+
+class RecordBuilder {
+  private options: ImportOptions;
+  private records: ToiletPoi[] = [];
+  private issues: ImportIssue[] = [];
+  private seen: Set<string> = new Set();
+
+  constructor(options: ImportOptions) {
+    this.options = options;
+  }
+
+  public issue(row: number, message: string): void {
+    this.issues.push({ row, message });
+  }
+
+  public add(row: number, lat: number, lng: number, fields: RawFields, attributes: Record<string, string>): void {
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+      this.issue(row, '缺少有效的经纬度');
+      return;
+    }
+    if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      this.issue(row, `经纬度超出范围: ${lat}, ${lng}`);
+      return;
+    }
+    if (lat === 0 && lng === 0) {
+      this.issue(row, '经纬度为 0,0，疑似缺失');
+      return;
+    }
+    const datum = this.options.datum ?? CoordSystem.WGS84;
+    const p = convertCoord(lat, lng, datum, CoordSystem.WGS84);
+    const prefix = this.options.idPrefix ?? 'import';
+    const rawId = fields.id !== undefined && fields.id !== null && String(fields.id).trim() !== ''
+      ? String(fields.id).trim()
+      : `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`;
+    const id = `${prefix}_${rawId}`;
+    if (this.seen.has(id)) {
+      this.issue(row, `重复的 id: ${rawId}`);
+      return;
+    }
+    this.seen.add(id);
+
+    const record: ToiletPoi = {
+      id,
+      name: optionalString(fields.name) ?? '公共厕所',
+      lat: p.lat,
+      lng: p.lng
+    };
+    const address = optionalString(fields.address);
+    if (address) record.address = address;
+    const openHours = optionalString(fields.openingHours);
+    if (openHours) record.openHours = openHours;
+    const fee = parseBool(fields.fee);
+    if (fee !== undefined) record.fee = fee;
+    const wheelchair = parseWheelchair(fields.wheelchair);
+    if (wheelchair) record.wheelchair = wheelchair;
+    const changingTable = parseBool(fields.changingTable);
+    if (changingTable !== undefined) record.changingTable = changingTable;
+    if (Object.keys(attributes).length > 0) record.attributes = attributes;
+    this.records.push(record);
+  }
+
+  public result(): ImportResult {
+    return { records: this.records, issues: this.issues };
+  }
+}
+
+function optionalString(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const s = String(value).trim();
+  return s.length > 0 ? s : undefined;
+}
+
+function parseBool(value: any): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  const s = optionalString(value)?.toLowerCase();
+  if (s === undefined) return undefined;
+  if (['yes', 'true', '1', 'y', '是', '有', 'limited'].indexOf(s) >= 0) return true;
+  if (['no', 'false', '0', 'n', '否', '无'].indexOf(s) >= 0) return false;
+  return undefined;
+}
+
+function parseWheelchair(value: any): string | undefined {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  const s = optionalString(value)?.toLowerCase();
+  if (s === undefined) return undefined;
+  if (s === 'limited' || s === '部分') return 'limited';
+  if (s === 'designated') return 'yes';
+  const b = parseBool(s);
+  return b === undefined ? undefined : (b ? 'yes' : 'no');
+}
+
+// 其余属性原样保留（非字符串值转为 JSON 文本）
+function extraAttributes(props: Record<string, any>): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const key of Object.keys(props)) {
+    if (KNOWN_KEYS.indexOf(key) >= 0 || key.startsWith('addr:')) continue;
+    const value = props[key];
+    if (value === undefined || value === null) continue;
+    attributes[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return attributes;
+}
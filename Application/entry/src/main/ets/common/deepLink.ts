@@ -0,0 +1,223 @@
+/**
+ * 外部链接解析：从其他 App 或浏览器拉起时携带的 URI
+ * 支持 findshit://nearby?lat=..&lng=..&radius=..、findshit://toilet/<id>，以及分享出去的高德 marker 链接
+ * 只做解析与校验，不依赖系统接口；坐标统一转换为 WGS-84
+ */
+
+import { ToiletPoi } from '../map/MapService';
+import { isSamePlace } from '../map/ResultAggregator';
+import { CoordSystem, convertCoord } from './coordTransform';
+import { SEARCH_RADIUS_OPTIONS_M } from './config';
+import { haversineMeters } from './distance';
+import { GeoPoint } from './types';
+
+export const DEEP_LINK_SCHEME = 'findshit';
+export const AMAP_MARKER_HOST = 'uri.amap.com';
+
+// 公厕 ID 的长度上限，超出视为无效链接
+const MAX_TOILET_ID_LENGTH = 200;
+const MAX_NAME_LENGTH = 100;
+
+export enum DeepLinkKind {
+  NEARBY = 'nearby',  // 在指定位置附近检索
+  TOILET = 'toilet'   // 查看某个公厕
+}
+
+export interface DeepLink {
+  kind: string;          // DeepLinkKind
+  center?: GeoPoint;     // WGS-84；TOILET 链接可不带坐标
+  radiusM?: number;      // 已对齐到可选档位；未指定时使用设置中的半径
+  toiletId?: string;
+  name?: string;         // 地点名称，仅用于展示
+}
+
+interface ParsedUri {
+  scheme: string;
+  host: string;
+  path: string;    // 未解码
+  query: string;   // 未解码
+}
+
+/**
+ * 解析拉起 App 的 URI
+ * 不是本应用处理的链接（包括空 URI）返回 null；是本应用的链接但参数无效时抛出错误
+ */
+export function parseDeepLink(uri: string | undefined | null): DeepLink | null {
+  const parsed = uri ? splitUri(uri.trim()) : null;
+  if (!parsed) {
+    return null;
+  }
+  if (parsed.scheme === DEEP_LINK_SCHEME) {
+    if (parsed.host === DeepLinkKind.NEARBY) {
+      return parseNearby(parseQuery(parsed.query));
+    }
+    if (parsed.host === DeepLinkKind.TOILET) {
+      return parseToilet(decodeStrict(parsed.path, false), parseQuery(parsed.query));
+    }
+    throw new Error(`Unsupported deep link: ${parsed.host}`);
+  }
+  if ((parsed.scheme === 'https' || parsed.scheme === 'http') && parsed.host === AMAP_MARKER_HOST &&
+    parsed.path.replace(/\/+$/, '') === '/marker') {
+    return parseAmapMarker(parseQuery(parsed.query));
+  }
+  return null;
+}
+
+/**
+ * 链接中的半径对齐到不小于它的最近档位，超出最大档时取最大档；无效时返回 undefined
+ */
+export function snapRadius(radiusM: number): number | undefined {
+  if (!Number.isFinite(radiusM) || radiusM <= 0) {
+    return undefined;
+  }
+  return SEARCH_RADIUS_OPTIONS_M.find(r => r >= radiusM) ?? SEARCH_RADIUS_OPTIONS_M[SEARCH_RADIUS_OPTIONS_M.length - 1];
+}
+
+/**
+ * 将链接指向的公厕置顶：检索结果中已有同一地点时移到首位，否则以链接中的信息补入
+ */
+export function pinLinkedPoi(pois: ToiletPoi[], target: ToiletPoi, center: GeoPoint): ToiletPoi[] {
+  const index = pois.findIndex(p => p.id === target.id || isSamePlace(p, target));
+  if (index >= 0) {
+    return [pois[index], ...pois.slice(0, index), ...pois.slice(index + 1)];
+  }
+  const distance = Math.round(haversineMeters(center.lat, center.lng, target.location.latitude,
+    target.location.longitude));
+  return [{ ...target, distance }, ...pois];
+}
+
+/**
+ * 找到 TOILET 链接指向的公厕：先按 ID 在本机已知的公厕（收藏、导入的数据集）中查找，
+ * 找不到时用链接自带的坐标与名称；两者都没有时返回 null
+ */
+export function resolveLinkedToilet(link: DeepLink, known: ToiletPoi[]): ToiletPoi | null {
+  const found = known.find(p => p.id === link.toiletId);
+  if (found) {
+    return found;
+  }
+  if (!link.toiletId || !link.center) {
+    return null;
+  }
+  return {
+    id: link.toiletId,
+    name: link.name || '公共厕所',
+    address: '',
+    location: { latitude: link.center.lat, longitude: link.center.lng },
+    distance: 0,
+    datum: CoordSystem.WGS84
+  };
+}
+
+function parseNearby(query: Record<string, string>): DeepLink {
+  const center = readCenter(query, true) as GeoPoint;
+  const link: DeepLink = { kind: DeepLinkKind.NEARBY, center };
+  if (query.radius !== undefined) {
+    link.radiusM = snapRadius(Number(query.radius));
+  }
+  const name = readName(query.name);
+  if (name) {
+    link.name = name;
+  }
+  return link;
+}
+
+function parseToilet(path: string, query: Record<string, string>): DeepLink {
+  const id = path.replace(/^\/+/, '');
+  if (!id || id.length > MAX_TOILET_ID_LENGTH) {
+    throw new Error('Invalid deep link: missing toilet id');
+  }
+  const link: DeepLink = { kind: DeepLinkKind.TOILET, toiletId: id };
+  const center = readCenter(query, false);
+  if (center) {
+    link.center = center;
+  }
+  const name = readName(query.name);
+  if (name) {
+    link.name = name;
+  }
+  return link;
+}
+
+// 高德 marker：position=经度,纬度，默认 GCJ-02，coordinate=wgs84 时为 WGS-84
+function parseAmapMarker(query: Record<string, string>): DeepLink {
+  const parts = (query.position ?? '').split(',');
+  const lng = parts.length === 2 ? Number(parts[0]) : NaN;
+  const lat = parts.length === 2 ? Number(parts[1]) : NaN;
+  if (!isValidLatLng(lat, lng)) {
+    throw new Error('Invalid marker link: bad position');
+  }
+  const datum = query.coordinate === 'wgs84' ? CoordSystem.WGS84 : CoordSystem.GCJ02;
+  const link: DeepLink = { kind: DeepLinkKind.NEARBY, center: toWgs84(lat, lng, datum) };
+  const name = readName(query.name);
+  if (name) {
+    link.name = name;
+  }
+  return link;
+}
+
+// lat/lng 都缺失且非必需时返回 null；只给了一个或取值无效时抛出错误
+function readCenter(query: Record<string, string>, required: boolean): GeoPoint | null {
+  if (!required && query.lat === undefined && query.lng === undefined) {
+    return null;
+  }
+  const lat = Number(query.lat ?? NaN);
+  const lng = Number(query.lng ?? NaN);
+  if (!isValidLatLng(lat, lng)) {
+    throw new Error('Invalid deep link: bad lat/lng');
+  }
+  const datum = query.coord ?? CoordSystem.WGS84;
+  if (datum !== CoordSystem.WGS84 && datum !== CoordSystem.GCJ02 && datum !== CoordSystem.BD09) {
+    throw new Error(`Invalid deep link: unknown coord ${datum}`);
+  }
+  return toWgs84(lat, lng, datum);
+}
+
+function readName(value: string | undefined): string {
+  return (value ?? '').trim().slice(0, MAX_NAME_LENGTH);
+}
+
+function toWgs84(lat: number, lng: number, datum: string): GeoPoint {
+  const p = convertCoord(lat, lng, datum, CoordSystem.WGS84);
+  return { lat: p.lat, lng: p.lng };
+}
+
+function isValidLatLng(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function splitUri(uri: string): ParsedUri | null {
+  const match = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?/.exec(uri);
+  if (!match) {
+    return null;
+  }
+  return {
+    scheme: match[1].toLowerCase(),
+    host: match[2].toLowerCase(),
+    path: match[3],
+    query: match[4] ?? ''
+  };
+}
+
+// 重复的参数以第一次出现的为准
+function parseQuery(text: string): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const pair of text.split('&')) {
+    if (!pair) continue;
+    const eq = pair.indexOf('=');
+    const key = decodeStrict(eq >= 0 ? pair.slice(0, eq) : pair, true);
+    const value = decodeStrict(eq >= 0 ? pair.slice(eq + 1) : '', true);
+    if (!Object.prototype.hasOwnProperty.call(query, key)) {
+      query[key] = value;
+    }
+  }
+  return query;
+}
+
+// 查询参数中的 + 表示空格，路径中按字面保留
+function decodeStrict(text: string, plusAsSpace: boolean): string {
+  try {
+    return decodeURIComponent(plusAsSpace ? text.replace(/\+/g, ' ') : text);
+  } catch (_) {
+    throw new Error('Invalid deep link: bad encoding');
+  }
+}
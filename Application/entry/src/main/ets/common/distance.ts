@@ -0,0 +1,20 @@
+/**
+ * 距离计算工具
+ * 纯函数，便于在各数据源与单元测试中复用
+ */
+
+export const EARTH_RADIUS_M = 6371000;
+
+const toRad = (x: number): number => x * Math.PI / 180;
+
+/**
+ * Haversine 球面距离（米）
+ */
+export function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+    Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,300 @@
+/**
+ * 结构化事件日志
+ * 每条事件带类型、严重程度、会话 ID（每次启动生成）与检索 ID（同一次检索的事件共享），
+ * 附加信息以扁平键值保存，便于筛选、导出；存储后端可替换（设备上为关系型数据库）
+ */
+
+export enum EventKind {
+  LOCATION = 'location',            // 定位结果或定位失败
+  SEARCH_START = 'search_start',    // 开始检索
+  SEARCH_RESULT = 'search_result',  // 检索完成
+  SEARCH_ERROR = 'search_error',    // 检索失败
+  LIST_SHOWN = 'list_shown',        // 展示结果列表
+  NAVIGATION = 'navigation',        // 调起导航
+  LEGACY = 'legacy'                 // 从旧版日志迁移且无法归类的记录
+}
+
+export enum EventSeverity {
+  DEBUG = 'debug',
+  INFO = 'info',
+  WARN = 'warn',
+  ERROR = 'error'
+}
+
+// 按严重程度从低到高
+const SEVERITY_ORDER: string[] = [EventSeverity.DEBUG, EventSeverity.INFO, EventSeverity.WARN, EventSeverity.ERROR];
+
+export type EventPayload = Record<string, string | number | boolean>;
+
+// 附加信息的脱敏处理：ageMs 为事件距今时长（写入时为 0），返回 undefined 表示去掉全部附加信息
+export type PayloadScrubber = (payload: EventPayload, ageMs: number) => EventPayload | undefined;
+
+export interface LogEvent {
+  id?: number;          // 存储后端分配
+  timestamp: number;
+  kind: string;         // EventKind
+  severity: string;     // EventSeverity
+  sessionId: string;
+  searchId?: string;
+  message: string;
+  payload?: EventPayload;
+}
+
+// 写入时由调用方提供的部分，时间与会话由日志补齐
+export interface EventDraft {
+  kind: string;
+  severity: string;
+  message: string;
+  payload?: EventPayload;
+  searchId?: string;
+}
+
+export interface EventQuery {
+  from?: number;          // 起始时间（含）
+  to?: number;            // 结束时间（含）
+  kinds?: string[];
+  minSeverity?: string;
+  searchId?: string;
+  limit?: number;         // 默认 DEFAULT_QUERY_LIMIT
+}
+
+// 保留策略：各严重程度的保留时长，以及总条数上限（超出时删除最旧的）
+export interface RetentionPolicy {
+  maxAgeMs: Record<string, number>;
+  maxEvents: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeMs: {
+    [EventSeverity.DEBUG]: DAY_MS,
+    [EventSeverity.INFO]: 14 * DAY_MS,
+    [EventSeverity.WARN]: 30 * DAY_MS,
+    [EventSeverity.ERROR]: 30 * DAY_MS
+  },
+  maxEvents: 5000
+};
+
+export const DEFAULT_QUERY_LIMIT = 500;
+
+// 每写入这么多条执行一次保留策略
+const RETENTION_INTERVAL = 100;
+
+export interface EventBackend {
+  insert(event: LogEvent): Promise<void>;
+  // 按时间倒序返回
+  query(query: EventQuery): Promise<LogEvent[]>;
+  // 删除指定严重程度中早于 cutoff 的事件，返回删除条数
+  deleteBefore(severity: string, cutoff: number): Promise<number>;
+  // 只保留最新的 max 条，返回删除条数
+  trimToNewest(max: number): Promise<number>;
+  // 替换指定事件的附加信息，null 表示清空
+  updatePayload(id: number, payload: EventPayload | null): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 不低于指定程度的严重程度列表；未指定时返回全部
+ */
+export function severitiesAtLeast(min?: string): string[] {
+  const index = min ? SEVERITY_ORDER.indexOf(min) : 0;
+  return SEVERITY_ORDER.slice(Math.max(index, 0));
+}
+
+/**
+ * 事件是否满足查询条件（不含 limit）
+ */
+export function matchesQuery(event: LogEvent, query: EventQuery): boolean {
+  if (query.from !== undefined && event.timestamp < query.from) return false;
+  if (query.to !== undefined && event.timestamp > query.to) return false;
+  if (query.kinds && query.kinds.length > 0 && query.kinds.indexOf(event.kind) < 0) return false;
+  if (query.minSeverity && severitiesAtLeast(query.minSeverity).indexOf(event.severity) < 0) return false;
+  if (query.searchId && event.searchId !== query.searchId) return false;
+  return true;
+}
+
+export class EventLog {
+  public readonly sessionId: string;
+  private backend: EventBackend;
+  private newId: () => string;
+  private retention: RetentionPolicy;
+  private now: () => number;
+  private sinceRetention: number = 0;
+  private scrubber: PayloadScrubber | null = null;
+
+  constructor(backend: EventBackend, newId: () => string, retention: RetentionPolicy = DEFAULT_RETENTION,
+    now: () => number = Date.now) {
+    this.backend = backend;
+    this.newId = newId;
+    this.retention = retention;
+    this.now = now;
+    this.sessionId = newId();
+  }
+
+  /**
+   * 为一次检索生成关联 ID，该次检索的各事件都带上它
+   */
+  public newSearchId(): string {
+    return this.newId();
+  }
+
+  public async record(draft: EventDraft): Promise<void> {
+    const event: LogEvent = {
+      timestamp: this.now(),
+      kind: draft.kind,
+      severity: draft.severity,
+      sessionId: this.sessionId,
+      message: draft.message
+    };
+    if (draft.searchId) event.searchId = draft.searchId;
+    const payload = draft.payload && this.scrubber ? this.scrubber(draft.payload, 0) : draft.payload;
+    if (payload) event.payload = payload;
+    await this.backend.insert(event);
+    if (++this.sinceRetention >= RETENTION_INTERVAL) {
+      await this.applyRetention();
+    }
+  }
+
+  public async query(query: EventQuery = {}): Promise<LogEvent[]> {
+    return await this.backend.query({ ...query, limit: query.limit ?? DEFAULT_QUERY_LIMIT });
+  }
+
+  /**
+   * 设置附加信息的脱敏处理，并立即按新规则重写已保存的事件，返回重写条数
+   */
+  public async setScrubber(scrubber: PayloadScrubber | null): Promise<number> {
+    this.scrubber = scrubber;
+    return await this.scrubStored();
+  }
+
+  /**
+   * 按当前脱敏处理重写已保存事件中有变化的附加信息（如坐标过期），返回重写条数
+   */
+  public async scrubStored(): Promise<number> {
+    if (!this.scrubber) return 0;
+    const now = this.now();
+    let rewritten = 0;
+    for (const event of await this.backend.query({})) {
+      if (!event.payload || event.id === undefined) continue;
+      const next = this.scrubber(event.payload, Math.max(now - event.timestamp, 0));
+      if (!samePayload(event.payload, next)) {
+        await this.backend.updatePayload(event.id, next ?? null);
+        rewritten++;
+      }
+    }
+    return rewritten;
+  }
+
+  /**
+   * 执行保留策略（并按脱敏处理清理过期的附加信息），返回删除条数
+   */
+  public async applyRetention(): Promise<number> {
+    this.sinceRetention = 0;
+    const now = this.now();
+    let removed = 0;
+    for (const severity of SEVERITY_ORDER) {
+      const maxAge = this.retention.maxAgeMs[severity];
+      if (maxAge !== undefined) {
+        removed += await this.backend.deleteBefore(severity, now - maxAge);
+      }
+    }
+    removed += await this.backend.trimToNewest(this.retention.maxEvents);
+    await this.scrubStored();
+    return removed;
+  }
+
+  public async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+}
+
+/**
+ * 旧版定位日志（location_logs）转换为事件
+ */
+export function fromLegacyLocationLog(raw: any): LogEvent | null {
+  const timestamp = Number(raw?.timestamp);
+  if (!Number.isFinite(timestamp)) return null;
+  const base: LogEvent = { timestamp, kind: EventKind.LOCATION, severity: EventSeverity.INFO, sessionId: 'legacy',
+    message: '定位成功' };
+  if (raw.message) {
+    base.severity = EventSeverity.ERROR;
+    base.message = String(raw.message);
+  }
+  const payload = pickNumbers(raw, { latitude: 'latitude', longitude: 'longitude' });
+  if (payload) base.payload = payload;
+  return base;
+}
+
+/**
+ * 旧版检索日志（search_logs）转换为事件：按原先手工拼写的说明文字归类
+ */
+export function fromLegacySearchLog(raw: any): LogEvent | null {
+  const timestamp = Number(raw?.timestamp);
+  if (!Number.isFinite(timestamp)) return null;
+  const message: string = raw.message ? String(raw.message) : '';
+  const event: LogEvent = { timestamp, kind: EventKind.LEGACY, severity: EventSeverity.INFO, sessionId: 'legacy',
+    message };
+  if (message.startsWith('搜索失败')) {
+    event.kind = EventKind.SEARCH_ERROR;
+    event.severity = EventSeverity.ERROR;
+  } else if (message.startsWith('导航失败')) {
+    event.kind = EventKind.NAVIGATION;
+    event.severity = EventSeverity.ERROR;
+  } else if (message.startsWith('展示卡片')) {
+    event.kind = EventKind.LIST_SHOWN;
+    event.severity = EventSeverity.DEBUG;
+  } else if (!message && raw.source) {
+    event.kind = EventKind.SEARCH_RESULT;
+    event.severity = raw.mock || raw.degraded ? EventSeverity.WARN : EventSeverity.INFO;
+    event.message = '检索完成';
+  }
+  const payload: EventPayload = pickNumbers(raw, {
+    centerLatitude: 'latitude', centerLongitude: 'longitude', radiusMeters: 'radiusM', resultCount: 'resultCount'
+  }) ?? {};
+  if (raw.source) payload.source = String(raw.source);
+  if (raw.attempts) payload.attempts = String(raw.attempts);
+  if (raw.degraded !== undefined) payload.degraded = raw.degraded === true;
+  if (raw.mock !== undefined) payload.mock = raw.mock === true;
+  if (Object.keys(payload).length > 0) event.payload = payload;
+  return event;
+}
+
+function samePayload(a: EventPayload, b: EventPayload | undefined): boolean {
+  if (!b) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+}
+
+function pickNumbers(raw: any, fields: Record<string, string>): EventPayload | null {
+  const payload: EventPayload = {};
+  for (const from of Object.keys(fields)) {
+    const value = Number(raw?.[from]);
+    if (raw?.[from] !== undefined && raw?.[from] !== null && Number.isFinite(value)) {
+      payload[fields[from]] = value;
+    }
+  }
+  return Object.keys(payload).length > 0 ? payload : null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  [EventKind.LOCATION]: '定位',
+  [EventKind.SEARCH_START]: '开始检索',
+  [EventKind.SEARCH_RESULT]: '检索完成',
+  [EventKind.SEARCH_ERROR]: '检索失败',
+  [EventKind.LIST_SHOWN]: '展示列表',
+  [EventKind.NAVIGATION]: '导航',
+  [EventKind.LEGACY]: '旧版日志'
+};
+
+export function kindLabel(kind: string): string {
+  return KIND_LABELS[kind] ?? kind;
+}
+
+/**
+ * 附加信息的单行摘要，如 "latitude=31.23 · radiusM=500"
+ */
+export function describePayload(payload?: EventPayload): string {
+  if (!payload) return '';
+  return Object.keys(payload).map(k => `${k}=${payload[k]}`).join(' · ');
+}
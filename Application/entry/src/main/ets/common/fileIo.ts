@@ -0,0 +1,67 @@
+/**
+ * 文本文件读写（通过系统文件选择器，用户自行选择位置，无需存储权限）
+ */
+
+import fs from '@ohos.file.fs';
+import picker from '@ohos.file.picker';
+import util from '@ohos.util';
+
+export interface PickedFile {
+  uri: string;
+  name: string;
+}
+
+/**
+ * 让用户选择一个文件；取消时返回 null
+ */
+export async function pickFile(context: any): Promise<PickedFile | null> {
+  const documentPicker = new picker.DocumentViewPicker(context);
+  const uris: string[] = await documentPicker.select(new picker.DocumentSelectOptions());
+  if (!uris || uris.length === 0) {
+    return null;
+  }
+  const uri = uris[0];
+  return { uri, name: decodeURIComponent(uri.substring(uri.lastIndexOf('/') + 1)) };
+}
+
+/**
+ * 让用户选择保存位置并写入文本；取消时返回 null，成功返回文件 uri
+ */
+export async function saveTextFile(context: any, suggestedName: string, content: string): Promise<string | null> {
+  const options = new picker.DocumentSaveOptions();
+  options.newFileNames = [suggestedName];
+  const documentPicker = new picker.DocumentViewPicker(context);
+  const uris: string[] = await documentPicker.save(options);
+  if (!uris || uris.length === 0) {
+    return null;
+  }
+  await writeTextFile(uris[0], content);
+  return uris[0];
+}
+
+export async function readTextFile(uri: string): Promise<string> {
+  const file = await fs.open(uri, fs.OpenMode.READ_ONLY);
+  try {
+    const size = (await fs.stat(file.fd)).size;
+    const buffer = new ArrayBuffer(size);
+    let offset = 0;
+    while (offset < size) {
+      const n = await fs.read(file.fd, buffer, { offset, length: size - offset });
+      if (n <= 0) break;
+      offset += n;
+    }
+    const decoder = util.TextDecoder.create('utf-8', { ignoreBOM: false });
+    return decoder.decodeWithStream(new Uint8Array(buffer, 0, offset));
+  } finally {
+    await fs.close(file);
+  }
+}
+
+export async function writeTextFile(uri: string, content: string): Promise<void> {
+  const file = await fs.open(uri, fs.OpenMode.WRITE_ONLY | fs.OpenMode.CREATE | fs.OpenMode.TRUNC);
+  try {
+    await fs.write(file.fd, content);
+  } finally {
+    await fs.close(file);
+  }
+}
@@ -2,6 +2,9 @@ import { abilityAccessCtrl, PermissionRequestResult, bundleManager, Permissions
 import { BusinessError } from '@kit.BasicServicesKit';
 import { common } from '@kit.AbilityKit';
 import geoLocationManager from '@ohos.geoLocationManager';
+import { CancellationToken, isCancelledError, raceCancellation } from './cancellation';
+import { FOLLOW_FIX_INTERVAL_S, FOLLOW_MIN_MOVE_M } from './config';
+import { GeoPoint } from './types';
 
 const TAG = 'HarmonyGeo';
 const PERMISSIONS: Array<Permissions> = [
@@ -64,7 +67,9 @@ export class HarmonyGeo {
     return false;
   }
 
-  async getCurrentLocation(): Promise<geoLocationManager.Location> {
+  // 单次定位无法中断；令牌取消后立即拒绝并丢弃迟到的定位结果，也不再降级重试
+  async getCurrentLocation(token?: CancellationToken): Promise<geoLocationManager.Location> {
+    token?.throwIfCancelled();
     // 先检查系统定位开关
     try {
       // 某些版本不支持该API，调用失败时忽略
@@ -82,8 +87,11 @@ export class HarmonyGeo {
       timeoutMs: 20000,
     };
     try {
-      return await geoLocationManager.getCurrentLocation(highAcc);
+      return await raceCancellation(geoLocationManager.getCurrentLocation(highAcc), token);
     } catch (err) {
+      if (isCancelledError(err)) {
+        throw err as Error;
+      }
       const error = err as BusinessError | Error;
       console.warn(TAG, `高精度定位失败，降级重试。error=${(error as any).message || ''}`);
       // 第二次尝试：低功耗，更长超时，适配弱信号或仅网络定位
@@ -91,7 +99,45 @@ export class HarmonyGeo {
         priority: geoLocationManager.LocationRequestPriority.LOW_POWER,
         timeoutMs: 25000,
       };
-      return await geoLocationManager.getCurrentLocation(lowPower);
+      return await raceCancellation(geoLocationManager.getCurrentLocation(lowPower), token);
     }
   }
-}
\ No newline at end of file
+
+  // 持续定位：位置变化时回调，返回取消订阅的函数；未授权等情况下订阅时直接抛出
+  watchLocation(onLocation: (location: geoLocationManager.Location) => void): () => void {
+    const request: geoLocationManager.LocationRequest = {
+      priority: geoLocationManager.LocationRequestPriority.ACCURACY,
+      scenario: geoLocationManager.LocationRequestScenario.UNSET,
+      timeInterval: FOLLOW_FIX_INTERVAL_S,
+      distanceInterval: FOLLOW_MIN_MOVE_M,
+      maxAccuracy: 0
+    };
+    const callback = (location: geoLocationManager.Location) => {
+      onLocation(location);
+    };
+    geoLocationManager.on('locationChange', request, callback);
+    return () => {
+      try {
+        geoLocationManager.off('locationChange', callback);
+      } catch (err) {
+        console.warn(TAG, `Failed to stop location updates: ${JSON.stringify(err)}`);
+      }
+    };
+  }
+}
+
+/**
+ * 以指定坐标构造定位结果（如外部链接给出的位置），除经纬度外的字段均为 0
+ */
+export function locationAt(point: GeoPoint): geoLocationManager.Location {
+  return {
+    latitude: point.lat,
+    longitude: point.lng,
+    altitude: 0,
+    accuracy: 0,
+    speed: 0,
+    timeStamp: Date.now(),
+    direction: 0,
+    timeSinceBoot: 0
+  } as geoLocationManager.Location;
+}
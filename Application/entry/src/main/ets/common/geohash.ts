@@ -0,0 +1,158 @@
+/**
+ * Geohash 编码工具
+ * 用于按网格对公厕数据分桶（离线缓存、空间索引等）
+ */
+
+import { EARTH_RADIUS_M, haversineMeters } from './distance';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// 网格的经纬度范围
+export interface GeoBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * 将经纬度编码为指定精度的 geohash
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number): string {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let ch = 0;
+  let evenBit = true; // 偶数位编码经度
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (lng >= mid) {
+        ch = (ch << 1) | 1;
+        minLng = mid;
+      } else {
+        ch = ch << 1;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (lat >= mid) {
+        ch = (ch << 1) | 1;
+        minLat = mid;
+      } else {
+        ch = ch << 1;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32.charAt(ch);
+      bits = 0;
+      ch = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * 解码 geohash 为网格范围；包含非法字符时抛错
+ */
+export function decodeGeohashBounds(hash: string): GeoBounds {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const c of hash.toLowerCase()) {
+    const idx = BASE32.indexOf(c);
+    if (idx < 0) {
+      throw new Error(`Invalid geohash: ${hash}`);
+    }
+    for (let n = 4; n >= 0; n--) {
+      const bit = (idx >> n) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (bit === 1) minLng = mid; else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (bit === 1) minLat = mid; else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * 网格中心点
+ */
+export function geohashCenter(hash: string): { lat: number; lng: number } {
+  const b = decodeGeohashBounds(hash);
+  return { lat: (b.minLat + b.maxLat) / 2, lng: (b.minLng + b.maxLng) / 2 };
+}
+
+/**
+ * 圆心到网格范围内最近点的距离（米）；圆心在网格内时为 0
+ */
+export function distanceToBounds(lat: number, lng: number, b: GeoBounds): number {
+  const nearLat = Math.min(Math.max(lat, b.minLat), b.maxLat);
+  // 网格与圆心分处 180° 经线两侧时，先把圆心经度移到网格一侧再夹取
+  const centerLng = (b.minLng + b.maxLng) / 2;
+  const x = lng - centerLng > 180 ? lng - 360 : (centerLng - lng > 180 ? lng + 360 : lng);
+  const nearLng = Math.min(Math.max(x, b.minLng), b.maxLng);
+  return haversineMeters(lat, lng, nearLat, nearLng);
+}
+
+// 判定网格与圆相交时的相对余量：按经纬度夹取得到的最近点略远于球面上的真实最近点
+const CELL_DISTANCE_SLACK = 1.01;
+
+const toRad = (x: number): number => x * Math.PI / 180;
+const toDeg = (x: number): number => x * 180 / Math.PI;
+
+function normalizeLng(lng: number): number {
+  return ((lng + 180) % 360 + 360) % 360 - 180;
+}
+
+/**
+ * 列出与圆形区域相交的所有网格
+ * 先求圆的经纬度外接矩形，再取矩形西南角、东北角所在网格，逐行逐列列出两者之间对齐的网格
+ */
+export function geohashesInCircle(lat: number, lng: number, radiusM: number, precision: number): string[] {
+  const angular = radiusM / EARTH_RADIUS_M;
+  const south = Math.max(lat - toDeg(angular), -90);
+  const north = Math.min(lat + toDeg(angular), 90);
+  // 圆在经度方向的最大半跨度；圆覆盖极点时取全部经度
+  const sinSpan = Math.sin(angular) / Math.cos(toRad(lat));
+  const fullLng = south <= -90 || north >= 90 || sinSpan >= 1;
+  const west = fullLng ? -180 : normalizeLng(lng - toDeg(Math.asin(sinSpan)));
+  const east = fullLng ? 180 : normalizeLng(lng + toDeg(Math.asin(sinSpan)));
+
+  const sw = decodeGeohashBounds(encodeGeohash(south, west, precision));
+  const ne = decodeGeohashBounds(encodeGeohash(north, east, precision));
+  const cellLat = sw.maxLat - sw.minLat;
+  const cellLng = sw.maxLng - sw.minLng;
+  const totalCols = Math.round(360 / cellLng);
+  const rows = Math.round((ne.minLat - sw.minLat) / cellLat) + 1;
+  let cols = Math.round((ne.minLng - sw.minLng) / cellLng) + 1;
+  if (cols <= 0 || (cols === 1 && west > east)) {
+    cols += totalCols; // 跨越 180° 经线
+  }
+  cols = Math.min(cols, totalCols);
+
+  const result: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    const centerLat = sw.minLat + (row + 0.5) * cellLat;
+    for (let col = 0; col < cols; col++) {
+      const hash = encodeGeohash(centerLat, normalizeLng(sw.minLng + (col + 0.5) * cellLng), precision);
+      if (distanceToBounds(lat, lng, decodeGeohashBounds(hash)) <= radiusM * CELL_DISTANCE_SLACK) {
+        result.push(hash);
+      }
+    }
+  }
+  return result;
+}
@@ -1,33 +1,60 @@
 /**
  * 本地数据提供器实现
- * MVP版本使用内置种子数据 + Haversine距离筛选
+ * 内置种子数据叠加用户导入的数据集（LocalDatasetStore），
+ * 数据建立 KD 树空间索引，支持半径查询与 k 近邻查询，数万条数据下仍可快速检索
  */
 
 import { DataProvider } from './dataProvider';
-import { ToiletPoi, SearchOptions } from './types';
+import { ToiletPoi, SearchOptions, GeoPoint } from './types';
 import { DEFAULT_LIMIT } from './config';
+import { KdTree, Neighbor } from './spatialIndex';
+import LocalDatasetStore from './LocalDatasetStore';
 
 /**
  * 本地数据提供器
  */
 export class LocalProvider implements DataProvider {
   private seedData: ToiletPoi[];
+  private index: KdTree<ToiletPoi> | null = null;
 
   constructor(seedData?: ToiletPoi[]) {
-    this.seedData = seedData || this.getDefaultSeedData();
+    this.seedData = seedData || this.withImportedData(this.getDefaultSeedData());
   }
 
   /**
-   * 搜索附近的厕所
+   * 替换全部数据（如导入离线数据集后），索引在下次查询时重建
+   */
+  setData(data: ToiletPoi[]): void {
+    this.seedData = data.slice();
+    this.index = null;
+  }
+
+  /**
+   * 搜索附近的厕所：半径内按距离取最近的 limit 个，并填充 distance
    */
   async searchToilets(options: SearchOptions): Promise<ToiletPoi[]> {
-    const { limit = DEFAULT_LIMIT } = options;
+    const { center, radiusM, limit = DEFAULT_LIMIT } = options;
+    return this.getIndex()
+      .nearest(center.lat, center.lng, limit, radiusM)
+      .map(withDistance);
+  }
 
-    // 模拟异步操作
-    await new Promise(resolve => setTimeout(resolve, 100));
+  /**
+   * 半径内的全部厕所（不限数量），按距离升序
+   */
+  async searchWithinRadius(center: GeoPoint, radiusM: number): Promise<ToiletPoi[]> {
+    return this.getIndex()
+      .withinRadius(center.lat, center.lng, radiusM)
+      .map(withDistance);
+  }
 
-    // 由于没有定位，直接返回部分数据
-    return this.seedData.slice(0, limit);
+  /**
+   * 距离最近的 k 个厕所（不限半径）
+   */
+  async searchNearest(center: GeoPoint, k: number): Promise<ToiletPoi[]> {
+    return this.getIndex()
+      .nearest(center.lat, center.lng, k)
+      .map(withDistance);
   }
 
   /**
@@ -45,6 +72,26 @@ export class LocalProvider implements DataProvider {
     return [...this.seedData];
   }
 
+  // 内置数据叠加用户导入的数据集（id 相同时以导入数据为准）
+  private withImportedData(builtIn: ToiletPoi[]): ToiletPoi[] {
+    if (!LocalDatasetStore.isInitialized()) {
+      return builtIn;
+    }
+    const imported = LocalDatasetStore.getInstance().getAll();
+    if (imported.length === 0) {
+      return builtIn;
+    }
+    const importedIds = new Set<string>(imported.map(t => t.id));
+    return builtIn.filter(t => !importedIds.has(t.id)).concat(imported);
+  }
+
+  private getIndex(): KdTree<ToiletPoi> {
+    if (!this.index) {
+      this.index = new KdTree<ToiletPoi>(this.seedData, (t: ToiletPoi) => t.lat, (t: ToiletPoi) => t.lng);
+    }
+    return this.index;
+  }
+
   /**
    * 获取默认种子数据
    */
@@ -67,4 +114,8 @@ export class LocalProvider implements DataProvider {
       { lat: 31.2495, lng: 121.4558, id: 'toilet_015', name: '上海火车站公厕', openHours: '24h' }
     ];
   }
-}
\ No newline at end of file
+}
+
+function withDistance(n: Neighbor<ToiletPoi>): ToiletPoi {
+  return { ...n.item, distance: Math.round(n.distance) };
+}
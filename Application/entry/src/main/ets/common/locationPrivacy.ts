@@ -0,0 +1,102 @@
+/**
+ * 位置隐私：日志中坐标的保存精度与保留时长
+ * 新事件写入时按精度取整；超过保留时长的事件去掉坐标（事件本身仍按日志保留策略保留）
+ */
+
+import { EventPayload, PayloadScrubber } from './eventLog';
+
+export enum LocationRetention {
+  OFF = 'off',        // 不保存位置
+  ONE_DAY = '1d',
+  SEVEN_DAYS = '7d',
+  THIRTY_DAYS = '30d'
+}
+
+export enum LocationPrecision {
+  EXACT = 'exact',    // 原样保存
+  ABOUT_100M = '100m',
+  ABOUT_1KM = '1km'
+}
+
+export interface LocationPrivacyPolicy {
+  retention: string;  // LocationRetention
+  precision: string;  // LocationPrecision
+}
+
+export const DEFAULT_LOCATION_PRIVACY: LocationPrivacyPolicy = {
+  retention: LocationRetention.SEVEN_DAYS,
+  precision: LocationPrecision.ABOUT_100M
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RETENTION_MS: Record<string, number> = {
+  [LocationRetention.OFF]: 0,
+  [LocationRetention.ONE_DAY]: DAY_MS,
+  [LocationRetention.SEVEN_DAYS]: 7 * DAY_MS,
+  [LocationRetention.THIRTY_DAYS]: 30 * DAY_MS
+};
+
+// 保留的小数位：0.001° 约 100m，0.01° 约 1km
+const PRECISION_DECIMALS: Record<string, number> = {
+  [LocationPrecision.ABOUT_100M]: 3,
+  [LocationPrecision.ABOUT_1KM]: 2
+};
+
+// 附加信息中的坐标字段
+const COORDINATE_KEYS: string[] = ['latitude', 'longitude', 'centerLatitude', 'centerLongitude'];
+// 随坐标一起失效的字段（定位精度、含目的地坐标的导航链接）
+const LOCATION_DETAIL_KEYS: string[] = ['accuracy', 'uri'];
+
+// 文字中形如坐标的小数（至少 3 位小数）
+const COORDINATE_PATTERN = /-?\d{1,3}\.\d{3,}/g;
+
+/**
+ * 设置值无效时回退到默认值
+ */
+export function normalizeLocationPrivacy(policy: LocationPrivacyPolicy | null): LocationPrivacyPolicy {
+  return {
+    retention: policy && RETENTION_MS[policy.retention] !== undefined ? policy.retention
+      : DEFAULT_LOCATION_PRIVACY.retention,
+    precision: policy && (policy.precision === LocationPrecision.EXACT || PRECISION_DECIMALS[policy.precision] !== undefined)
+      ? policy.precision : DEFAULT_LOCATION_PRIVACY.precision
+  };
+}
+
+export function retentionMs(retention: string): number {
+  return RETENTION_MS[retention] ?? RETENTION_MS[DEFAULT_LOCATION_PRIVACY.retention];
+}
+
+export function coarsenCoordinate(value: number, precision: string): number {
+  const decimals = PRECISION_DECIMALS[precision];
+  if (decimals === undefined) return value;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 按策略处理一条事件的附加信息：未过期时坐标按精度取整，过期（或不保存位置）时去掉坐标相关字段
+ * ageMs 为事件距今的时长，写入时为 0；处理后为空时返回 undefined
+ */
+export function applyLocationPrivacy(payload: EventPayload, ageMs: number,
+  policy: LocationPrivacyPolicy): EventPayload | undefined {
+  const expired = ageMs >= retentionMs(policy.retention);
+  const result: EventPayload = {};
+  for (const key of Object.keys(payload)) {
+    const value = payload[key];
+    const isCoordinate = COORDINATE_KEYS.indexOf(key) >= 0;
+    if (expired && (isCoordinate || LOCATION_DETAIL_KEYS.indexOf(key) >= 0)) continue;
+    if (isCoordinate && typeof value === 'number') {
+      result[key] = coarsenCoordinate(value, policy.precision);
+    } else if (typeof value === 'string' && LOCATION_DETAIL_KEYS.indexOf(key) >= 0) {
+      result[key] = value.replace(COORDINATE_PATTERN, (m: string) => String(coarsenCoordinate(Number(m), policy.precision)));
+    } else {
+      result[key] = value;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+export function locationScrubber(policy: LocationPrivacyPolicy): PayloadScrubber {
+  return (payload: EventPayload, ageMs: number) => applyLocationPrivacy(payload, ageMs, policy);
+}
@@ -0,0 +1,185 @@
+/**
+ * 事件日志导出：JSON Lines、CSV
+ * 导出前按脱敏级别处理：粗略级把坐标取整到约 1km；严格级把所有坐标整体平移一个随机偏移（保留相对位置）后取整，
+ * 并隐藏文字中的坐标；两者都去掉公厕名称、URI 查询参数，会话/检索 ID 以本次导出独有的盐做哈希
+ */
+
+import { EventPayload, LogEvent } from './eventLog';
+
+export enum RedactionLevel {
+  NONE = 'none',       // 原样导出
+  COARSE = 'coarse',   // 粗略
+  STRICT = 'strict'    // 严格
+}
+
+export enum LogExportFormat {
+  JSONL = 'jsonl',
+  CSV = 'csv'
+}
+
+const LAT_KEYS: string[] = ['latitude', 'lat', 'centerLatitude'];
+const LNG_KEYS: string[] = ['longitude', 'lng', 'lon', 'centerLongitude'];
+// 可能含有公厕名称或地址的字段
+const NAME_KEYS: string[] = ['top3', 'name', 'address', 'poiName'];
+// 设备或用户标识
+const ID_KEYS: string[] = ['userId', 'deviceId', 'reviewerId'];
+
+// 粗略级取整到 0.01°（约 1km），严格级平移后取整到 0.001°
+const COARSE_DECIMALS = 2;
+const STRICT_DECIMALS = 3;
+// 严格级整体偏移的距离范围（米）
+const STRICT_OFFSET_MIN_M = 2000;
+const STRICT_OFFSET_MAX_M = 10000;
+const METERS_PER_DEGREE = 111320;
+
+// 文字中形如坐标的小数（至少 3 位小数）
+const COORDINATE_PATTERN = /-?\d{1,3}\.\d{3,}/g;
+const URI_QUERY_PATTERN = /([a-zA-Z][a-zA-Z0-9+.-]*:[^\s?]*)\?[^\s]*/g;
+
+const CSV_FIXED_COLUMNS: string[] = ['time', 'kind', 'severity', 'session', 'search', 'message'];
+
+export class LogRedactor {
+  public readonly level: string;
+  private salt: string;
+  private offsetM: number;
+  private bearing: number;
+
+  constructor(level: string, random: () => number = Math.random) {
+    this.level = level;
+    this.salt = Math.floor(random() * 0xffffffff).toString(16);
+    this.offsetM = STRICT_OFFSET_MIN_M + random() * (STRICT_OFFSET_MAX_M - STRICT_OFFSET_MIN_M);
+    this.bearing = random() * 2 * Math.PI;
+  }
+
+  public redact(event: LogEvent): LogEvent {
+    if (this.level === RedactionLevel.NONE) {
+      return event;
+    }
+    const result: LogEvent = {
+      timestamp: event.timestamp,
+      kind: event.kind,
+      severity: event.severity,
+      sessionId: this.hash(event.sessionId),
+      message: this.scrubText(event.message)
+    };
+    if (event.searchId) result.searchId = this.hash(event.searchId);
+    if (event.payload) result.payload = this.redactPayload(event.payload);
+    return result;
+  }
+
+  private redactPayload(payload: EventPayload): EventPayload {
+    const result: EventPayload = {};
+    const lat = pickNumber(payload, LAT_KEYS);
+    for (const key of Object.keys(payload)) {
+      const value = payload[key];
+      if (NAME_KEYS.indexOf(key) >= 0) continue;
+      if (ID_KEYS.indexOf(key) >= 0) {
+        result[key] = this.hash(String(value));
+      } else if (typeof value === 'number' && LAT_KEYS.indexOf(key) >= 0) {
+        result[key] = this.moveLat(value);
+      } else if (typeof value === 'number' && LNG_KEYS.indexOf(key) >= 0) {
+        result[key] = this.moveLng(value, lat ?? 0);
+      } else if (typeof value === 'string') {
+        result[key] = this.scrubText(value);
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  private moveLat(lat: number): number {
+    if (this.level === RedactionLevel.COARSE) return roundTo(lat, COARSE_DECIMALS);
+    return roundTo(lat + this.offsetM * Math.cos(this.bearing) / METERS_PER_DEGREE, STRICT_DECIMALS);
+  }
+
+  private moveLng(lng: number, lat: number): number {
+    if (this.level === RedactionLevel.COARSE) return roundTo(lng, COARSE_DECIMALS);
+    const metersPerDegree = METERS_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01);
+    return roundTo(lng + this.offsetM * Math.sin(this.bearing) / metersPerDegree, STRICT_DECIMALS);
+  }
+
+  // 去掉 URI 查询参数（导航链接中带有目的地坐标与名称），再处理文字中的坐标
+  private scrubText(text: string): string {
+    const stripped = text.replace(URI_QUERY_PATTERN, '$1?…');
+    if (this.level === RedactionLevel.STRICT) {
+      return stripped.replace(COORDINATE_PATTERN, '[坐标]');
+    }
+    return stripped.replace(COORDINATE_PATTERN, (m: string) => roundTo(Number(m), COARSE_DECIMALS).toFixed(COARSE_DECIMALS));
+  }
+
+  private hash(value: string): string {
+    return fnv1a(`${this.salt}:${value}`);
+  }
+}
+
+/**
+ * 按格式导出（事件按时间先后排列）
+ */
+export function exportLogs(events: LogEvent[], format: string, redactor: LogRedactor): string {
+  const redacted = events.slice().sort((a, b) => a.timestamp - b.timestamp).map(e => redactor.redact(e));
+  return format === LogExportFormat.CSV ? toCsv(redacted) : toJsonLines(redacted);
+}
+
+export function logFileName(format: string, now: Date = new Date()): string {
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+  return `findshit-logs-${stamp}.${format === LogExportFormat.CSV ? 'csv' : 'jsonl'}`;
+}
+
+function toJsonLines(events: LogEvent[]): string {
+  return events.map(e => JSON.stringify({
+    time: new Date(e.timestamp).toISOString(),
+    kind: e.kind,
+    severity: e.severity,
+    session: e.sessionId,
+    search: e.searchId,
+    message: e.message,
+    payload: e.payload
+  })).join('\n') + (events.length > 0 ? '\n' : '');
+}
+
+// 附加信息展开为列（各事件字段的并集，按名称排序）
+function toCsv(events: LogEvent[]): string {
+  const payloadKeys = new Set<string>();
+  events.forEach(e => Object.keys(e.payload ?? {}).forEach(k => payloadKeys.add(k)));
+  const extra = Array.from(payloadKeys).sort();
+  const lines: string[] = [CSV_FIXED_COLUMNS.concat(extra).map(csvField).join(',')];
+  for (const e of events) {
+    const row: string[] = [new Date(e.timestamp).toISOString(), e.kind, e.severity, e.sessionId, e.searchId ?? '',
+      e.message];
+    for (const key of extra) {
+      const value = e.payload?.[key];
+      row.push(value === undefined ? '' : String(value));
+    }
+    lines.push(row.map(csvField).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function pickNumber(payload: EventPayload, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = payload[key];
+    if (typeof value === 'number') return value;
+  }
+  return undefined;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// 32 位 FNV-1a，输出 8 位十六进制
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
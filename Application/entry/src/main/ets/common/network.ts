@@ -0,0 +1,12 @@
+import connection from '@ohos.net.connection';
+
+/**
+ * 当前是否有可用网络；接口不可用时按有网处理，交由请求本身失败
+ */
+export function isNetworkAvailable(): boolean {
+  try {
+    return connection.hasDefaultNetSync();
+  } catch (_) {
+    return true;
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * 营业时间解析与计算
+ * 支持 OSM opening_hours 语法的常用子集：
+ *   24/7、Mo-Fr 08:00-18:00、Sa,Su 10:00-12:00,14:00-18:00、PH off、22:00-02:00（跨午夜）、
+ *   Mo-Fr 08:00-18:00 || off（前面的规则都不命中当天时才使用 || 之后的规则）
+ * 同时兼容种子数据里的 "06:00-23:00"、"24h" 等写法
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+// 向后查找状态变化的天数（覆盖一整周 + 前一天的跨午夜时段）
+const LOOKAHEAD_DAYS = 8;
+// 距离变化多少分钟以内时，标签改用"X分钟后"描述
+const SOON_THRESHOLD_MIN = 60;
+
+// 与 Date.getDay() 保持一致：0 = 周日
+const WEEKDAY_TOKENS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+/**
+ * 节假日日历（可插拔）
+ * 用于判断某天是否命中规则中的 PH（public holiday）
+ */
+export interface HolidayCalendar {
+  isPublicHoliday(date: Date): boolean;
+}
+
+// 默认日历：没有任何节假日
+export class NoHolidayCalendar implements HolidayCalendar {
+  isPublicHoliday(_date: Date): boolean {
+    return false;
+  }
+}
+
+// 固定日期日历：传入 "YYYY-MM-DD" 列表
+export class FixedHolidayCalendar implements HolidayCalendar {
+  private days: Set<string>;
+
+  constructor(dates: string[]) {
+    this.days = new Set(dates);
+  }
+
+  isPublicHoliday(date: Date): boolean {
+    return this.days.has(formatDateKey(date));
+  }
+}
+
+let holidayCalendar: HolidayCalendar = new NoHolidayCalendar();
+
+export function setHolidayCalendar(calendar: HolidayCalendar): void {
+  holidayCalendar = calendar;
+}
+
+export function getHolidayCalendar(): HolidayCalendar {
+  return holidayCalendar;
+}
+
+// 单个时段（相对当天 0 点的分钟数，end 可超过 1440 表示跨午夜）
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+// 一条规则：日期选择器 + 时段
+export interface OpeningRule {
+  weekdays: boolean[] | null; // null 表示不限星期
+  holiday: boolean;           // 选择器中包含 PH
+  off: boolean;               // off / closed
+  spans: TimeSpan[];
+  fallback?: number;          // 所在的 || 分组序号，0 或缺省为常规规则
+}
+
+export interface OpeningHours {
+  raw: string;
+  rules: OpeningRule[];
+}
+
+export enum OpenStatus {
+  OPEN = 'open',
+  CLOSED = 'closed',
+  UNKNOWN = 'unknown'
+}
+
+export interface OpenState {
+  status: OpenStatus;
+  alwaysOpen: boolean;
+  nextChange?: number;      // 下一次开/关门的时间戳（毫秒）
+  minutesToChange?: number; // 距离下一次变化的分钟数
+  label: string;            // 展示文案，如 "营业中 · 20分钟后关门"
+}
+
+/**
+ * 解析营业时间字符串；无法识别时返回 null
+ */
+export function parseOpeningHours(raw: string | undefined): OpeningHours | null {
+  if (!raw) return null;
+  const text = normalize(raw);
+  if (text.length === 0) return null;
+
+  if (/^(24\/7|24h|24小时|全天)$/i.test(text)) {
+    return { raw, rules: [{ weekdays: null, holiday: false, off: false, spans: [{ start: 0, end: MINUTES_PER_DAY }] }] };
+  }
+
+  const rules: OpeningRule[] = [];
+  const groups = text.split('||');
+  for (let group = 0; group < groups.length; group++) {
+    for (const part of groups[group].split(';')) {
+      const trimmed = part.trim();
+      if (trimmed.length === 0) continue;
+      const rule = parseRule(trimmed);
+      if (!rule) return null;
+      if (group > 0) rule.fallback = group;
+      rules.push(rule);
+    }
+  }
+  return rules.length > 0 ? { raw, rules } : null;
+}
+
+/**
+ * 计算给定时刻的营业状态
+ */
+export function evaluateOpeningHours(
+  hours: OpeningHours,
+  now: Date,
+  calendar: HolidayCalendar = holidayCalendar
+): OpenState {
+  const today = startOfDay(now);
+  const intervals: Array<[number, number]> = [];
+  // 从前一天开始，以便包含跨午夜延续到今天的时段
+  for (let offset = -1; offset < LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(today, offset);
+    const rule = findRule(hours.rules, day, calendar);
+    if (!rule || rule.off) continue;
+    for (const span of rule.spans) {
+      intervals.push([addMinutes(day, span.start), addMinutes(day, span.end)]);
+    }
+  }
+  const merged = mergeIntervals(intervals);
+  const ts = now.getTime();
+  const horizon = addDays(today, LOOKAHEAD_DAYS).getTime();
+
+  const current = merged.find(([s, e]) => s <= ts && ts < e);
+  if (current) {
+    if (current[1] >= horizon && current[0] <= addDays(today, -1).getTime()) {
+      return { status: OpenStatus.OPEN, alwaysOpen: true, label: '24小时营业' };
+    }
+    return buildState(OpenStatus.OPEN, now, current[1]);
+  }
+  const next = merged.find(([s]) => s > ts);
+  if (next) {
+    return buildState(OpenStatus.CLOSED, now, next[0]);
+  }
+  return { status: OpenStatus.CLOSED, alwaysOpen: false, label: '已关门' };
+}
+
+/**
+ * 便捷方法：直接对原始字符串求值，无法解析时返回 UNKNOWN
+ */
+export function getOpenState(raw: string | undefined, now: Date = new Date(),
+  calendar: HolidayCalendar = holidayCalendar): OpenState {
+  const hours = parseOpeningHours(raw);
+  if (!hours) {
+    return { status: OpenStatus.UNKNOWN, alwaysOpen: false, label: '营业时间未知' };
+  }
+  return evaluateOpeningHours(hours, now, calendar);
+}
+
+/**
+ * 过滤掉当前已关门的地点；营业时间未知的保留（无法判断时不隐藏）
+ */
+export function filterOpenNow<T extends { openingHours?: string }>(items: T[], now: Date = new Date(),
+  calendar: HolidayCalendar = holidayCalendar): T[] {
+  return items.filter(item => getOpenState(item.openingHours, now, calendar).status !== OpenStatus.CLOSED);
+}
+
+// ---------- 解析 ----------
+
+function normalize(raw: string): string {
+  return raw
+    .replace(/[：]/g, ':')
+    .replace(/[～~—–至]/g, '-')
+    .replace(/[，、]/g, ',')
+    .replace(/[；]/g, ';')
+    .replace(/"[^"]*"/g, '') // 去掉注释
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseRule(text: string): OpeningRule | null {
+  let rest = text;
+  let weekdays: boolean[] | null = null;
+  let holiday = false;
+
+  // 日期选择器：由星期、区间和 PH 组成的逗号列表
+  const selector = rest.match(/^((?:Mo|Tu|We|Th|Fr|Sa|Su|PH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?(?:,(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?)*)(?:\s+|$)/);
+  if (selector) {
+    rest = rest.slice(selector[0].length).trim();
+    for (const item of selector[1].split(',')) {
+      if (item === 'PH') {
+        holiday = true;
+        continue;
+      }
+      weekdays = weekdays ?? [false, false, false, false, false, false, false];
+      const [from, to] = item.split('-');
+      const a = WEEKDAY_TOKENS.indexOf(from);
+      const b = to ? WEEKDAY_TOKENS.indexOf(to) : a;
+      for (let d = a; ; d = (d + 1) % 7) {
+        weekdays[d] = true;
+        if (d === b) break;
+      }
+    }
+    // 只有 PH 时不匹配任何普通星期
+    if (holiday && weekdays === null) {
+      weekdays = [false, false, false, false, false, false, false];
+    }
+  }
+
+  if (rest.length === 0 || /^open$/i.test(rest)) {
+    // 只有选择器（或 open）表示全天开放
+    if (!selector && rest.length === 0) return null;
+    return { weekdays, holiday, off: false, spans: [{ start: 0, end: MINUTES_PER_DAY }] };
+  }
+  if (/^(off|closed)$/i.test(rest)) {
+    return { weekdays, holiday, off: true, spans: [] };
+  }
+  if (/^(24\/7|24h)$/i.test(rest)) {
+    return { weekdays, holiday, off: false, spans: [{ start: 0, end: MINUTES_PER_DAY }] };
+  }
+
+  const spans: TimeSpan[] = [];
+  for (const item of rest.split(',')) {
+    const span = parseSpan(item.trim());
+    if (!span) return null;
+    spans.push(span);
+  }
+  return { weekdays, holiday, off: false, spans };
+}
+
+function parseSpan(text: string): TimeSpan | null {
+  const m = text.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})(\+?)$/);
+  if (m) {
+    const start = Number(m[1]) * 60 + Number(m[2]);
+    let end = Number(m[3]) * 60 + Number(m[4]);
+    if (start > MINUTES_PER_DAY || end > 48 * 60) return null;
+    // 结束早于开始视为跨午夜（如 22:00-02:00）
+    if (end <= start) end += MINUTES_PER_DAY;
+    return { start, end };
+  }
+  // "18:00+" 开放式结束时间，按营业到当天结束处理
+  const open = text.match(/^(\d{1,2}):(\d{2})\+$/);
+  if (open) {
+    const start = Number(open[1]) * 60 + Number(open[2]);
+    return start < MINUTES_PER_DAY ? { start, end: MINUTES_PER_DAY } : null;
+  }
+  return null;
+}
+
+// ---------- 求值 ----------
+
+// 同一分组内后面的规则覆盖前面命中同一天的规则；分组内都不命中时才看下一个 || 分组（OSM 语义）
+function findRule(rules: OpeningRule[], day: Date, calendar: HolidayCalendar): OpeningRule | null {
+  const isHoliday = calendar.isPublicHoliday(day);
+  let matched: OpeningRule | null = null;
+  let matchedGroup = 0;
+  for (const rule of rules) {
+    const group = rule.fallback ?? 0;
+    if (matched && group > matchedGroup) break;
+    const byWeekday = rule.weekdays === null || rule.weekdays[day.getDay()];
+    const byHoliday = rule.holiday && isHoliday;
+    if (byWeekday || byHoliday) {
+      matched = rule;
+      matchedGroup = group;
+    }
+  }
+  return matched;
+}
+
+function mergeIntervals(intervals: Array<[number, number]>): Array<[number, number]> {
+  const sorted = intervals.slice().sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [s, e] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1]) {
+      last[1] = Math.max(last[1], e);
+    } else {
+      merged.push([s, e]);
+    }
+  }
+  return merged;
+}
+
+function buildState(status: OpenStatus, now: Date, changeAt: number): OpenState {
+  const minutes = Math.max(1, Math.ceil((changeAt - now.getTime()) / MS_PER_MINUTE));
+  const verb = status === OpenStatus.OPEN ? '关门' : '开门';
+  const prefix = status === OpenStatus.OPEN ? '营业中' : '已关门';
+  let when: string;
+  if (minutes <= SOON_THRESHOLD_MIN) {
+    when = `${minutes}分钟后`;
+  } else {
+    when = describeDay(now, new Date(changeAt));
+  }
+  return {
+    status,
+    alwaysOpen: false,
+    nextChange: changeAt,
+    minutesToChange: minutes,
+    label: `${prefix} · ${when}${verb}`
+  };
+}
+
+function describeDay(now: Date, at: Date): string {
+  const dayDiff = Math.round((startOfDay(at).getTime() - startOfDay(now).getTime()) / (MINUTES_PER_DAY * MS_PER_MINUTE));
+  const time = `${pad2(at.getHours())}:${pad2(at.getMinutes())}`;
+  if (dayDiff <= 0) return time;
+  if (dayDiff === 1) return `明天${time}`;
+  return `${WEEKDAY_LABELS[at.getDay()]}${time}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addMinutes(day: Date, minutes: number): number {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes).getTime();
+}
+
+function pad2(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+function formatDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
@@ -0,0 +1,490 @@
+/**
+ * 二维码编码（ISO/IEC 18004），纯 TS 实现，不依赖网络与系统接口
+ * 只使用字节模式（UTF-8），自动选择能容纳内容的最小版本；掩码按标准的四项扣分规则选择
+ */
+
+export enum QrEcc {
+  LOW = 'L',        // 约 7% 纠错
+  MEDIUM = 'M',     // 约 15%
+  QUARTILE = 'Q',   // 约 25%
+  HIGH = 'H'        // 约 30%
+}
+
+export interface QrMatrix {
+  version: number;       // 1~40
+  size: number;          // 每边模块数：version * 4 + 17
+  ecc: string;           // QrEcc
+  mask: number;          // 0~7
+  modules: boolean[][];  // modules[y][x]，true 为深色
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+const ECC_ORDER: string[] = [QrEcc.LOW, QrEcc.MEDIUM, QrEcc.QUARTILE, QrEcc.HIGH];
+// 格式信息中纠错等级的编码（L=01, M=00, Q=11, H=10）
+const ECC_FORMAT_BITS: Record<string, number> = {
+  [QrEcc.LOW]: 1, [QrEcc.MEDIUM]: 0, [QrEcc.QUARTILE]: 3, [QrEcc.HIGH]: 2
+};
+
+// 每块纠错码字数，按 [纠错等级][版本] 取值（下标 0 不用）
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+];
+
+// 纠错块数，按 [纠错等级][版本] 取值
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18,
+    19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31,
+    33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40,
+    43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48,
+    51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+];
+
+// 掩码选择的扣分权重
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+// 类似定位图形的 1:1:3:1:1 序列（两侧带 4 个浅色模块）
+const FINDER_LIKE_A: boolean[] = [true, false, true, true, true, false, true, false, false, false, false];
+const FINDER_LIKE_B: boolean[] = [false, false, false, false, true, false, true, true, true, false, true];
+
+/**
+ * 把文本编码为二维码；内容超出版本 40 的容量时抛出错误
+ */
+export function encodeQrText(text: string, ecc: string = QrEcc.MEDIUM): QrMatrix {
+  const eccIndex = ECC_ORDER.indexOf(ecc);
+  if (eccIndex < 0) {
+    throw new Error(`Unknown QR error correction level: ${ecc}`);
+  }
+  const bytes = utf8Bytes(text);
+  let version = MIN_VERSION;
+  while (version <= MAX_VERSION && byteModeBits(bytes.length, version) > numDataCodewords(version, eccIndex) * 8) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error('Text too long for a QR code');
+  }
+  const codewords = addEccAndInterleave(encodeData(bytes, version, eccIndex), version, eccIndex);
+  return new QrBuilder(version, ecc).build(codewords);
+}
+
+/**
+ * 15 位格式信息（纠错等级 + 掩码，含 BCH 校验与固定掩码）
+ */
+export function formatInfoBits(ecc: string, mask: number): number {
+  const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  }
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+/**
+ * 18 位版本信息（版本 7 起才有）
+ */
+export function versionInfoBits(version: number): number {
+  let rem = version;
+  for (let i = 0; i < 12; i++) {
+    rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+  }
+  return (version << 12) | rem;
+}
+
+/**
+ * Reed-Solomon 纠错码字（GF(256)，本原多项式 0x11D）
+ */
+export function reedSolomonEncode(data: number[], eccLength: number): number[] {
+  return reedSolomonRemainder(data, reedSolomonDivisor(eccLength));
+}
+
+function utf8Bytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const cp = ch.codePointAt(0) as number;
+    if (cp < 0x80) {
+      bytes.push(cp);
+    } else if (cp < 0x800) {
+      bytes.push(0xC0 | (cp >> 6), 0x80 | (cp & 0x3F));
+    } else if (cp < 0x10000) {
+      bytes.push(0xE0 | (cp >> 12), 0x80 | ((cp >> 6) & 0x3F), 0x80 | (cp & 0x3F));
+    } else {
+      bytes.push(0xF0 | (cp >> 18), 0x80 | ((cp >> 12) & 0x3F), 0x80 | ((cp >> 6) & 0x3F), 0x80 | (cp & 0x3F));
+    }
+  }
+  return bytes;
+}
+
+// 字节模式：4 位模式指示 + 字符数（版本 1~9 为 8 位，之后 16 位）+ 数据
+function byteModeBits(length: number, version: number): number {
+  return 4 + (version < 10 ? 8 : 16) + length * 8;
+}
+
+// 除功能图形外可放置数据的模块数
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function numDataCodewords(version: number, eccIndex: number): number {
+  return Math.floor(numRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[eccIndex][version] * NUM_ERROR_CORRECTION_BLOCKS[eccIndex][version];
+}
+
+// 数据码字：模式、长度、内容、终止符，再用 0xEC/0x11 填满容量
+function encodeData(bytes: number[], version: number, eccIndex: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(0x4, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  for (const b of bytes) {
+    append(b, 8);
+  }
+  const capacity = numDataCodewords(version, eccIndex) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xEC; bits.length < capacity; pad ^= 0xEC ^ 0x11) {
+    append(pad, 8);
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    let value = 0;
+    for (let j = 0; j < 8; j++) {
+      value = (value << 1) | bits[i + j];
+    }
+    codewords.push(value);
+  }
+  return codewords;
+}
+
+// 分块计算纠错码字后按列交错；短块比长块少一个数据码字
+function addEccAndInterleave(data: number[], version: number, eccIndex: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[eccIndex][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[eccIndex][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) {
+      block.push(0); // 占位，交错时跳过
+    }
+    blocks.push(block.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    for (let j = 0; j < blocks.length; j++) {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(blocks[j][i]);
+      }
+    }
+  }
+  return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    for (let i = 0; i < divisor.length; i++) {
+      result[i] ^= gfMultiply(divisor[i], factor);
+    }
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function bitAt(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return x * y % 2 + x * y % 3 === 0;
+    case 6: return (x * y % 2 + x * y % 3) % 2 === 0;
+    default: return ((x + y) % 2 + x * y % 3) % 2 === 0;
+  }
+}
+
+// 绘制模块矩阵：功能图形、数据、掩码与格式信息
+class QrBuilder {
+  private version: number;
+  private ecc: string;
+  private size: number;
+  private modules: boolean[][];
+  private isFunction: boolean[][];
+
+  constructor(version: number, ecc: string) {
+    this.version = version;
+    this.ecc = ecc;
+    this.size = version * 4 + 17;
+    this.modules = [];
+    this.isFunction = [];
+    for (let y = 0; y < this.size; y++) {
+      this.modules.push(new Array<boolean>(this.size).fill(false));
+      this.isFunction.push(new Array<boolean>(this.size).fill(false));
+    }
+  }
+
+  build(codewords: number[]): QrMatrix {
+    this.drawFunctionPatterns();
+    this.drawCodewords(codewords);
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.penaltyScore();
+      if (penalty < bestPenalty) {
+        bestMask = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(mask); // 掩码是异或，再做一次即还原
+    }
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+    return { version: this.version, size: this.size, ecc: this.ecc, mask: bestMask, modules: this.modules };
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = 0; j < positions.length; j++) {
+        // 与定位图形重叠的三个角不画
+        if (!(i === 0 && j === 0) && !(i === 0 && j === last) && !(i === last && j === 0)) {
+          this.drawAlignmentPattern(positions[i], positions[j]);
+        }
+      }
+    }
+    this.drawFormatBits(0); // 先占位，选定掩码后重画
+    this.drawVersionBits();
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result: number[] = [6];
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) {
+      result.splice(1, 0, pos);
+    }
+    return result;
+  }
+
+  private drawFormatBits(mask: number) {
+    const bits = formatInfoBits(this.ecc, mask);
+    // 左上角
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, bitAt(bits, i));
+    }
+    this.setFunctionModule(8, 7, bitAt(bits, 6));
+    this.setFunctionModule(8, 8, bitAt(bits, 7));
+    this.setFunctionModule(7, 8, bitAt(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, bitAt(bits, i));
+    }
+    // 右上角与左下角的副本
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, bitAt(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, bitAt(bits, i));
+    }
+    this.setFunctionModule(8, this.size - 8, true); // 固定的深色模块
+  }
+
+  private drawVersionBits() {
+    if (this.version < 7) {
+      return;
+    }
+    const bits = versionInfoBits(this.version);
+    for (let i = 0; i < 18; i++) {
+      const dark = bitAt(bits, i);
+      const a = this.size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, dark);
+      this.setFunctionModule(b, a, dark);
+    }
+  }
+
+  // 从右下角开始，两列一组之字形放置数据位，跳过功能模块与第 6 列（竖向定时图形）
+  private drawCodewords(codewords: number[]) {
+    const totalBits = codewords.length * 8;
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < totalBits) {
+            this.modules[y][x] = bitAt(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  private penaltyScore(): number {
+    const size = this.size;
+    let result = 0;
+    let dark = 0;
+    for (let i = 0; i < size; i++) {
+      const row: boolean[] = this.modules[i];
+      const column: boolean[] = this.modules.map((r: boolean[]) => r[i]);
+      result += this.linePenalty(row) + this.linePenalty(column);
+    }
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const color = this.modules[y][x];
+        if (color) {
+          dark++;
+        }
+        if (x + 1 < size && y + 1 < size && color === this.modules[y][x + 1] &&
+          color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    return result + k * PENALTY_N4;
+  }
+
+  // 单行（列）的连续同色与类定位图形扣分
+  private linePenalty(line: boolean[]): number {
+    let result = 0;
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+        continue;
+      }
+      if (runLength >= 5) {
+        result += PENALTY_N1 + runLength - 5;
+      }
+      runLength = 1;
+    }
+    for (let i = 0; i + FINDER_LIKE_A.length <= line.length; i++) {
+      if (matchesAt(line, i, FINDER_LIKE_A) || matchesAt(line, i, FINDER_LIKE_B)) {
+        result += PENALTY_N3;
+      }
+    }
+    return result;
+  }
+}
+
+function matchesAt(line: boolean[], start: number, pattern: boolean[]): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    if (line[start + i] !== pattern[i]) {
+      return false;
+    }
+  }
+  return true;
+}
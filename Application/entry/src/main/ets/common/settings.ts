@@ -0,0 +1,165 @@
+/**
+ * 应用设置：类型化的设置模型、逐项校验与版本迁移
+ * 设置整体以 JSON 保存并带有 schema 版本；读取时按迁移步骤逐版本升级，再逐项校验，无效项回退为默认值
+ * 以后修改设置结构时：SETTINGS_VERSION 加一，并在 SETTINGS_MIGRATIONS 末尾追加一步
+ */
+
+import { DEFAULT_RANKING_WEIGHTS, normalizeWeights, RankingWeights } from '../map/Ranking';
+import { DEFAULT_LOCATION_PRIVACY, LocationPrivacyPolicy, normalizeLocationPrivacy } from './locationPrivacy';
+import { DEFAULT_RADIUS_M, MAP_ENGINE_FALLBACK_CHAIN, SEARCH_RADIUS_OPTIONS_M } from './config';
+import { TravelMode } from './types';
+import { DEFAULT_TARGET_ID, NAVIGATION_TARGETS } from '../map/NavigationTargets';
+
+export const SETTINGS_VERSION = 2;
+
+export enum SortMode {
+  SMART = 'smart',        // 综合排序
+  DISTANCE = 'distance'   // 仅按距离
+}
+
+export interface AppSettings {
+  version: number;
+  searchRadiusM: number;
+  travelMode: string;     // TravelMode
+  mapEngine: string;      // 检索数据源：huawei / amap / baidu
+  navigationApp: string;  // 导航目标 ID（见 NavigationTargets）
+  searchMode: string;     // fallback 按顺序回退，aggregate 多源合并
+  sortMode: string;       // SortMode
+  hideClosed: boolean;    // 隐藏当前已关门的公厕
+  needAccessible: boolean;
+  rankingWeights: RankingWeights;
+  locationPrivacy: LocationPrivacyPolicy;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  version: SETTINGS_VERSION,
+  searchRadiusM: DEFAULT_RADIUS_M,
+  travelMode: TravelMode.WALKING,
+  mapEngine: 'huawei',
+  navigationApp: DEFAULT_TARGET_ID,
+  searchMode: 'fallback',
+  sortMode: SortMode.SMART,
+  hideClosed: false,
+  needAccessible: false,
+  rankingWeights: DEFAULT_RANKING_WEIGHTS,
+  locationPrivacy: DEFAULT_LOCATION_PRIVACY
+};
+
+// 未经校验的设置（来自存储或旧版本）
+export type SettingsRecord = Record<string, any>;
+
+export interface SettingsMigration {
+  from: number;   // 适用的版本，迁移后为 from + 1
+  migrate: (raw: SettingsRecord) => SettingsRecord;
+}
+
+// 版本 0：各项分散保存在首选项的独立键中，排序权重与位置隐私为 JSON 字符串，搜索半径与出行方式未保存
+export const LEGACY_SETTING_KEYS: Record<string, string> = {
+  'map_engine': 'mapEngine',
+  'hide_closed': 'hideClosed',
+  'search_mode': 'searchMode',
+  'sort_mode': 'sortMode',
+  'need_accessible': 'needAccessible',
+  'ranking_weights': 'rankingWeights',
+  'location_privacy': 'locationPrivacy'
+};
+
+const JSON_LEGACY_KEYS: string[] = ['ranking_weights', 'location_privacy'];
+
+function fromLegacyKeys(raw: SettingsRecord): SettingsRecord {
+  const result: SettingsRecord = { version: 1 };
+  for (const key of Object.keys(LEGACY_SETTING_KEYS)) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (JSON_LEGACY_KEYS.indexOf(key) >= 0 && typeof value === 'string') {
+      try {
+        result[LEGACY_SETTING_KEYS[key]] = JSON.parse(value);
+      } catch (_) {
+        // 损坏的旧值按默认值处理
+      }
+    } else {
+      result[LEGACY_SETTING_KEYS[key]] = value;
+    }
+  }
+  return result;
+}
+
+// 版本 1 → 2：导航 App 从地图引擎中拆出，沿用原先按引擎选择的 App
+const ENGINE_NAVIGATION_APPS: Record<string, string> = { 'huawei': 'petal', 'amap': 'amap', 'baidu': 'baidu' };
+
+function splitNavigationApp(raw: SettingsRecord): SettingsRecord {
+  const navigationApp = ENGINE_NAVIGATION_APPS[raw.mapEngine] ?? DEFAULT_TARGET_ID;
+  return { ...raw, version: 2, navigationApp };
+}
+
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+  { from: 0, migrate: fromLegacyKeys },
+  { from: 1, migrate: splitNavigationApp }
+];
+
+/**
+ * 读取保存的设置：逐版本迁移后校验；没有保存过时返回默认值
+ * 版本高于当前（降级安装）时不迁移，只校验认识的字段并保留原版本号
+ */
+export function migrateSettings(raw: SettingsRecord | null,
+  migrations: SettingsMigration[] = SETTINGS_MIGRATIONS, latest: number = SETTINGS_VERSION): AppSettings {
+  if (!raw) {
+    return validateSettings({}, latest);
+  }
+  let record = raw;
+  let version = typeof raw.version === 'number' && Number.isInteger(raw.version) ? raw.version : 0;
+  while (version < latest) {
+    const step = migrations.find(m => m.from === version);
+    if (!step) {
+      console.warn(`No settings migration from version ${version}, using defaults for unknown fields`);
+      break;
+    }
+    record = step.migrate(record);
+    version = step.from + 1;
+  }
+  return validateSettings(record, Math.max(version, latest));
+}
+
+/**
+ * 逐项校验，无效或缺失的项使用默认值
+ */
+export function validateSettings(raw: SettingsRecord, version: number = SETTINGS_VERSION): AppSettings {
+  const d = DEFAULT_SETTINGS;
+  const oneOf = (value: any, allowed: string[], fallback: string): string =>
+    typeof value === 'string' && allowed.indexOf(value) >= 0 ? value : fallback;
+  const flag = (value: any, fallback: boolean): boolean => typeof value === 'boolean' ? value : fallback;
+  return {
+    version,
+    searchRadiusM: SEARCH_RADIUS_OPTIONS_M.indexOf(raw.searchRadiusM) >= 0 ? raw.searchRadiusM as number
+      : d.searchRadiusM,
+    travelMode: oneOf(raw.travelMode, [TravelMode.WALKING, TravelMode.CYCLING], d.travelMode),
+    mapEngine: oneOf(raw.mapEngine, Object.keys(MAP_ENGINE_FALLBACK_CHAIN), d.mapEngine),
+    navigationApp: oneOf(raw.navigationApp, NAVIGATION_TARGETS.map(t => t.id), d.navigationApp),
+    searchMode: oneOf(raw.searchMode, ['fallback', 'aggregate'], d.searchMode),
+    sortMode: oneOf(raw.sortMode, [SortMode.SMART, SortMode.DISTANCE], d.sortMode),
+    hideClosed: flag(raw.hideClosed, d.hideClosed),
+    needAccessible: flag(raw.needAccessible, d.needAccessible),
+    rankingWeights: normalizeWeights(isObject(raw.rankingWeights) ? raw.rankingWeights as RankingWeights : null),
+    locationPrivacy: normalizeLocationPrivacy(isObject(raw.locationPrivacy)
+      ? raw.locationPrivacy as LocationPrivacyPolicy : null)
+  };
+}
+
+/**
+ * 合并修改并重新校验，返回新的设置
+ */
+export function applySettingsPatch(current: AppSettings, patch: Partial<AppSettings>): AppSettings {
+  return validateSettings({ ...current, ...patch }, current.version);
+}
+
+/**
+ * “扩大范围”使用的下一档半径；已是最大档时返回 null
+ */
+export function nextSearchRadius(current: number): number | null {
+  const next = SEARCH_RADIUS_OPTIONS_M.find(r => r > current);
+  return next ?? null;
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,43 @@
+/**
+ * 系统分享面板
+ */
+
+import { systemShare } from '@kit.ShareKit';
+import { uniformTypeDescriptor } from '@kit.ArkData';
+import { fileUri } from '@kit.CoreFileKit';
+import { writeTextFile } from './fileIo';
+
+/**
+ * 把文本写入应用缓存目录下的文件，再通过系统分享面板分享该文件
+ */
+export async function shareTextAsFile(context: any, fileName: string, content: string, title: string): Promise<void> {
+  const path = `${context.cacheDir}/${fileName}`;
+  await writeTextFile(path, content);
+  const extension = fileName.substring(fileName.lastIndexOf('.'));
+  const data = new systemShare.SharedData({
+    utd: uniformTypeDescriptor.getUniformDataTypeByFilenameExtension(extension),
+    uri: fileUri.getUriFromPath(path),
+    title
+  });
+  const controller = new systemShare.ShareController(data);
+  await controller.show(context, {
+    previewMode: systemShare.SharePreviewMode.DEFAULT,
+    selectionMode: systemShare.SelectionMode.SINGLE
+  });
+}
+
+/**
+ * 通过系统分享面板分享一段文本
+ */
+export async function shareText(context: any, content: string, title: string): Promise<void> {
+  const data = new systemShare.SharedData({
+    utd: uniformTypeDescriptor.UniformDataType.PLAIN_TEXT,
+    content,
+    title
+  });
+  const controller = new systemShare.ShareController(data);
+  await controller.show(context, {
+    previewMode: systemShare.SharePreviewMode.DEFAULT,
+    selectionMode: systemShare.SelectionMode.SINGLE
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * 分享内容生成：按所选格式生成分享标题、文本与链接
+ * 各链接按目标地图的坐标系换算；本应用链接与 parseDeepLink 对应，可被拉起后直接定位到该公厕
+ */
+
+import { ToiletPoi } from '../map/MapService';
+import { buildNavigationUris, DEFAULT_TARGET_ID, findTarget, NavMode } from '../map/NavigationTargets';
+import { poiLocationIn } from '../map/PoiDatum';
+import { CoordSystem } from './coordTransform';
+import { AMAP_MARKER_HOST, DEEP_LINK_SCHEME, DeepLinkKind } from './deepLink';
+
+export enum ShareFormat {
+  TEXT = 'text',        // 文字说明 + 高德链接，适合粘贴到聊天
+  APP_LINK = 'app',     // 本应用链接
+  AMAP = 'amap',
+  PETAL = 'petal',
+  BAIDU = 'baidu',
+  GEO = 'geo'           // geo: URI，系统默认地图打开
+}
+
+export interface ShareFormatOption {
+  format: string;
+  label: string;
+}
+
+export const SHARE_FORMATS: ShareFormatOption[] = [
+  { format: ShareFormat.TEXT, label: '文字' },
+  { format: ShareFormat.APP_LINK, label: '找厕所' },
+  { format: ShareFormat.AMAP, label: '高德' },
+  { format: ShareFormat.PETAL, label: '花瓣' },
+  { format: ShareFormat.BAIDU, label: '百度' },
+  { format: ShareFormat.GEO, label: 'geo' }
+];
+
+export interface SharePayload {
+  format: string;   // ShareFormat
+  title: string;    // 系统分享面板的标题
+  text: string;     // 复制或分享的内容
+  uri: string;      // 生成二维码的链接；文字格式时为其中的高德链接
+}
+
+const DEFAULT_NAME = '附近公厕';
+const BAIDU_MARKER_URL = 'https://api.map.baidu.com/marker';
+// 百度 URI API 要求的来源标识
+const BAIDU_SRC = 'webapp.findshit.toilet';
+
+/**
+ * 生成指定格式的分享内容；未知格式按文字处理
+ */
+export function buildSharePayload(poi: ToiletPoi, format: string): SharePayload {
+  const known = SHARE_FORMATS.some(o => o.format === format) ? format : ShareFormat.TEXT;
+  const uri = shareUri(poi, known);
+  return {
+    format: known,
+    title: `分享「${poi.name || DEFAULT_NAME}」`,
+    text: known === ShareFormat.TEXT ? buildShareText(poi, uri) : uri,
+    uri
+  };
+}
+
+/**
+ * 本应用链接：findshit://toilet/<id>?lat=..&lng=..&name=..（WGS-84），对方未收录该公厕时按坐标定位
+ */
+export function buildAppLink(poi: ToiletPoi): string {
+  const p = poiLocationIn(poi, CoordSystem.WGS84);
+  return `${DEEP_LINK_SCHEME}://${DeepLinkKind.TOILET}/${encodeURIComponent(poi.id)}` +
+    `?lat=${formatCoord(p.lat)}&lng=${formatCoord(p.lng)}&name=${encodeURIComponent(poi.name || DEFAULT_NAME)}`;
+}
+
+/**
+ * 高德 marker 网页链接，position 为 GCJ-02 的 经度,纬度
+ */
+export function buildAmapMarkerLink(poi: ToiletPoi): string {
+  const p = poiLocationIn(poi, CoordSystem.GCJ02);
+  const address = poi.address ? `&address=${encodeURIComponent(poi.address)}` : '';
+  return `https://${AMAP_MARKER_HOST}/marker?position=${formatCoord(p.lng)},${formatCoord(p.lat)}` +
+    `&name=${encodeURIComponent(poi.name || DEFAULT_NAME)}${address}&callnative=0`;
+}
+
+// 花瓣地图：复用导航目标中的步行路线链接（GCJ-02）
+function buildPetalLink(poi: ToiletPoi): string {
+  const target = findTarget(DEFAULT_TARGET_ID);
+  const uris = target ? buildNavigationUris(target, poi, NavMode.WALK) : [];
+  return uris.length > 0 ? uris[0] : buildGeoUri(poi);
+}
+
+// 百度 marker 网页链接，坐标为 BD-09 的 纬度,经度
+function buildBaiduMarkerLink(poi: ToiletPoi): string {
+  const p = poiLocationIn(poi, CoordSystem.BD09);
+  return `${BAIDU_MARKER_URL}?location=${formatCoord(p.lat)},${formatCoord(p.lng)}` +
+    `&title=${encodeURIComponent(poi.name || DEFAULT_NAME)}&content=${encodeURIComponent(poi.address || '')}` +
+    `&output=html&coord_type=bd09ll&src=${BAIDU_SRC}`;
+}
+
+// geo: URI（RFC 5870 规定为 WGS-84），q 参数带上名称供地图显示
+function buildGeoUri(poi: ToiletPoi): string {
+  const p = poiLocationIn(poi, CoordSystem.WGS84);
+  const coords = `${formatCoord(p.lat)},${formatCoord(p.lng)}`;
+  return `geo:${coords}?q=${coords}(${encodeURIComponent(poi.name || DEFAULT_NAME)})`;
+}
+
+function shareUri(poi: ToiletPoi, format: string): string {
+  switch (format) {
+    case ShareFormat.APP_LINK:
+      return buildAppLink(poi);
+    case ShareFormat.PETAL:
+      return buildPetalLink(poi);
+    case ShareFormat.BAIDU:
+      return buildBaiduMarkerLink(poi);
+    case ShareFormat.GEO:
+      return buildGeoUri(poi);
+    default:
+      return buildAmapMarkerLink(poi);
+  }
+}
+
+function buildShareText(poi: ToiletPoi, mapUrl: string): string {
+  const name = poi.name || DEFAULT_NAME;
+  const address = poi.address ? `，地址：${poi.address}` : '';
+  return `「${name}」距离大约${formatMeters(poi.distance)}${address}。\n地图链接：${mapUrl}`;
+}
+
+function formatCoord(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(6) : `${value}`;
+}
+
+function formatMeters(meters: number): string {
+  return meters < 1000 ? `${meters}m` : `${(meters / 1000).toFixed(1)}km`;
+}
@@ -0,0 +1,55 @@
+/**
+ * 登录状态
+ * 云函数按网关校验过的登录用户识别提交者与评价者，客户端在写入前需要先登录；
+ * 使用 AGC 认证服务的匿名登录，不收集手机号等个人信息
+ */
+
+import auth from '@hw-agconnect/auth';
+
+export interface SignInProvider {
+  currentUid(): Promise<string | null>;  // 未登录时为 null
+  signIn(): Promise<string>;             // 登录并返回 uid
+}
+
+export class SignInRequiredError extends Error {
+  constructor() {
+    super('请先登录');
+    this.name = 'SignInRequiredError';
+  }
+}
+
+export class AgcSignInProvider implements SignInProvider {
+  async currentUid(): Promise<string | null> {
+    const user = await auth.getCurrentUser();
+    return user ? user.getUid() : null;
+  }
+
+  async signIn(): Promise<string> {
+    const result = await auth.signInAnonymously();
+    return result.getUser().getUid();
+  }
+}
+
+let defaultProvider: SignInProvider | null = null;
+
+export function getSignInProvider(): SignInProvider {
+  if (!defaultProvider) {
+    defaultProvider = new AgcSignInProvider();
+  }
+  return defaultProvider;
+}
+
+/**
+ * 确保已登录：未登录时先请用户确认（confirm 返回 false 表示取消）再登录
+ * 返回是否已登录
+ */
+export async function ensureSignedIn(provider: SignInProvider, confirm: () => Promise<boolean>): Promise<boolean> {
+  if (await provider.currentUid()) {
+    return true;
+  }
+  if (!await confirm()) {
+    return false;
+  }
+  await provider.signIn();
+  return true;
+}
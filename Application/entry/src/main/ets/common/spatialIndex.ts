@@ -0,0 +1,169 @@
+/**
+ * 静态 KD 树空间索引
+ * 将经纬度映射为单位球面上的三维坐标，弦长与球面距离单调对应，
+ * 因此半径查询与最近邻查询在全球范围内都精确，不受投影变形影响
+ */
+
+import { EARTH_RADIUS_M, haversineMeters } from './distance';
+
+export interface Neighbor<T> {
+  item: T;
+  distance: number; // 米
+}
+
+const toRad = (x: number): number => x * Math.PI / 180;
+
+export class KdTree<T> {
+  private items: T[];
+  private lats: Float64Array;
+  private lngs: Float64Array;
+  private coords: Float64Array;  // 每个点的 x,y,z 连续存放
+  private order: Int32Array;     // 隐式树：区间中点为节点，左右半区间为子树
+
+  constructor(items: T[], latOf: (item: T) => number, lngOf: (item: T) => number) {
+    this.items = items.slice();
+    const n = this.items.length;
+    this.lats = new Float64Array(n);
+    this.lngs = new Float64Array(n);
+    this.coords = new Float64Array(n * 3);
+    this.order = new Int32Array(n);
+    for (let i = 0; i < n; i++) {
+      const lat = latOf(this.items[i]);
+      const lng = lngOf(this.items[i]);
+      this.lats[i] = lat;
+      this.lngs[i] = lng;
+      const cosLat = Math.cos(toRad(lat));
+      this.coords[i * 3] = cosLat * Math.cos(toRad(lng));
+      this.coords[i * 3 + 1] = cosLat * Math.sin(toRad(lng));
+      this.coords[i * 3 + 2] = Math.sin(toRad(lat));
+      this.order[i] = i;
+    }
+    this.build(0, n, 0);
+  }
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 半径查询，结果按距离升序
+   */
+  public withinRadius(lat: number, lng: number, radiusM: number): Array<Neighbor<T>> {
+    const q = toUnit(lat, lng);
+    const maxChord = chordOf(radiusM);
+    const hits: number[] = [];
+    this.collect(0, this.items.length, 0, q, maxChord * maxChord, hits);
+    return hits
+      .map(i => this.neighbor(i, lat, lng))
+      .filter(n => n.distance <= radiusM)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * k 近邻查询，可限定最大距离；结果按距离升序
+   */
+  public nearest(lat: number, lng: number, k: number, maxDistanceM: number = Infinity): Array<Neighbor<T>> {
+    if (k <= 0 || this.items.length === 0) return [];
+    const q = toUnit(lat, lng);
+    const limit = Number.isFinite(maxDistanceM) ? chordOf(maxDistanceM) : 2;
+    // 候选按弦长平方升序保存，最多 k 个
+    const best: Array<{ index: number; d2: number }> = [];
+    this.searchNearest(0, this.items.length, 0, q, k, limit * limit, best);
+    return best
+      .map(b => this.neighbor(b.index, lat, lng))
+      .filter(n => n.distance <= maxDistanceM);
+  }
+
+  private neighbor(index: number, lat: number, lng: number): Neighbor<T> {
+    return { item: this.items[index], distance: haversineMeters(lat, lng, this.lats[index], this.lngs[index]) };
+  }
+
+  private build(lo: number, hi: number, depth: number): void {
+    if (hi - lo <= 1) return;
+    const mid = (lo + hi) >> 1;
+    this.select(lo, hi - 1, mid, depth % 3);
+    this.build(lo, mid, depth + 1);
+    this.build(mid + 1, hi, depth + 1);
+  }
+
+  // 快速选择：使 order[k] 为区间内第 k 小（按 axis），左侧不大于、右侧不小于
+  private select(left: number, right: number, k: number, axis: number): void {
+    while (right > left) {
+      const pivot = this.coords[this.order[(left + right) >> 1] * 3 + axis];
+      let i = left;
+      let j = right;
+      while (i <= j) {
+        while (this.coords[this.order[i] * 3 + axis] < pivot) i++;
+        while (this.coords[this.order[j] * 3 + axis] > pivot) j--;
+        if (i <= j) {
+          const t = this.order[i];
+          this.order[i] = this.order[j];
+          this.order[j] = t;
+          i++;
+          j--;
+        }
+      }
+      if (k <= j) {
+        right = j;
+      } else if (k >= i) {
+        left = i;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private collect(lo: number, hi: number, depth: number, q: number[], maxD2: number, out: number[]): void {
+    if (lo >= hi) return;
+    const mid = (lo + hi) >> 1;
+    const p = this.order[mid];
+    if (this.dist2(p, q) <= maxD2) out.push(p);
+    const axis = depth % 3;
+    const diff = q[axis] - this.coords[p * 3 + axis];
+    if (diff <= 0 || diff * diff <= maxD2) this.collect(lo, mid, depth + 1, q, maxD2, out);
+    if (diff >= 0 || diff * diff <= maxD2) this.collect(mid + 1, hi, depth + 1, q, maxD2, out);
+  }
+
+  private searchNearest(lo: number, hi: number, depth: number, q: number[], k: number, maxD2: number,
+    best: Array<{ index: number; d2: number }>): void {
+    if (lo >= hi) return;
+    const mid = (lo + hi) >> 1;
+    const p = this.order[mid];
+    const d2 = this.dist2(p, q);
+    const bound = (): number => best.length < k ? maxD2 : best[best.length - 1].d2;
+    if (d2 <= bound()) {
+      let pos = best.length;
+      while (pos > 0 && best[pos - 1].d2 > d2) pos--;
+      best.splice(pos, 0, { index: p, d2 });
+      if (best.length > k) best.pop();
+    }
+    const axis = depth % 3;
+    const diff = q[axis] - this.coords[p * 3 + axis];
+    // 先搜查询点所在一侧，另一侧仅在可能更近时搜索
+    if (diff <= 0) {
+      this.searchNearest(lo, mid, depth + 1, q, k, maxD2, best);
+      if (diff * diff <= bound()) this.searchNearest(mid + 1, hi, depth + 1, q, k, maxD2, best);
+    } else {
+      this.searchNearest(mid + 1, hi, depth + 1, q, k, maxD2, best);
+      if (diff * diff <= bound()) this.searchNearest(lo, mid, depth + 1, q, k, maxD2, best);
+    }
+  }
+
+  private dist2(index: number, q: number[]): number {
+    const dx = this.coords[index * 3] - q[0];
+    const dy = this.coords[index * 3 + 1] - q[1];
+    const dz = this.coords[index * 3 + 2] - q[2];
+    return dx * dx + dy * dy + dz * dz;
+  }
+}
+
+function toUnit(lat: number, lng: number): number[] {
+  const cosLat = Math.cos(toRad(lat));
+  return [cosLat * Math.cos(toRad(lng)), cosLat * Math.sin(toRad(lng)), Math.sin(toRad(lat))];
+}
+
+// 球面距离对应的单位球弦长；略微放大以抵消浮点误差，最终结果再按球面距离精确过滤
+function chordOf(distanceM: number): number {
+  const angle = Math.min(distanceM / EARTH_RADIUS_M, Math.PI);
+  return 2 * Math.sin(angle / 2) * (1 + 1e-9) + 1e-12;
+}
@@ -11,12 +11,24 @@ export interface ToiletPoi {
   lng: number;         // 经度
   distance?: number;   // 距离（米，端侧计算填充）
   openHours?: string;  // 营业时间："06:00-23:00" / "24h" / "无障碍" 等
+  address?: string;    // 地址
+  fee?: boolean;       // 是否收费
+  wheelchair?: string; // 无障碍：yes / limited / no
+  changingTable?: boolean; // 是否有婴儿护理台
+  attributes?: Record<string, string>; // 导入数据中的其他字段，原样保留
+}
+
+// 经纬度坐标（WGS-84）
+export interface GeoPoint {
+  lat: number;
+  lng: number;
 }
 
 // 搜索选项
 export interface SearchOptions {
+  center: GeoPoint;    // 搜索中心
   radiusM: number;     // 搜索半径（米）
-  limit?: number;      // 结果上限（默认 20）
+  limit?: number;      // 结果上限（默认 20），按距离取最近的若干个
 }
 
 // 应用状态枚举
@@ -0,0 +1,102 @@
+import { importObject, ToiletSubmissionService } from 'cloud_objects';
+import type { SubmissionDraft, SubmissionResult } from 'cloud_objects';
+import { getSignInProvider, SignInProvider, SignInRequiredError } from '../common/signIn';
+
+export const MAX_NAME_LENGTH = 60;
+export const MAX_HOURS_LENGTH = 120;
+
+// 与云函数 toilet-submission 的 SubmissionStatus 一致
+export enum SubmissionStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  DUPLICATE = 'duplicate',
+  REJECTED = 'rejected'
+}
+
+// 提交通道；默认为云函数 toilet-submission，由其完成限流、查重与发布
+export interface ToiletSubmitter {
+  submit(draft: SubmissionDraft): Promise<SubmissionResult>;
+}
+
+/**
+ * 用户补充公厕
+ */
+export class SubmissionRepository {
+  private static shared: SubmissionRepository | null = null;
+  private submitter: ToiletSubmitter;
+  private signIn: SignInProvider;
+
+  constructor(submitter: ToiletSubmitter, signIn: SignInProvider) {
+    this.submitter = submitter;
+    this.signIn = signIn;
+  }
+
+  public static getDefault(): SubmissionRepository {
+    if (!SubmissionRepository.shared) {
+      SubmissionRepository.shared = new SubmissionRepository(importObject(ToiletSubmissionService), getSignInProvider());
+    }
+    return SubmissionRepository.shared;
+  }
+
+  /**
+   * 提交公厕；未登录（或登录已失效）时抛出 SignInRequiredError，校验失败或被限流时抛出带中文说明的错误
+   */
+  public async submit(draft: SubmissionDraft): Promise<SubmissionResult> {
+    const problem = validateSubmission(draft);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (!await this.signIn.currentUid()) {
+      throw new SignInRequiredError();
+    }
+    try {
+      return await this.submitter.submit(draft);
+    } catch (e) {
+      if (/sign-in required/.test((e as Error)?.message || '')) {
+        throw new SignInRequiredError();
+      }
+      throw new Error(describeSubmitError(e as Error));
+    }
+  }
+}
+
+/**
+ * 客户端预校验（与云函数规则一致），通过时返回 null
+ */
+export function validateSubmission(draft: SubmissionDraft): string | null {
+  const name = (draft.name ?? '').trim();
+  if (name.length === 0) return '请填写公厕名称';
+  if (name.length > MAX_NAME_LENGTH) return `名称不能超过 ${MAX_NAME_LENGTH} 字`;
+  if (!Number.isFinite(draft.latitude) || !Number.isFinite(draft.longitude) ||
+    Math.abs(draft.latitude) > 90 || Math.abs(draft.longitude) > 180 ||
+    (draft.latitude === 0 && draft.longitude === 0)) {
+    return '暂未获取到有效位置';
+  }
+  if ((draft.openingHours ?? '').length > MAX_HOURS_LENGTH) return `开放时间不能超过 ${MAX_HOURS_LENGTH} 字`;
+  return null;
+}
+
+/**
+ * 提交结果的提示文案
+ */
+export function describeSubmitResult(result: SubmissionResult): string {
+  switch (result.status) {
+    case SubmissionStatus.APPROVED:
+      return '感谢补充！其他人检索时就能看到了';
+    case SubmissionStatus.DUPLICATE:
+      return result.duplicateName ? `附近已有「${result.duplicateName}」，无需重复添加` : '附近已有这个公厕，无需重复添加';
+    case SubmissionStatus.PENDING:
+      return '已收到，审核后即可被检索到';
+    default:
+      return '提交未通过审核';
+  }
+}
+
+// 云函数的英文错误转为用户可读的提示
+function describeSubmitError(error: Error): string {
+  const message = error?.message || '';
+  if (/per day/.test(message)) return '今天提交得太多了，明天再来吧';
+  if (/too frequently/.test(message)) return '提交太频繁，请稍后再试';
+  if (/coordinates/.test(message)) return '位置无效，请重新定位后再试';
+  return '提交失败，请稍后重试';
+}
@@ -0,0 +1,54 @@
+import { MapService, PoiSource, SearchResult } from './MapService';
+import { HttpFetcher, OhosHttpFetcher } from './HttpFetcher';
+import { completeRadius, SearchTrace } from './SearchTrace';
+import { CancellationToken } from '../common/cancellation';
+import { parseAmapAroundResponse } from './PlaceResponseParser';
+import { normalizePoiDatum } from './PoiDatum';
+import { AMAP_WEB_KEY } from '../common/config';
+import { wgs84ToGcj02 } from '../common/coordTransform';
+
+const AMAP_BASE_URL = 'https://restapi.amap.com';
+// 高德 POI 分类：200300 公共厕所
+const AMAP_TOILET_TYPE = '200300';
+const AMAP_MAX_RADIUS_M = 5000;
+const AMAP_PAGE_SIZE = 25;
+
+/**
+ * 高德 Web 服务周边检索
+ */
+export class AmapMapService implements MapService {
+  public readonly name = 'amap';
+  private key: string;
+  private baseUrl: string;
+  private fetcher: HttpFetcher;
+
+  constructor(key: string = AMAP_WEB_KEY, baseUrl: string = AMAP_BASE_URL,
+    fetcher: HttpFetcher = new OhosHttpFetcher()) {
+    this.key = key;
+    this.baseUrl = baseUrl;
+    this.fetcher = fetcher;
+  }
+
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters: number = 1000,
+    token?: CancellationToken): Promise<SearchResult> {
+    if (!this.key) {
+      throw new Error('Amap web key not configured');
+    }
+    const radius = Math.min(Math.max(radiusMeters, 50), AMAP_MAX_RADIUS_M);
+    // 高德只接受 GCJ-02 坐标
+    const center = wgs84ToGcj02(latitude, longitude);
+    const url = `${this.baseUrl}/v3/place/around?key=${encodeURIComponent(this.key)}`
+      + `&location=${center.lng.toFixed(6)},${center.lat.toFixed(6)}`
+      + `&keywords=${encodeURIComponent('厕所')}&types=${AMAP_TOILET_TYPE}`
+      + `&radius=${radius}&sortrule=distance&offset=${AMAP_PAGE_SIZE}&page=1&extensions=all`;
+
+    console.log(`Searching for nearby toilets using Amap at (${longitude}, ${latitude}) within ${radius}m`);
+    const trace = new SearchTrace();
+    const pois = await trace.run(PoiSource.AMAP, async () => {
+      const raw = await this.fetcher.get(url, token);
+      return normalizePoiDatum(parseAmapAroundResponse(raw, center.lat, center.lng, radiusMeters));
+    });
+    return trace.finish(pois, PoiSource.AMAP, false,
+      completeRadius(radiusMeters, AMAP_MAX_RADIUS_M, pois.length, AMAP_PAGE_SIZE));
+  }
+}
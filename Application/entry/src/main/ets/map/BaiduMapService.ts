@@ -0,0 +1,52 @@
+import { MapService, PoiSource, SearchResult } from './MapService';
+import { HttpFetcher, OhosHttpFetcher } from './HttpFetcher';
+import { completeRadius, SearchTrace } from './SearchTrace';
+import { CancellationToken } from '../common/cancellation';
+import { parseBaiduPlaceResponse } from './PlaceResponseParser';
+import { normalizePoiDatum } from './PoiDatum';
+import { BAIDU_WEB_AK } from '../common/config';
+import { CoordSystem, convertCoord } from '../common/coordTransform';
+
+const BAIDU_BASE_URL = 'https://api.map.baidu.com';
+const BAIDU_MAX_RADIUS_M = 5000;
+const BAIDU_PAGE_SIZE = 20;
+
+/**
+ * 百度地图 Web 服务地点检索（圆形区域）
+ */
+export class BaiduMapService implements MapService {
+  public readonly name = 'baidu';
+  private ak: string;
+  private baseUrl: string;
+  private fetcher: HttpFetcher;
+
+  constructor(ak: string = BAIDU_WEB_AK, baseUrl: string = BAIDU_BASE_URL,
+    fetcher: HttpFetcher = new OhosHttpFetcher()) {
+    this.ak = ak;
+    this.baseUrl = baseUrl;
+    this.fetcher = fetcher;
+  }
+
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters: number = 1000,
+    token?: CancellationToken): Promise<SearchResult> {
+    if (!this.ak) {
+      throw new Error('Baidu web AK not configured');
+    }
+    const radius = Math.min(Math.max(radiusMeters, 50), BAIDU_MAX_RADIUS_M);
+    // coord_type=1 表示请求坐标为 WGS-84；scope=2 返回 detail_info（含距离）；返回坐标为 BD-09
+    const url = `${this.baseUrl}/place/v2/search?query=${encodeURIComponent('厕所')}`
+      + `&location=${latitude.toFixed(6)},${longitude.toFixed(6)}&radius=${radius}&radius_limit=true`
+      + `&coord_type=1&scope=2&filter=sort_name:distance|sort_rule:1&page_size=${BAIDU_PAGE_SIZE}&page_num=0`
+      + `&output=json&ak=${encodeURIComponent(this.ak)}`;
+
+    console.log(`Searching for nearby toilets using Baidu at (${longitude}, ${latitude}) within ${radius}m`);
+    const trace = new SearchTrace();
+    const pois = await trace.run(PoiSource.BAIDU, async () => {
+      const raw = await this.fetcher.get(url, token);
+      const center = convertCoord(latitude, longitude, CoordSystem.WGS84, CoordSystem.BD09);
+      return normalizePoiDatum(parseBaiduPlaceResponse(raw, center.lat, center.lng, radiusMeters));
+    });
+    return trace.finish(pois, PoiSource.BAIDU, false,
+      completeRadius(radiusMeters, BAIDU_MAX_RADIUS_M, pois.length, BAIDU_PAGE_SIZE));
+  }
+}
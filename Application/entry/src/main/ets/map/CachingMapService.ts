@@ -0,0 +1,129 @@
+import { MapService, PoiSource, SearchResult, SearchUpdateListener, SourceAttempt } from './MapService';
+import PoiCacheStore, { PoiCacheQuery } from '../common/PoiCacheStore';
+import { isNetworkAvailable } from '../common/network';
+import { CancellationToken, CancelReason, isCancelledError } from '../common/cancellation';
+
+/**
+ * 带离线缓存的检索服务（装饰其他 MapService）
+ * - 无网络：直接返回缓存
+ * - 有网且缓存新鲜：先返回缓存，后台刷新后通过监听器推送新结果
+ * - 其他情况：走真实检索并写入缓存；检索失败、超时或只拿到模拟数据时回退到缓存
+ * 主动取消的检索不回退缓存，后台刷新在所属检索被取消后也不再推送
+ */
+export class CachingMapService implements MapService {
+  public readonly name: string;
+  private delegate: MapService;
+  private listener: SearchUpdateListener | null = null;
+  private store: PoiCacheStore | null;
+
+  // store 为空时使用全局缓存（未初始化则不走缓存）
+  constructor(delegate: MapService, store: PoiCacheStore | null = null) {
+    this.delegate = delegate;
+    this.name = delegate.name;
+    this.store = store;
+  }
+
+  public setUpdateListener(listener: SearchUpdateListener | null): void {
+    this.listener = listener;
+  }
+
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters: number = 1000,
+    token?: CancellationToken): Promise<SearchResult> {
+    const store = this.cacheStore();
+    if (!store) {
+      return await this.delegate.searchNearbyToilets(longitude, latitude, radiusMeters, token);
+    }
+    const start = Date.now();
+    const cached = await this.readCache(store, longitude, latitude, radiusMeters);
+    const cacheMs = Date.now() - start;
+
+    if (!isNetworkAvailable()) {
+      if (cached && cached.hit) {
+        return this.fromCache(cached, cacheMs, ['network: 无网络连接，显示离线缓存'], []);
+      }
+      throw new Error('无网络连接，且该区域没有离线缓存');
+    }
+
+    if (cached && cached.fresh) {
+      this.refreshInBackground(store, longitude, latitude, radiusMeters, token);
+      return this.fromCache(cached, cacheMs, [], []);
+    }
+
+    try {
+      const result = await this.delegate.searchNearbyToilets(longitude, latitude, radiusMeters, token);
+      if (result.mock) {
+        // 宁可使用过期的真实数据，也不展示模拟数据
+        if (cached && cached.hit) {
+          return this.fromCache(cached, cacheMs, result.errors, result.attempts);
+        }
+        return result;
+      }
+      await this.writeCache(store, longitude, latitude, radiusMeters, result);
+      return result;
+    } catch (error) {
+      const userCancelled = isCancelledError(error) && error.reason === CancelReason.CANCELLED;
+      if (!userCancelled && cached && cached.hit) {
+        const message = `${this.delegate.name}: ${(error as Error)?.message || String(error)}`;
+        return this.fromCache(cached, cacheMs, [message], []);
+      }
+      throw error;
+    }
+  }
+
+  // 刷新本身不受检索时间预算限制；令牌只用于判断结果是否仍属于当前检索
+  private refreshInBackground(store: PoiCacheStore, longitude: number, latitude: number, radiusMeters: number,
+    token?: CancellationToken): void {
+    this.delegate.searchNearbyToilets(longitude, latitude, radiusMeters)
+      .then(async (result: SearchResult) => {
+        if (result.mock) return;
+        await this.writeCache(store, longitude, latitude, radiusMeters, result);
+        if (this.listener && !token?.isCancelled) {
+          this.listener(result);
+        }
+      })
+      .catch((error: Error) => {
+        console.warn('Background cache refresh failed:', error);
+      });
+  }
+
+  private fromCache(cached: PoiCacheQuery, durationMs: number, errors: string[],
+    previous: SourceAttempt[]): SearchResult {
+    const attempts: SourceAttempt[] = previous.slice();
+    attempts.push({ source: PoiSource.CACHE, ok: true, durationMs, resultCount: cached.pois.length });
+    return {
+      pois: cached.pois,
+      source: PoiSource.CACHE,
+      attempts,
+      errors,
+      degraded: errors.length > 0 || !cached.fresh,
+      mock: false
+    };
+  }
+
+  private cacheStore(): PoiCacheStore | null {
+    if (this.store) {
+      return this.store;
+    }
+    return PoiCacheStore.isInitialized() ? PoiCacheStore.getInstance() : null;
+  }
+
+  private async readCache(store: PoiCacheStore, longitude: number, latitude: number,
+    radiusMeters: number): Promise<PoiCacheQuery | null> {
+    try {
+      return await store.query(latitude, longitude, radiusMeters);
+    } catch (error) {
+      console.warn('读取离线缓存失败:', error);
+      return null;
+    }
+  }
+
+  private async writeCache(store: PoiCacheStore, longitude: number, latitude: number, radiusMeters: number,
+    result: SearchResult): Promise<void> {
+    try {
+      await store.put(latitude, longitude, radiusMeters, result.pois, Date.now(),
+        result.completeRadiusM ?? radiusMeters);
+    } catch (error) {
+      console.warn('写入离线缓存失败:', error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { importObject, ToiletSearchService } from 'cloud_objects';
+import type { NearbyQuery, NearbyResult, NearbyToilet } from 'cloud_objects';
+import { MapService, PoiSource, SearchResult, ToiletPoi } from './MapService';
+import { SearchTrace } from './SearchTrace';
+import { CANONICAL_DATUM } from './PoiDatum';
+import { CancellationToken, raceCancellation } from '../common/cancellation';
+import { CLOUD_SEARCH_LIMIT, CLOUD_SEARCH_MAX_RADIUS_M } from '../common/config';
+
+// 检索通道；默认为云函数 toilet-search
+export interface NearbySearcher {
+  searchNearby(query: NearbyQuery): Promise<NearbyResult>;
+}
+
+/**
+ * 云端公厕（运营导入与用户补充的数据）
+ * 由云函数 toilet-search 按 geohash 网格检索并按距离排序，客户端只做格式转换
+ */
+export class CloudSearchMapService implements MapService {
+  public readonly name = PoiSource.CLOUD;
+  private searcher: NearbySearcher | null;
+
+  constructor(searcher?: NearbySearcher) {
+    this.searcher = searcher ?? null;
+  }
+
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters: number = 1000,
+    token?: CancellationToken): Promise<SearchResult> {
+    const trace = new SearchTrace();
+    let truncated = false;
+    const pois = await trace.run(PoiSource.CLOUD, async () => {
+      const query: NearbyQuery = {
+        latitude,
+        longitude,
+        radiusM: Math.min(radiusMeters, CLOUD_SEARCH_MAX_RADIUS_M),
+        limit: CLOUD_SEARCH_LIMIT
+      };
+      const result = await raceCancellation(this.getSearcher().searchNearby(query), token);
+      truncated = result.truncated;
+      return result.toilets.map(fromNearbyToilet);
+    });
+    return trace.finish(pois, PoiSource.CLOUD, false, truncated ? 0 : Math.min(radiusMeters, CLOUD_SEARCH_MAX_RADIUS_M));
+  }
+
+  private getSearcher(): NearbySearcher {
+    if (!this.searcher) {
+      this.searcher = importObject(ToiletSearchService);
+    }
+    return this.searcher;
+  }
+}
+
+/**
+ * 云端检索结果转换为 ToiletPoi；来源按数据类别区分运营数据与社区补充
+ */
+export function fromNearbyToilet(t: NearbyToilet): ToiletPoi {
+  const sources: string[] = [t.source === 'community' ? PoiSource.COMMUNITY : PoiSource.CURATED];
+  const poi: ToiletPoi = {
+    id: t.id,
+    name: t.name,
+    address: '',
+    location: { latitude: t.latitude, longitude: t.longitude },
+    distance: t.distance,
+    sources,
+    datum: CANONICAL_DATUM
+  };
+  if (t.openingHours) poi.openingHours = t.openingHours;
+  if (t.fee !== undefined) poi.fee = t.fee;
+  if (t.wheelchair) poi.wheelchair = t.wheelchair;
+  if (t.changingTable !== undefined) poi.changingTable = t.changingTable;
+  if (t.attributes) poi.attributes = t.attributes;
+  if (t.updatedAt > 0) poi.updatedAt = t.updatedAt;
+  return poi;
+}
@@ -0,0 +1,47 @@
+import { MapService, SearchResult } from './MapService';
+import { SearchTrace } from './SearchTrace';
+import { CancellationToken, isCancelledError } from '../common/cancellation';
+
+/**
+ * 按顺序回退的检索服务
+ * 依次调用各服务，返回第一个成功且有结果的；全部为空时返回最后一个成功的空结果，全部失败时抛出最后的错误
+ * 各服务的尝试记录与错误会汇总到最终结果中；被取消或超出时间预算时立即结束，不再尝试后续服务
+ */
+export class FallbackMapService implements MapService {
+  public readonly name = 'fallback';
+  private services: MapService[];
+
+  constructor(services: MapService[]) {
+    this.services = services;
+  }
+
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters?: number,
+    token?: CancellationToken): Promise<SearchResult> {
+    const trace = new SearchTrace();
+    let lastError: Error | null = null;
+    let emptyResult: SearchResult | null = null;
+    for (const service of this.services) {
+      token?.throwIfCancelled();
+      const start = Date.now();
+      try {
+        const result = await service.searchNearbyToilets(longitude, latitude, radiusMeters, token);
+        trace.absorb(result);
+        if (result.pois.length > 0) {
+          return trace.finish(result.pois, result.source, result.mock, result.completeRadiusM);
+        }
+        emptyResult = result;
+      } catch (error) {
+        if (isCancelledError(error)) {
+          throw error;
+        }
+        console.warn('Map service failed, trying next in chain:', error);
+        lastError = error as Error;
+        trace.recordFailure(service.name, lastError, Date.now() - start);
+      }
+    }
+    if (emptyResult) {
+      return trace.finish(emptyResult.pois, emptyResult.source, emptyResult.mock, emptyResult.completeRadiusM);
+    }
+    throw lastError ?? new Error('No map service configured');
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * 收藏叠加：给检索结果打上收藏标记，并补入半径内未被数据源返回的收藏
+ */
+
+import { PoiSource, ToiletPoi } from './MapService';
+import type { Favorite } from '../common/FavoriteStore';
+import { isSamePlace } from './ResultAggregator';
+import { haversineMeters } from '../common/distance';
+import { CANONICAL_DATUM, poiLocationIn } from './PoiDatum';
+import type { GeoPoint } from '../common/types';
+
+/**
+ * 查找检索结果对应的收藏：优先同 id，其次按聚合去重规则判定为同一地点
+ */
+export function findFavorite(poi: ToiletPoi, favorites: Favorite[]): Favorite | undefined {
+  return favorites.find(f => f.poi.id === poi.id) ?? favorites.find(f => isSamePlace(poi, f.poi));
+}
+
+/**
+ * 叠加收藏
+ * 同 id 或判定为同一地点的结果直接标记；其余收藏在检索半径内时以快照补入，距离按当前中心重算
+ */
+export function overlayFavorites(pois: ToiletPoi[], favorites: Favorite[], center: GeoPoint,
+  radiusM: number): ToiletPoi[] {
+  if (favorites.length === 0) return pois;
+  const result: ToiletPoi[] = pois.map(p => ({ ...p }));
+  for (const favorite of favorites) {
+    const snapshot = favorite.poi;
+    const match = result.find(p => p.id === snapshot.id) ?? result.find(p => isSamePlace(p, snapshot));
+    if (match) {
+      match.favorite = true;
+      continue;
+    }
+    const p = poiLocationIn(snapshot, CANONICAL_DATUM);
+    const distance = Math.round(haversineMeters(center.lat, center.lng, p.lat, p.lng));
+    if (!Number.isFinite(distance) || distance > radiusM) continue;
+    const sources: string[] = [PoiSource.FAVORITE];
+    result.push({ ...snapshot, distance, sources, favorite: true });
+  }
+  return result.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * 仅刷新已有结果的收藏标记（不补入、不移除），用于收藏变更后原地更新列表
+ */
+export function markFavorites(pois: ToiletPoi[], favorites: Favorite[]): ToiletPoi[] {
+  return pois.map(p => ({ ...p, favorite: findFavorite(p, favorites) !== undefined }));
+}
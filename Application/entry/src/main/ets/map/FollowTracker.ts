@@ -0,0 +1,114 @@
+/**
+ * 跟随模式：根据持续定位决定本地重算还是重新检索
+ * 重新检索以上次检索中心为基准判断偏移（而不是上一次定位），在阈值附近来回走动不会反复触发
+ */
+
+import { ToiletPoi } from './MapService';
+import { GeoPoint } from '../common/types';
+import { haversineMeters } from '../common/distance';
+import {
+  FOLLOW_MAX_ACCURACY_M,
+  FOLLOW_MIN_MOVE_M,
+  FOLLOW_REQUERY_COOLDOWN_MS,
+  FOLLOW_REQUERY_MIN_M,
+  FOLLOW_REQUERY_RATIO
+} from '../common/config';
+
+export enum FollowAction {
+  IGNORE = 'ignore',     // 移动太少或定位精度太差
+  REFRESH = 'refresh',   // 用新位置在本地重算距离、用时与排序
+  REQUERY = 'requery'    // 重新检索
+}
+
+export interface FollowFix {
+  lat: number;
+  lng: number;
+  accuracyM: number;
+  timestamp: number;
+}
+
+export interface FollowOptions {
+  minMoveM: number;
+  maxAccuracyM: number;
+  requeryMinM: number;
+  requeryRatio: number;
+  requeryCooldownMs: number;
+}
+
+export const DEFAULT_FOLLOW_OPTIONS: FollowOptions = {
+  minMoveM: FOLLOW_MIN_MOVE_M,
+  maxAccuracyM: FOLLOW_MAX_ACCURACY_M,
+  requeryMinM: FOLLOW_REQUERY_MIN_M,
+  requeryRatio: FOLLOW_REQUERY_RATIO,
+  requeryCooldownMs: FOLLOW_REQUERY_COOLDOWN_MS
+};
+
+export class FollowTracker {
+  private options: FollowOptions;
+  private anchor: GeoPoint | null = null;  // 上次检索的中心
+  private radiusM: number = 0;
+  private lastApplied: GeoPoint | null = null;
+  private lastRequeryAt: number = -Infinity;
+
+  constructor(options: FollowOptions = DEFAULT_FOLLOW_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * 检索完成后以该次检索的中心与半径为基准
+   */
+  public reset(center: GeoPoint, radiusM: number): void {
+    this.anchor = center;
+    this.radiusM = radiusM;
+    this.lastApplied = center;
+  }
+
+  public clear(): void {
+    this.anchor = null;
+    this.lastApplied = null;
+    this.lastRequeryAt = -Infinity;
+  }
+
+  /**
+   * 偏离检索中心超过该距离时重新检索
+   */
+  public requeryDistanceM(): number {
+    return Math.min(Math.max(this.options.requeryMinM, this.radiusM * this.options.requeryRatio), this.radiusM);
+  }
+
+  public update(fix: FollowFix): FollowAction {
+    if (!this.anchor || fix.accuracyM > this.options.maxAccuracyM) {
+      return FollowAction.IGNORE;
+    }
+    const point: GeoPoint = { lat: fix.lat, lng: fix.lng };
+    const fromAnchor = haversineMeters(this.anchor.lat, this.anchor.lng, fix.lat, fix.lng);
+    // 走出检索范围或偏移超过阈值都需要重新检索；冷却期内先在本地重算
+    const needsRequery = fromAnchor >= this.radiusM || fromAnchor >= this.requeryDistanceM();
+    if (needsRequery && fix.timestamp - this.lastRequeryAt >= this.options.requeryCooldownMs) {
+      this.lastRequeryAt = fix.timestamp;
+      this.lastApplied = point;
+      return FollowAction.REQUERY;
+    }
+    const moved = this.lastApplied ? haversineMeters(this.lastApplied.lat, this.lastApplied.lng, fix.lat, fix.lng)
+      : Infinity;
+    if (moved < this.options.minMoveM) {
+      return FollowAction.IGNORE;
+    }
+    this.lastApplied = point;
+    return FollowAction.REFRESH;
+  }
+}
+
+/**
+ * 以新位置重算各公厕的直线距离，返回新数组（路程用时由排序前的规划重新估算）
+ */
+export function relocatePois(pois: ToiletPoi[], origin: GeoPoint): ToiletPoi[] {
+  return pois.map(p => {
+    const moved: ToiletPoi = {
+      ...p,
+      distance: Math.round(haversineMeters(origin.lat, origin.lng, p.location.latitude, p.location.longitude))
+    };
+    delete moved.route;
+    return moved;
+  });
+}
@@ -0,0 +1,42 @@
+import http from '@ohos.net.http';
+import { CancellationToken, raceCancellation } from '../common/cancellation';
+
+/**
+ * HTTP 请求抽象
+ * 各 Web 服务检索只依赖该接口，便于在测试中替换为本地桩服务或录制的响应
+ */
+export interface HttpFetcher {
+  get(url: string, token?: CancellationToken): Promise<string>;
+}
+
+// 基于 @ohos.net.http 的默认实现
+export class OhosHttpFetcher implements HttpFetcher {
+  private readTimeout: number;
+  private connectTimeout: number;
+
+  constructor(readTimeout: number = 15000, connectTimeout: number = 10000) {
+    this.readTimeout = readTimeout;
+    this.connectTimeout = connectTimeout;
+  }
+
+  public async get(url: string, token?: CancellationToken): Promise<string> {
+    token?.throwIfCancelled();
+    const httpRequest = http.createHttp();
+    // 取消时销毁请求对象以中断连接
+    const unsubscribe = token?.onCancel(() => httpRequest.destroy());
+    try {
+      const res = await raceCancellation(httpRequest.request(url, {
+        method: http.RequestMethod.GET,
+        readTimeout: this.readTimeout,
+        connectTimeout: this.connectTimeout
+      }), token);
+      if (res.responseCode !== 200) {
+        throw new Error(`HTTP error: ${res.responseCode}`);
+      }
+      return res.result as string;
+    } finally {
+      unsubscribe?.();
+      httpRequest.destroy();
+    }
+  }
+}
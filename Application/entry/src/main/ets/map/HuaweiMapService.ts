@@ -1,150 +1,194 @@
-import { MapService, ToiletPoi, Site } from './MapService';
+import { MapService, ToiletPoi, Site, PoiSource, SearchResult } from './MapService';
 import { geoLocationManager } from '@kit.LocationKit';
 import { MapComponent, mapCommon, map } from '@kit.MapKit';
-import http from '@ohos.net.http';
+import { LocalProvider } from '../common/localProvider';
+import { haversineMeters } from '../common/distance';
+import { mergeProviderResults, ProviderResponse } from './ResultAggregator';
+import { completeRadius, SearchTrace } from './SearchTrace';
+import { CANONICAL_DATUM, normalizePoiDatum } from './PoiDatum';
+import { CoordSystem, wgs84ToGcj02 } from '../common/coordTransform';
+import { CancellationToken, delay, raceCancellation } from '../common/cancellation';
+import { OverpassClient } from './OverpassClient';
+import { fromLocalPoi } from './LocalPoi';
+import { buildOverpassQuery, parseOverpassResponse } from './OverpassQuery';
+
+// 检索模式：fallback 按顺序取第一个可用来源；aggregate 并行查询所有来源并去重合并
+export type SearchMode = 'fallback' | 'aggregate';
+
+// 站点检索与 Overpass 的半径上限，站点检索单页条数
+const SITE_KIT_MAX_RADIUS_M = 3000;
+const SITE_KIT_PAGE_SIZE = 50;
+const OVERPASS_MAX_RADIUS_M = 3000;
 
 export class HuaweiMapService implements MapService {
-  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters: number = 1000): Promise<ToiletPoi[]> {
-    console.log(`Searching for nearby toilets using Huawei Map at (${longitude}, ${latitude}) within ${radiusMeters}m`);
-    
-    try {
-      // 方案A：优先使用华为地图站点检索（关键词+附近）
-      return await this.searchWithHuaweiSite(longitude, latitude, radiusMeters);
-    } catch (error) {
-      console.warn('华为地图Kit不可用，使用模拟数据:', error);
-      // 使用Mock数据作为后备方案
-      return await this.getMockToiletData(longitude, latitude, radiusMeters);
-    }
+  public readonly name = 'huawei';
+  private mode: SearchMode;
+  private localProvider: LocalProvider;
+  private overpass: OverpassClient;
+
+  constructor(mode: SearchMode = 'fallback', localProvider: LocalProvider = new LocalProvider(),
+    overpass: OverpassClient = OverpassClient.getDefault()) {
+    this.mode = mode;
+    this.localProvider = localProvider;
+    this.overpass = overpass;
   }
 
-  // 使用华为地图 Site 检索（关键词：厕所/卫生间/公厕）
-  private async searchWithHuaweiSite(longitude: number, latitude: number, radiusMeters: number): Promise<ToiletPoi[]> {
-    // 半径限制，避免过大导致性能问题
-    const radius = Math.min(Math.max(radiusMeters, 50), 3000);
-    const keyword = '厕所|卫生间|公厕';
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters: number = 1000,
+    token?: CancellationToken): Promise<SearchResult> {
+    console.log(`Searching for nearby toilets using Huawei Map at (${longitude}, ${latitude}) within ${radiusMeters}m, mode=${this.mode}`);
 
-    // Haversine 距离计算
-    const toRad = (x: number) => x * Math.PI / 180;
-    const haversine = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-      const R = 6371000; // meters
-      const dLat = toRad(lat2 - lat1);
-      const dLon = toRad(lon2 - lon1);
-      const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c;
-    };
+    if (this.mode === 'aggregate') {
+      return await this.searchAggregated(longitude, latitude, radiusMeters, token);
+    }
+
+    const trace = new SearchTrace();
+    // 本地数据（内置与用户导入的数据集）与网络检索并行，结果并入最终采用的网络来源
+    const localPromise = trace.run(PoiSource.LOCAL, () => this.queryLocal(longitude, latitude, radiusMeters))
+      .catch((error: Error): ToiletPoi[] => {
+        console.warn('Local search failed:', error);
+        return [];
+      });
 
+    // 方案A：优先使用华为地图站点检索（关键词+附近）
     try {
-      // 通过 MapKit 的 site 模块进行站点检索
-      const anyMap: any = map as any;
-      const siteModule = anyMap?.site ?? anyMap; // 兼容不同导出形式
-      if (!siteModule) {
-        throw new Error('MapKit site module not available');
+      const toilets = await trace.run(PoiSource.SITE_KIT, () => this.querySiteKit(longitude, latitude, radiusMeters, token));
+      if (toilets.length > 0) {
+        return finishWithLocal(trace, toilets, PoiSource.SITE_KIT, await localPromise,
+          completeRadius(radiusMeters, SITE_KIT_MAX_RADIUS_M, toilets.length, SITE_KIT_PAGE_SIZE));
       }
+      // 若站点检索为空，回退 Overpass
+    } catch (error) {
+      console.warn('Site search failed, fallback to Overpass:', error);
+    }
+    // 已取消或超出时间预算时不再回退
+    token?.throwIfCancelled();
 
-      // 站点服务实例与附近检索请求（使用关键词）
-      const service = new siteModule.SearchService();
-      const request = {
-        query: '厕所|卫生间|公厕', // 主关键词，支持常见同义词
-        // 允许同义词匹配（如 SDK 支持正则/模糊时）
-        // 位置与半径
-        location: { latitude, longitude },
-        radius: radius,
-        pageIndex: 1,
-        pageSize: 50
-      };
+    // 方案B：Overpass
+    try {
+      const toilets = await trace.run(PoiSource.OVERPASS, () => this.searchWithHuaweiMapKit(longitude, latitude, radiusMeters, token));
+      return finishWithLocal(trace, toilets, PoiSource.OVERPASS, await localPromise,
+        Math.min(radiusMeters, OVERPASS_MAX_RADIUS_M));
+    } catch (error) {
+      console.warn('华为地图Kit不可用，使用模拟数据:', error);
+    }
+    token?.throwIfCancelled();
 
-      // 优先尝试附近检索；如 SDK 需不同方法名，使用 any 访问避免编译失败
-      const resp = await (service.nearbySearch ? service.nearbySearch(request) : service.textSearch?.(request));
-      const items: any[] = Array.isArray(resp?.sites) ? resp.sites : (Array.isArray(resp?.results) ? resp.results : []);
-      if (!items || items.length === 0) {
-        // 若站点检索为空，回退 Overpass
-        return await this.searchWithHuaweiMapKit(longitude, latitude, radiusMeters);
-      }
+    // 网络来源都不可用时，有本地数据就用本地数据
+    const local = await localPromise;
+    if (local.length > 0) {
+      return trace.finish(local, PoiSource.LOCAL, false, 0);
+    }
 
-      const toilets: ToiletPoi[] = items.map((el: any) => {
-        const name = el?.name ?? el?.poi?.name ?? '公共厕所';
-        const address = el?.formatAddress ?? el?.address ?? '';
-        const lat = el?.location?.lat ?? el?.location?.latitude ?? el?.lat;
-        const lon = el?.location?.lng ?? el?.location?.longitude ?? el?.lon;
-        const id = String(el?.siteId ?? el?.id ?? `${lat},${lon}`);
-        const distance = Math.round(haversine(latitude, longitude, lat, lon));
-        const site: Site = {
-          id,
-          name,
-          address,
-          location: { latitude: lat, longitude: lon }
-        };
-        return { ...site, distance };
-      })
-        .filter(t => Number.isFinite(t.distance) && t.distance <= radiusMeters)
-        .sort((a, b) => a.distance - b.distance);
+    // 使用Mock数据作为后备方案（结果会被标记为 mock，界面需明确提示）
+    const mock = await this.getMockToiletData(longitude, latitude, radiusMeters, token);
+    return trace.finish(mock, PoiSource.MOCK, true);
+  }
 
-      return toilets;
-    } catch (error) {
-      // 抛出错误交由上层使用 Mock 兜底
-      console.warn('Site search failed, fallback to Overpass:', error);
-      return await this.searchWithHuaweiMapKit(longitude, latitude, radiusMeters);
+  // 并行查询 Site Kit、Overpass 与本地数据，合并去重；全部失败时才使用 Mock 兜底
+  private async searchAggregated(longitude: number, latitude: number, radiusMeters: number,
+    token?: CancellationToken): Promise<SearchResult> {
+    const trace = new SearchTrace();
+    const sources: string[] = [PoiSource.SITE_KIT, PoiSource.OVERPASS, PoiSource.LOCAL];
+    const settled = await Promise.allSettled([
+      trace.run(PoiSource.SITE_KIT, () => this.querySiteKit(longitude, latitude, radiusMeters, token)),
+      trace.run(PoiSource.OVERPASS, () => this.searchWithHuaweiMapKit(longitude, latitude, radiusMeters, token)),
+      trace.run(PoiSource.LOCAL, () => this.queryLocal(longitude, latitude, radiusMeters))
+    ]);
+    token?.throwIfCancelled();
+
+    const responses: ProviderResponse[] = [];
+    // 合并结果只在各成功来源都完整检索过的半径内完整
+    let complete = radiusMeters;
+    settled.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        responses.push({ source: sources[i], pois: result.value });
+        complete = Math.min(complete, sourceCompleteRadius(sources[i], radiusMeters, result.value.length));
+      } else {
+        console.warn(`Aggregate source ${sources[i]} failed:`, result.reason);
+      }
+    });
+
+    if (responses.length === 0) {
+      console.warn('所有数据源均不可用，使用模拟数据');
+      const mock = await this.getMockToiletData(longitude, latitude, radiusMeters, token);
+      return trace.finish(mock, PoiSource.MOCK, true);
     }
+    return trace.finish(mergeProviderResults(responses), 'aggregate', false, complete);
   }
 
-  private async searchWithHuaweiMapKit(longitude: number, latitude: number, radiusMeters: number): Promise<ToiletPoi[]> {
-    // 方案B：使用 Overpass API 获取附近公厕的真实数据
-    try {
-      const httpRequest = http.createHttp();
+  // 仅查询 Site Kit，不做回退；模块不可用时抛错
+  private async querySiteKit(longitude: number, latitude: number, radiusMeters: number,
+    token?: CancellationToken): Promise<ToiletPoi[]> {
+    // 半径限制，避免过大导致性能问题
+    const radius = Math.min(Math.max(radiusMeters, 50), SITE_KIT_MAX_RADIUS_M);
+    const keyword = '厕所|卫生间|公厕';
+    // 国内站点检索使用 GCJ-02，请求与距离计算都在 GCJ-02 下进行，返回前再统一转换
+    const center = wgs84ToGcj02(latitude, longitude);
 
-      // 限制半径避免过大查询导致性能问题
-      const radius = Math.min(Math.max(radiusMeters, 50), 3000);
-      const query = `[out:json][timeout:25];\n`
-        + `node(around:${radius},${latitude},${longitude})["amenity"="toilets"];\n`
-        + `out;`;
-
-      const url = 'https://overpass-api.de/api/interpreter';
-      const res = await httpRequest.request(url, {
-        method: http.RequestMethod.POST,
-        header: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        extraData: `data=${encodeURIComponent(query)}`,
-        readTimeout: 15000,
-        connectTimeout: 10000
-      });
+    // 通过 MapKit 的 site 模块进行站点检索
+    const anyMap: any = map as any;
+    const siteModule = anyMap?.site ?? anyMap; // 兼容不同导出形式
+    if (!siteModule) {
+      throw new Error('MapKit site module not available');
+    }
 
-      if (res.responseCode !== 200) {
-        throw new Error(`Overpass error: ${res.responseCode}`);
-      }
+    // 站点服务实例与附近检索请求（使用关键词）
+    const service = new siteModule.SearchService();
+    const request = {
+      query: '厕所|卫生间|公厕', // 主关键词，支持常见同义词
+      // 允许同义词匹配（如 SDK 支持正则/模糊时）
+      // 位置与半径
+      location: { latitude: center.lat, longitude: center.lng },
+      radius: radius,
+      pageIndex: 1,
+      pageSize: SITE_KIT_PAGE_SIZE
+    };
+
+    // 优先尝试附近检索；如 SDK 需不同方法名，使用 any 访问避免编译失败
+    // 站点检索无法中断，取消后直接丢弃迟到的结果
+    const resp = await raceCancellation<any>(
+      service.nearbySearch ? service.nearbySearch(request) : service.textSearch?.(request), token);
+    const items: any[] = Array.isArray(resp?.sites) ? resp.sites : (Array.isArray(resp?.results) ? resp.results : []);
+    if (!items || items.length === 0) {
+      return [];
+    }
 
-      const data = JSON.parse(res.result as string);
-      const elements: Array<any> = Array.isArray(data?.elements) ? data.elements : [];
-
-      const toRad = (x: number) => x * Math.PI / 180;
-      const haversine = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-        const R = 6371000;
-        const dLat = toRad(lat2 - lat1);
-        const dLon = toRad(lon2 - lon1);
-        const a = Math.sin(dLat / 2) ** 2 +
-          Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-          Math.sin(dLon / 2) ** 2;
-        return 2 * R * Math.asin(Math.sqrt(a));
+    const toilets: ToiletPoi[] = items.map((el: any) => {
+      const name = el?.name ?? el?.poi?.name ?? '公共厕所';
+      const address = el?.formatAddress ?? el?.address ?? '';
+      const lat = el?.location?.lat ?? el?.location?.latitude ?? el?.lat;
+      const lon = el?.location?.lng ?? el?.location?.longitude ?? el?.lon;
+      const id = String(el?.siteId ?? el?.id ?? `${lat},${lon}`);
+      const distance = Math.round(haversineMeters(center.lat, center.lng, lat, lon));
+      const site: Site = {
+        id,
+        name,
+        address,
+        location: { latitude: lat, longitude: lon }
       };
+      const sources: string[] = [PoiSource.SITE_KIT];
+      return { ...site, distance, sources, datum: CoordSystem.GCJ02 as string };
+    })
+      .filter(t => Number.isFinite(t.distance) && t.distance <= radiusMeters)
+      .sort((a, b) => a.distance - b.distance);
 
-      const toilets: ToiletPoi[] = elements.map((el) => {
-        const name = el.tags?.name || '公共厕所';
-        const address = el.tags?.addr_full || el.tags?.addr_street || '';
-        const lat = el.lat;
-        const lon = el.lon;
-        const distance = Math.round(haversine(latitude, longitude, lat, lon));
-        const site: Site = {
-          id: String(el.id),
-          name,
-          address,
-          location: { latitude: lat, longitude: lon }
-        };
-        return { ...site, distance };
-      })
-        .filter(t => Number.isFinite(t.distance) && t.distance <= radiusMeters)
-        .sort((a, b) => a.distance - b.distance);
+    return normalizePoiDatum(toilets);
+  }
 
-      httpRequest.destroy();
-      return toilets;
+  // 本地数据（空间索引检索半径内全部结果，距离已由索引填充）
+  private async queryLocal(longitude: number, latitude: number, radiusMeters: number): Promise<ToiletPoi[]> {
+    const nearby = await this.localProvider.searchWithinRadius({ lat: latitude, lng: longitude }, radiusMeters);
+    return nearby.map(fromLocalPoi);
+  }
+
+  private async searchWithHuaweiMapKit(longitude: number, latitude: number, radiusMeters: number,
+    token?: CancellationToken): Promise<ToiletPoi[]> {
+    // 方案B：使用 Overpass API 获取附近公厕的真实数据（镜像轮换由 OverpassClient 负责）
+    try {
+      // 限制半径避免过大查询导致性能问题
+      const radius = Math.min(Math.max(radiusMeters, 50), OVERPASS_MAX_RADIUS_M);
+      const raw = await this.overpass.query(buildOverpassQuery(latitude, longitude, radius), token);
+      return parseOverpassResponse(raw, latitude, longitude, radiusMeters);
     } catch (error) {
       console.error('Overpass search failed:', error);
       // 抛出错误以便上层使用 Mock 数据兜底
@@ -152,7 +196,8 @@ export class HuaweiMapService implements MapService {
     }
   }
 
-  private async getMockToiletData(longitude: number, latitude: number, radiusMeters: number): Promise<ToiletPoi[]> {
+  private async getMockToiletData(longitude: number, latitude: number, radiusMeters: number,
+    token?: CancellationToken): Promise<ToiletPoi[]> {
     // 增强的Mock数据，更真实的公厕信息
     const mockResults: ToiletPoi[] = [
       {
@@ -238,13 +283,39 @@ export class HuaweiMapService implements MapService {
     ];
     
     // 模拟网络延迟
-    await new Promise(resolve => setTimeout(resolve, 800));
+    await delay(800, token);
     
     // 根据半径过滤结果并按距离排序
     const filteredResults = mockResults
+      .map(toilet => {
+        const sources: string[] = [PoiSource.MOCK];
+        return { ...toilet, sources, datum: CANONICAL_DATUM };
+      })
       .filter(toilet => toilet.distance <= radiusMeters)
       .sort((a, b) => a.distance - b.distance);
     
     return filteredResults;
   }
-}
\ No newline at end of file
+}
+
+// 单个来源完整检索的半径
+function sourceCompleteRadius(source: string, radiusMeters: number, resultCount: number): number {
+  switch (source) {
+    case PoiSource.SITE_KIT:
+      return completeRadius(radiusMeters, SITE_KIT_MAX_RADIUS_M, resultCount, SITE_KIT_PAGE_SIZE);
+    case PoiSource.OVERPASS:
+      return Math.min(radiusMeters, OVERPASS_MAX_RADIUS_M);
+    default:
+      return radiusMeters;
+  }
+}
+
+// 网络结果并入本地数据，同一地点只保留一条；有本地结果时来源记为多源合并
+function finishWithLocal(trace: SearchTrace, pois: ToiletPoi[], source: string, local: ToiletPoi[],
+  completeRadiusM: number): SearchResult {
+  if (local.length === 0) {
+    return trace.finish(pois, source, false, completeRadiusM);
+  }
+  const merged = mergeProviderResults([{ source, pois }, { source: PoiSource.LOCAL, pois: local }]);
+  return trace.finish(merged, 'aggregate', false, completeRadiusM);
+}
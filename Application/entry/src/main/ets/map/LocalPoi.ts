@@ -0,0 +1,27 @@
+import { ToiletPoi, Site, PoiSource } from './MapService';
+import { ToiletPoi as LocalToiletPoi } from '../common/types';
+import { CANONICAL_DATUM } from './PoiDatum';
+
+/**
+ * 本地数据集记录转换为检索结果（本地数据均为 WGS-84）
+ */
+export function fromLocalPoi(t: LocalToiletPoi): ToiletPoi {
+  const site: Site = {
+    id: t.id,
+    name: t.name,
+    address: t.address ?? '',
+    location: { latitude: t.lat, longitude: t.lng }
+  };
+  const sources: string[] = [PoiSource.LOCAL];
+  return {
+    ...site,
+    distance: t.distance ?? 0,
+    openingHours: t.openHours,
+    sources,
+    datum: CANONICAL_DATUM,
+    fee: t.fee,
+    wheelchair: t.wheelchair,
+    changingTable: t.changingTable,
+    attributes: t.attributes
+  };
+}
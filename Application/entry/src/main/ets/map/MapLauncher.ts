@@ -1,19 +1,58 @@
-import { bundleManager, OpenLinkOptions } from '@kit.AbilityKit';
+import { OpenLinkOptions } from '@kit.AbilityKit';
 import type { common } from '@kit.AbilityKit';
-import SearchLogStore, { SearchLogInfo } from '../common/SearchLogStore';
+import { logEvent } from '../common/EventLogStore';
+import { EventKind, EventSeverity } from '../common/eventLog';
 import type { ToiletPoi } from './MapService';
 import AppStorage from '../common/AppStorage';
+import { DEFAULT_TARGET_ID, LaunchCandidate, NAVIGATION_TARGETS, NavMode, planLaunch } from './NavigationTargets';
+
+export enum LaunchOutcome {
+  OPENED = 'opened',           // 已打开
+  UNAVAILABLE = 'unavailable', // 系统表示无法处理该链接
+  FAILED = 'failed'            // 尝试打开时出错
+}
+
+export interface LaunchAttempt {
+  targetId: string;
+  uri: string;
+  outcome: string;             // LaunchOutcome
+}
+
+// 调起导航的结果：opened 为 false 时 targetId/uri 为空
+export interface LaunchResult {
+  opened: boolean;
+  targetId: string;
+  uri: string;
+  mode: string;
+  attempts: LaunchAttempt[];
+}
 
 export class MapLauncher {
   private static readonly TAG = 'MapLauncher';
 
-  /** 读取当前设置的地图引擎 */
-  static async getSelectedEngine(): Promise<string> {
+  /** 读取设置中的导航 App */
+  static async getSelectedTarget(): Promise<string> {
     try {
-      return await AppStorage.getInstance().getMapEngine();
+      return await AppStorage.getInstance().getNavigationApp();
     } catch {
-      return 'huawei';
+      return DEFAULT_TARGET_ID;
+    }
+  }
+
+  /**
+   * 检测已安装的导航 App（网页兜底总是可用）；系统不支持检测时返回 null
+   */
+  static async detectInstalledTargets(ctx: common.UIAbilityContext): Promise<string[] | null> {
+    if (typeof (ctx as any).canOpenLink !== 'function') {
+      return null;
+    }
+    const installed: string[] = [];
+    for (const target of NAVIGATION_TARGETS) {
+      if (!target.probeUri || await MapLauncher.canOpen(ctx, target.probeUri)) {
+        installed.push(target.id);
+      }
     }
+    return installed;
   }
 
   /** 统一的 canOpen + openLink（强制带 OpenLinkOptions） */
@@ -56,81 +95,76 @@ export class MapLauncher {
     }
   }
 
-  private static async tryOpen(ctx: common.UIAbilityContext, uri: string): Promise<boolean> {
-    if (typeof uri !== 'string' || uri.length === 0) return false;
+  private static async tryOpen(ctx: common.UIAbilityContext, uri: string): Promise<string> {
+    if (typeof uri !== 'string' || uri.length === 0) return LaunchOutcome.UNAVAILABLE;
     // 先探测（如果支持）
     const probe = await MapLauncher.canOpen(ctx, uri);
     if (!probe) {
       console.info(`[${MapLauncher.TAG}] canOpenLink=false, skip ${uri}`);
-      return false;
+      return LaunchOutcome.UNAVAILABLE;
     }
     // 先 startAbility（对自定义 scheme 成功率更高），失败再 openLink
-    if (await MapLauncher.openViaStartAbility(ctx, uri)) return true;
-    if (await MapLauncher.openViaLink(ctx, uri)) return true;
-    return false;
+    if (await MapLauncher.openViaStartAbility(ctx, uri)) return LaunchOutcome.OPENED;
+    if (await MapLauncher.openViaLink(ctx, uri)) return LaunchOutcome.OPENED;
+    return LaunchOutcome.FAILED;
   }
 
-  /** 打开导航到指定厕所 */
+  /**
+   * 打开导航到指定厕所：依次尝试设置中的导航 App 与网页兜底，返回实际打开的链接与每次尝试的结果
+   */
   static async openNavigation(
     context: common.UIAbilityContext,
     toilet: ToiletPoi,
-    travelMode: 'walking' | 'cycling' = 'walking'
-  ): Promise<void> {
-    const engine = await MapLauncher.getSelectedEngine();
-    const { latitude, longitude } = toilet.location;
-    const name = encodeURIComponent(toilet.name);
-
-    console.info(`[${MapLauncher.TAG}] engine=${engine} name=${toilet.name} lat=${latitude} lon=${longitude} mode=${travelMode}`);
-
-    // 尽量覆盖 Petal/MapApp 不同版本参数；以及最终的 geo/https 兜底
-    const petalModeA = travelMode === 'walking' ? 'walking' : 'cycling'; // 有些版本接受全词
-    const petalModeB = travelMode === 'walking' ? 'walk' : 'bike';       // 有些版本接受简写
-    const mapAppMode = travelMode === 'walking' ? 'walk' : 'cycle';      // 官方示例里出现的取值（如 drive/walk/cycle）:contentReference[oaicite:3]{index=3}
+    mode: string = NavMode.WALK
+  ): Promise<LaunchResult> {
+    const preferred = await MapLauncher.getSelectedTarget();
+    const installed = await MapLauncher.detectInstalledTargets(context);
+    const candidates: LaunchCandidate[] = planLaunch(preferred, installed, toilet, mode);
+    console.info(`[${MapLauncher.TAG}] target=${preferred} name=${toilet.name} mode=${mode} candidates=${candidates.length}`);
 
-    const candidates: string[] = [];
-
-    if (engine === 'amap') {
-      candidates.push(`amapuri://route/plan/?dlat=${latitude}&dlon=${longitude}&dname=${name}&dev=0&t=${travelMode === 'walking' ? 2 : 0}`);
-    } else if (engine === 'baidu') {
-      candidates.push(
-        `baidumap://map/direction?destination=latlng:${latitude},${longitude}|name:${name}&coord_type=wgs84&mode=${travelMode === 'walking' ? 'walking' : 'riding'}`
-      );
-    } else {
-      // Huawei 优先：Petal/MapApp 多方案
-      candidates.push(
-        // Petal 官方常见 routePlan
-        `petalmaps://routePlan?destLat=${latitude}&destLng=${longitude}&destName=${name}&navType=${petalModeA}`,
-        `petalmaps://routePlan?destLat=${latitude}&destLng=${longitude}&destName=${name}&navType=${petalModeB}`,
-        // 旧/替代 navigation 写法
-        `petalmaps://navigation?dlat=${latitude}&dlon=${longitude}&dname=${name}&type=${petalModeB}`,
-        // 官方答复里给过的 MapApp Deep Link（Android/Harmony 设备大多可识别）
-        `mapapp://navigation?daddr=${latitude},${longitude}&language=zh&type=${mapAppMode}`  // :contentReference[oaicite:4]{index=4}
-      );
+    const result: LaunchResult = { opened: false, targetId: '', uri: '', mode, attempts: [] };
+    for (const candidate of candidates) {
+      console.info(`[${MapLauncher.TAG}] try open ${candidate.uri}`);
+      const outcome = await MapLauncher.tryOpen(context, candidate.uri);
+      result.attempts.push({ targetId: candidate.targetId, uri: candidate.uri, outcome });
+      if (outcome === LaunchOutcome.OPENED) {
+        result.opened = true;
+        result.targetId = candidate.targetId;
+        result.uri = candidate.uri;
+        break;
+      }
     }
 
-    // 通用兜底
-    const geo = `geo:${latitude},${longitude}?q=${name}`;
-    const httpsFallback = `https://petalmaps.com/?q=${latitude},${longitude}`; // 浏览器打开也可让用户再跳 App
-
-    // geo、https 放到最后兜底
-    candidates.push(geo, httpsFallback);
-
-    try {
-      for (const uri of candidates) {
-        console.info(`[${MapLauncher.TAG}] try open ${uri}`);
-        if (await MapLauncher.tryOpen(context, uri)) return;
-      }
-      throw new Error('all navigation attempts failed');
-    } catch (err) {
-      console.error(`[${MapLauncher.TAG}] navigation failed err=${JSON.stringify(err)}`);
-      try {
-        await SearchLogStore.init(context);
-        const info: SearchLogInfo = { centerLatitude: latitude, centerLongitude: longitude };
-        const msg = `导航失败: ${(err as any)?.message || 'Unknown error'} | engine=${engine}`;
-        await SearchLogStore.getInstance().appendError(msg, info);
-      } catch {}
-      throw err;
+    if (result.opened) {
+      logEvent({
+        kind: EventKind.NAVIGATION,
+        severity: EventSeverity.INFO,
+        message: '已调起导航',
+        payload: {
+          preferred,
+          target: result.targetId,
+          mode,
+          uri: result.uri,
+          attempts: result.attempts.length,
+          fallback: result.targetId !== preferred
+        }
+      });
+    } else {
+      console.error(`[${MapLauncher.TAG}] navigation failed, attempts=${JSON.stringify(result.attempts)}`);
+      logEvent({
+        kind: EventKind.NAVIGATION,
+        severity: EventSeverity.ERROR,
+        message: '导航失败: 所有链接均无法打开',
+        payload: {
+          latitude: toilet.location.latitude,
+          longitude: toilet.location.longitude,
+          preferred,
+          mode,
+          attempts: result.attempts.map(a => `${a.targetId}:${a.outcome}`).join(',')
+        }
+      });
     }
+    return result;
   }
 }
 
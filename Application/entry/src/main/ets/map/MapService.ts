@@ -1,3 +1,5 @@
+import type { CancellationToken } from '../common/cancellation';
+
 // Define Site interface based on HarmonyOS MapKit structure
 export interface Site {
   id: string;
@@ -9,10 +11,103 @@ export interface Site {
   };
 }
 
+// 结果来源标识
+export enum PoiSource {
+  SITE_KIT = 'site_kit',
+  OVERPASS = 'overpass',
+  LOCAL = 'local',
+  AMAP = 'amap',
+  BAIDU = 'baidu',
+  CACHE = 'cache',
+  FAVORITE = 'favorite',
+  CLOUD = 'cloud',
+  CURATED = 'curated',
+  COMMUNITY = 'community',
+  MOCK = 'mock'
+}
+
 export type ToiletPoi = Site & {
   distance: number;
+  openingHours?: string; // OSM opening_hours 原文，如 "Mo-Fr 08:00-18:00; PH off"
+  sources?: string[];    // 报告该公厕的数据源（PoiSource），多源合并时可能有多个
+  datum?: string;        // 坐标所属坐标系（CoordSystem）；各数据源返回前统一为 WGS-84
+  fee?: boolean;         // 是否收费（OSM fee）
+  wheelchair?: string;   // 无障碍情况（WheelchairAccess）
+  changingTable?: boolean; // 是否有婴儿护理台（OSM changing_table）
+  host?: string;         // 附设公厕的场所类型（ToiletHost），独立公厕为空
+  attributes?: Record<string, string>; // 导入数据集中的其他字段
+  favorite?: boolean;    // 已收藏（由收藏叠加设置，不来自数据源）
+  rating?: number;       // 社区综合评分 1~5（由评价服务叠加）
+  reviewCount?: number;  // 社区评价条数
+  updatedAt?: number;    // 数据最近更新时间（毫秒），数据源未提供时为空
+  ranking?: PoiRanking;  // 综合排序得分与说明（由排序模块设置）
+  route?: RouteEstimate; // 路程与用时估算（由路径规划模块设置）
+}
+
+// 单个排序因素的得分
+export interface RankingFactorScore {
+  factor: string;        // RankingFactor
+  weight: number;        // 生效的权重，0 表示未参与排序
+  score: number;         // 0~1，越高越靠前
+  note: string;          // 简短说明，如 "5分钟后关门"
+}
+
+// 综合排序结果
+export interface PoiRanking {
+  score: number;         // 加权平均得分 0~1
+  factors: RankingFactorScore[];
+  summary: string;       // 卡片上展示的说明，如 "排名靠后：5分钟后关门"；无明显原因时为空
+}
+
+// 到达公厕的路程估算
+export interface RouteEstimate {
+  distanceM: number;     // 路程（米）
+  minutes: number;       // 预计用时（分钟，向上取整）
+  travelMode: string;    // 估算时的出行方式（TravelMode）
+  method: string;        // RouteMethod：路网最短路径或直线距离乘绕行系数
 }
 
+// 无障碍程度，与 OSM wheelchair 取值一致
+export enum WheelchairAccess {
+  YES = 'yes',
+  LIMITED = 'limited',
+  NO = 'no'
+}
+
+// 附设公厕的场所类型（OSM 上以 toilets=yes 标注在场所本身）
+export enum ToiletHost {
+  MALL = 'mall',
+  STATION = 'station',
+  FUEL = 'fuel'
+}
+
+// 单个数据源的一次尝试记录
+export interface SourceAttempt {
+  source: string;       // PoiSource 或服务名
+  ok: boolean;
+  durationMs: number;
+  resultCount?: number;
+  error?: string;
+}
+
+// 检索结果信封：除结果外还携带来源、耗时与降级信息
+export interface SearchResult {
+  pois: ToiletPoi[];
+  source: string;            // 最终采用的数据源；多源合并时为 'aggregate'
+  attempts: SourceAttempt[]; // 按发起顺序记录的每次尝试
+  errors: string[];          // 过程中遇到的错误信息
+  degraded: boolean;         // 有数据源失败，结果可能不完整
+  mock: boolean;             // 结果为模拟数据，并非真实公厕
+  completeRadiusM?: number;  // 结果在此半径内完整（受数据源半径上限与分页限制，被分页截断时为 0）；为空时即请求半径
+}
+
+// 后台刷新完成后的通知（先返回缓存、随后拿到新结果时触发）
+export type SearchUpdateListener = (result: SearchResult) => void;
+
 export interface MapService {
-  searchNearbyToilets(longitude: number, latitude: number, radiusMeters?: number): Promise<ToiletPoi[]>;
+  readonly name: string;
+  // token 取消后应尽快以 CancelledError 结束，不再回退到其他数据源
+  searchNearbyToilets(longitude: number, latitude: number, radiusMeters?: number,
+    token?: CancellationToken): Promise<SearchResult>;
+  setUpdateListener?(listener: SearchUpdateListener | null): void;
 }
\ No newline at end of file
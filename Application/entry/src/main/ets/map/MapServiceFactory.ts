@@ -1,8 +1,42 @@
-import { HuaweiMapService } from './HuaweiMapService';
+import { HuaweiMapService, SearchMode } from './HuaweiMapService';
+import { AmapMapService } from './AmapMapService';
+import { BaiduMapService } from './BaiduMapService';
+import { FallbackMapService } from './FallbackMapService';
+import { CachingMapService } from './CachingMapService';
+import { MergedMapService } from './MergedMapService';
+import { CloudSearchMapService } from './CloudSearchMapService';
 import { MapService } from './MapService';
+import AppStorage from '../common/AppStorage';
+import { MAP_ENGINE_FALLBACK_CHAIN } from '../common/config';
 
 export class MapServiceFactory {
   public static async createMapService(): Promise<MapService> {
-    return new HuaweiMapService();
+    let engine = 'huawei';
+    let mode: SearchMode = 'fallback';
+    try {
+      const storage = AppStorage.getInstance();
+      engine = await storage.getMapEngine();
+      mode = (await storage.getSearchMode()) === 'aggregate' ? 'aggregate' : 'fallback';
+    } catch (_) {
+      // AppStorage 未初始化时使用默认引擎与模式
+    }
+
+    const chain = MAP_ENGINE_FALLBACK_CHAIN[engine] ?? MAP_ENGINE_FALLBACK_CHAIN['huawei'];
+    const services = chain.map(name => MapServiceFactory.createByEngine(name, mode));
+    const service = services.length === 1 ? services[0] : new FallbackMapService(services);
+    // 云端公厕（运营导入与用户补充）与主数据源并行检索后合并，一起写入离线缓存
+    return new CachingMapService(new MergedMapService(service, new CloudSearchMapService()));
+  }
+
+  // 根据引擎名创建单个检索服务
+  public static createByEngine(engine: string, mode: SearchMode = 'fallback'): MapService {
+    switch (engine) {
+      case 'amap':
+        return new AmapMapService();
+      case 'baidu':
+        return new BaiduMapService();
+      default:
+        return new HuaweiMapService(mode);
+    }
   }
-}
\ No newline at end of file
+}
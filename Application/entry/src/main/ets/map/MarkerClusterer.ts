@@ -0,0 +1,151 @@
+/**
+ * 地图标记聚合
+ * 按当前缩放级别把坐标投影到 Web 墨卡托像素平面，用网格加速的贪心合并：
+ * 依次处理各点，落在已有聚合种子点半径内的并入最近的聚合，否则自成新聚合
+ * 输入顺序决定种子点（通常传入排序后的结果，靠前的公厕优先成为聚合中心），同样的输入总得到同样的聚合
+ */
+
+import { CLUSTER_MAX_ZOOM, CLUSTER_RADIUS_PX } from '../common/config';
+import { ToiletPoi } from './MapService';
+import { poiLocationIn } from './PoiDatum';
+
+// 缩放级别 0 时整个世界的像素宽度
+const TILE_SIZE = 256;
+// 墨卡托投影的纬度上限
+const MAX_LATITUDE = 85.05112878;
+
+export interface ClusterPoint {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+export interface MarkerCluster {
+  id: string;       // 单个点时为该点 ID；聚合时以 "cluster:" 加种子点 ID
+  lat: number;      // 成员坐标的平均值
+  lng: number;
+  ids: string[];    // 成员 ID，第一个为种子点
+}
+
+export interface ClusterOptions {
+  radiusPx: number;
+  maxZoom: number;  // 达到该级别后不再聚合
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  radiusPx: CLUSTER_RADIUS_PX,
+  maxZoom: CLUSTER_MAX_ZOOM
+};
+
+interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+interface Bucket {
+  seed: PixelPoint;
+  members: ClusterPoint[];
+}
+
+/**
+ * 经纬度在指定缩放级别下的世界像素坐标
+ */
+export function projectToPixels(lat: number, lng: number, zoom: number): PixelPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin(clamped * Math.PI / 180);
+  return {
+    x: (lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  };
+}
+
+/**
+ * 公厕在地图坐标系下的聚合输入，顺序与传入一致
+ */
+export function toClusterPoints(pois: ToiletPoi[], datum: string): ClusterPoint[] {
+  return pois.map(poi => {
+    const p = poiLocationIn(poi, datum);
+    return { id: poi.id, lat: p.lat, lng: p.lng };
+  });
+}
+
+/**
+ * 按缩放级别聚合（小数级别向下取整，避免缩放过程中频繁变化）
+ */
+export function clusterPoints(points: ClusterPoint[], zoom: number,
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS): MarkerCluster[] {
+  const level = Math.floor(zoom);
+  if (level >= options.maxZoom) {
+    return points.map(p => toCluster([p]));
+  }
+  const size = options.radiusPx;
+  const grid = new Map<string, Bucket[]>();
+  const buckets: Bucket[] = [];
+  for (const point of points) {
+    const pixel = projectToPixels(point.lat, point.lng, level);
+    const cx = Math.floor(pixel.x / size);
+    const cy = Math.floor(pixel.y / size);
+    let nearest: Bucket | null = null;
+    let nearestDist = Infinity;
+    // 种子点半径内的点只可能落在相邻的九个格子里
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const bucket of grid.get(`${cx + dx}:${cy + dy}`) ?? []) {
+          const dist = Math.hypot(bucket.seed.x - pixel.x, bucket.seed.y - pixel.y);
+          if (dist <= size && dist < nearestDist) {
+            nearest = bucket;
+            nearestDist = dist;
+          }
+        }
+      }
+    }
+    if (nearest) {
+      nearest.members.push(point);
+      continue;
+    }
+    const bucket: Bucket = { seed: pixel, members: [point] };
+    buckets.push(bucket);
+    const key = `${cx}:${cy}`;
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(bucket);
+    } else {
+      grid.set(key, [bucket]);
+    }
+  }
+  return buckets.map(b => toCluster(b.members));
+}
+
+/**
+ * 点击聚合时放大到的级别：聚合第一次拆开的级别，最多到 maxZoom
+ */
+export function expansionZoom(cluster: MarkerCluster, points: ClusterPoint[], zoom: number,
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS): number {
+  const members = points.filter(p => cluster.ids.indexOf(p.id) >= 0);
+  for (let level = Math.floor(zoom) + 1; level < options.maxZoom; level++) {
+    if (clusterPoints(members, level, options).length > 1) {
+      return level;
+    }
+  }
+  return options.maxZoom;
+}
+
+function toCluster(members: ClusterPoint[]): MarkerCluster {
+  if (members.length === 1) {
+    const p = members[0];
+    return { id: p.id, lat: p.lat, lng: p.lng, ids: [p.id] };
+  }
+  let lat = 0;
+  let lng = 0;
+  for (const p of members) {
+    lat += p.lat;
+    lng += p.lng;
+  }
+  return {
+    id: `cluster:${members[0].id}`,
+    lat: lat / members.length,
+    lng: lng / members.length,
+    ids: members.map(p => p.id)
+  };
+}
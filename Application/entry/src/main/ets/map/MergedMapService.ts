@@ -0,0 +1,81 @@
+import { MapService, SearchResult, ToiletPoi } from './MapService';
+import { minCompleteRadius, SearchTrace } from './SearchTrace';
+import { isSamePlace } from './ResultAggregator';
+import { CancellationToken, isCancelledError } from '../common/cancellation';
+
+/**
+ * 在主检索服务的结果上补充云端数据
+ * 两者并行检索，与主结果重复的补充数据只追加来源标记；补充服务失败不影响主结果，
+ * 主服务失败或只有模拟数据时，有补充结果就直接使用补充结果
+ */
+export class MergedMapService implements MapService {
+  public readonly name: string;
+  private primary: MapService;
+  private supplement: MapService;
+
+  constructor(primary: MapService, supplement: MapService) {
+    this.primary = primary;
+    this.supplement = supplement;
+    this.name = primary.name;
+  }
+
+  public async searchNearbyToilets(longitude: number, latitude: number, radiusMeters?: number,
+    token?: CancellationToken): Promise<SearchResult> {
+    const trace = new SearchTrace();
+    let supplementResult: SearchResult | null = null;
+    const extraPromise = this.supplement.searchNearbyToilets(longitude, latitude, radiusMeters, token)
+      .then((result: SearchResult) => {
+        trace.absorb(result);
+        supplementResult = result;
+        return result.pois;
+      })
+      .catch((error: Error): ToiletPoi[] => {
+        if (isCancelledError(error)) throw error;
+        console.warn('Supplementary map service failed:', error);
+        trace.recordFailure(this.supplement.name, error, 0);
+        return [];
+      });
+
+    let primary: SearchResult;
+    try {
+      primary = await this.primary.searchNearbyToilets(longitude, latitude, radiusMeters, token);
+    } catch (error) {
+      const extra = await extraPromise.catch((): ToiletPoi[] => []);
+      if (isCancelledError(error) || extra.length === 0) throw error as Error;
+      trace.recordFailure(this.primary.name, error as Error, 0);
+      return trace.finish(extra, this.supplement.name, false, minCompleteRadius([supplementResult]));
+    }
+    const extra = await extraPromise;
+    trace.absorb(primary);
+    const complete = minCompleteRadius([primary, supplementResult]);
+    if (extra.length === 0) {
+      return trace.finish(primary.pois, primary.source, primary.mock, complete);
+    }
+    if (primary.mock) {
+      return trace.finish(extra, this.supplement.name, false, minCompleteRadius([supplementResult]));
+    }
+    return trace.finish(mergeSupplement(primary.pois, extra), 'aggregate', false, complete);
+  }
+}
+
+/**
+ * 合并补充结果：与主结果为同一地点的只追加来源标记，其余按距离插入
+ * 主结果保留各自的来源列表（主服务本身可能已是多源合并）
+ */
+export function mergeSupplement(primary: ToiletPoi[], extra: ToiletPoi[]): ToiletPoi[] {
+  const result: ToiletPoi[] = primary.map(p => ({ ...p }));
+  const added: ToiletPoi[] = [];
+  for (const poi of extra) {
+    const match = result.find(p => isSamePlace(p, poi));
+    if (match) {
+      const sources = match.sources ? match.sources.slice() : [];
+      for (const s of poi.sources ?? []) {
+        if (sources.indexOf(s) < 0) sources.push(s);
+      }
+      match.sources = sources;
+    } else {
+      added.push(poi);
+    }
+  }
+  return result.concat(added).sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,201 @@
+/**
+ * 导航目标注册表
+ * 每个目标声明 URI 模板（按顺序尝试）、各模板支持的出行方式及其取值、所需坐标系，以及检测是否安装用的 scheme
+ * 模板占位符：{lat} {lng} {name} {mode}；新增导航 App 只需在 NAVIGATION_TARGETS 中追加一项（并在 module.json5 的 querySchemes 中登记 scheme）
+ */
+
+import { ToiletPoi } from './MapService';
+import { CoordSystem } from '../common/coordTransform';
+import { TravelMode } from '../common/types';
+import { poiLocationIn } from './PoiDatum';
+
+export enum NavMode {
+  WALK = 'walk',
+  CYCLE = 'cycle',
+  DRIVE = 'drive',
+  TRANSIT = 'transit'
+}
+
+export interface UriTemplate {
+  pattern: string;
+  modes: Record<string, string>;  // NavMode → 模板中 {mode} 的取值；缺少的方式表示不支持
+}
+
+export interface NavigationTarget {
+  id: string;
+  label: string;
+  datum: string;        // 模板中坐标的坐标系（CoordSystem）
+  probeUri: string;     // 用于检测是否安装；为空表示总是可用（网页兜底）
+  templates: UriTemplate[];
+}
+
+export interface LaunchCandidate {
+  targetId: string;
+  uri: string;
+}
+
+// 网页兜底目标的 ID，总排在候选最后
+export const WEB_TARGET_ID = 'web';
+export const DEFAULT_TARGET_ID = 'petal';
+
+const ALL_MODES_EMPTY: Record<string, string> = {
+  [NavMode.WALK]: '', [NavMode.CYCLE]: '', [NavMode.DRIVE]: '', [NavMode.TRANSIT]: ''
+};
+
+export const NAVIGATION_TARGETS: NavigationTarget[] = [
+  {
+    id: 'petal',
+    label: '花瓣地图',
+    datum: CoordSystem.GCJ02,
+    probeUri: 'petalmaps://',
+    templates: [
+      // 不同版本接受的 navType 取值不同，依次尝试全称、简写与 MapApp 写法
+      {
+        pattern: 'petalmaps://routePlan?destLat={lat}&destLng={lng}&destName={name}&navType={mode}',
+        modes: { [NavMode.WALK]: 'walking', [NavMode.CYCLE]: 'cycling', [NavMode.DRIVE]: 'driving' }
+      },
+      {
+        pattern: 'petalmaps://routePlan?destLat={lat}&destLng={lng}&destName={name}&navType={mode}',
+        modes: { [NavMode.WALK]: 'walk', [NavMode.CYCLE]: 'bike', [NavMode.DRIVE]: 'drive' }
+      },
+      {
+        pattern: 'petalmaps://navigation?dlat={lat}&dlon={lng}&dname={name}&type={mode}',
+        modes: { [NavMode.WALK]: 'walk', [NavMode.CYCLE]: 'bike', [NavMode.DRIVE]: 'drive' }
+      },
+      {
+        pattern: 'mapapp://navigation?daddr={lat},{lng}&language=zh&type={mode}',
+        modes: { [NavMode.WALK]: 'walk', [NavMode.CYCLE]: 'cycle', [NavMode.DRIVE]: 'drive' }
+      }
+    ]
+  },
+  {
+    id: 'amap',
+    label: '高德地图',
+    datum: CoordSystem.GCJ02,
+    probeUri: 'amapuri://',
+    templates: [
+      // dev=0 表示坐标已是 GCJ-02；t：0 驾车，1 公交，2 步行，3 骑行
+      {
+        pattern: 'amapuri://route/plan/?dlat={lat}&dlon={lng}&dname={name}&dev=0&t={mode}',
+        modes: { [NavMode.DRIVE]: '0', [NavMode.TRANSIT]: '1', [NavMode.WALK]: '2', [NavMode.CYCLE]: '3' }
+      }
+    ]
+  },
+  {
+    id: 'baidu',
+    label: '百度地图',
+    datum: CoordSystem.BD09,
+    probeUri: 'baidumap://',
+    templates: [
+      {
+        pattern: 'baidumap://map/direction?destination=latlng:{lat},{lng}|name:{name}&coord_type=bd09ll&mode={mode}',
+        modes: {
+          [NavMode.WALK]: 'walking', [NavMode.CYCLE]: 'riding', [NavMode.DRIVE]: 'driving', [NavMode.TRANSIT]: 'transit'
+        }
+      }
+    ]
+  },
+  {
+    id: 'tencent',
+    label: '腾讯地图',
+    datum: CoordSystem.GCJ02,
+    probeUri: 'qqmap://',
+    templates: [
+      {
+        pattern: 'qqmap://map/routeplan?type={mode}&to={name}&tocoord={lat},{lng}&referer=findshit',
+        modes: { [NavMode.WALK]: 'walk', [NavMode.CYCLE]: 'bike', [NavMode.DRIVE]: 'drive', [NavMode.TRANSIT]: 'bus' }
+      }
+    ]
+  },
+  {
+    id: 'sogou',
+    label: '搜狗地图',
+    datum: CoordSystem.GCJ02,
+    probeUri: 'sogoumap://',
+    templates: [
+      {
+        pattern: 'sogoumap://navi?tocoord={lat},{lng}&toname={name}&type={mode}',
+        modes: { [NavMode.WALK]: 'walk', [NavMode.DRIVE]: 'drive', [NavMode.TRANSIT]: 'bus' }
+      }
+    ]
+  },
+  {
+    id: WEB_TARGET_ID,
+    label: '网页地图',
+    datum: CoordSystem.WGS84,
+    probeUri: '',
+    templates: [
+      // geo: 交给系统默认的地图应用；都不可用时用浏览器打开高德网页版
+      { pattern: 'geo:{lat},{lng}?q={name}', modes: ALL_MODES_EMPTY },
+      {
+        pattern: 'https://uri.amap.com/navigation?to={lng},{lat},{name}&mode={mode}&coordinate=wgs84&callnative=1',
+        modes: { [NavMode.WALK]: 'walk', [NavMode.CYCLE]: 'ride', [NavMode.DRIVE]: 'car', [NavMode.TRANSIT]: 'bus' }
+      }
+    ]
+  }
+];
+
+export function findTarget(id: string): NavigationTarget | undefined {
+  return NAVIGATION_TARGETS.find(t => t.id === id);
+}
+
+export function supportedModes(target: NavigationTarget): string[] {
+  const modes: string[] = [];
+  for (const template of target.templates) {
+    for (const mode of Object.keys(template.modes)) {
+      if (modes.indexOf(mode) < 0) modes.push(mode);
+    }
+  }
+  return modes;
+}
+
+/**
+ * 应用内出行方式对应的导航方式
+ */
+export function navModeOf(travelMode: string): string {
+  return travelMode === TravelMode.CYCLING ? NavMode.CYCLE : NavMode.WALK;
+}
+
+/**
+ * 按目标的坐标系与出行方式生成导航链接，不支持该方式的模板跳过
+ */
+export function buildNavigationUris(target: NavigationTarget, poi: ToiletPoi, mode: string): string[] {
+  const p = poiLocationIn(poi, target.datum);
+  const values: Record<string, string> = {
+    lat: p.lat.toFixed(6),
+    lng: p.lng.toFixed(6),
+    name: encodeURIComponent(poi.name)
+  };
+  const uris: string[] = [];
+  for (const template of target.templates) {
+    const modeValue = template.modes[mode];
+    if (modeValue === undefined) continue;
+    const uri = template.pattern.replace(/\{(\w+)\}/g, (_: string, key: string) =>
+      key === 'mode' ? modeValue : (values[key] ?? ''));
+    if (uris.indexOf(uri) < 0) uris.push(uri);
+  }
+  return uris;
+}
+
+/**
+ * 按顺序排列要尝试的链接：首选目标（已安装或无法检测时）在前，网页兜底在后
+ * installed 为 null 表示无法检测安装情况
+ */
+export function planLaunch(preferredId: string, installed: string[] | null, poi: ToiletPoi,
+  mode: string): LaunchCandidate[] {
+  const order: string[] = [];
+  const preferred = findTarget(preferredId) ?? findTarget(DEFAULT_TARGET_ID);
+  if (preferred && preferred.id !== WEB_TARGET_ID && (installed === null || installed.indexOf(preferred.id) >= 0)) {
+    order.push(preferred.id);
+  }
+  order.push(WEB_TARGET_ID);
+  const candidates: LaunchCandidate[] = [];
+  for (const id of order) {
+    const target = findTarget(id);
+    if (!target) continue;
+    for (const uri of buildNavigationUris(target, poi, mode)) {
+      candidates.push({ targetId: id, uri });
+    }
+  }
+  return candidates;
+}
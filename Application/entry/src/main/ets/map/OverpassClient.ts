@@ -0,0 +1,102 @@
+import { HttpFetcher, OhosHttpFetcher } from './HttpFetcher';
+import { CancellationToken, isCancelledError } from '../common/cancellation';
+import { OVERPASS_BACKOFF_BASE_MS, OVERPASS_BACKOFF_MAX_MS, OVERPASS_ENDPOINTS } from '../common/config';
+
+// 单个镜像的健康状态
+type EndpointState = {
+  failures: number;     // 连续失败次数
+  retryAfter: number;   // 冷却结束时间戳，之前不主动使用
+};
+
+/**
+ * Overpass 镜像轮换客户端
+ * 优先使用上次成功的镜像；失败的镜像进入指数退避冷却，期间跳过；
+ * 全部镜像都在冷却时，按冷却结束时间先后仍逐个尝试，避免直接放弃
+ */
+export class OverpassClient {
+  private static shared: OverpassClient | null = null;
+  private endpoints: string[];
+  private fetcher: HttpFetcher;
+  private now: () => number;
+  private states: Record<string, EndpointState> = {};
+  private preferred: number = 0;
+
+  constructor(endpoints: string[] = OVERPASS_ENDPOINTS, fetcher: HttpFetcher = new OhosHttpFetcher(30000, 10000),
+    now: () => number = Date.now) {
+    if (endpoints.length === 0) {
+      throw new Error('No Overpass endpoint configured');
+    }
+    this.endpoints = endpoints.slice();
+    this.fetcher = fetcher;
+    this.now = now;
+  }
+
+  // 进程内共享实例，使镜像健康状态在多次检索之间保留
+  public static getDefault(): OverpassClient {
+    if (!OverpassClient.shared) {
+      OverpassClient.shared = new OverpassClient();
+    }
+    return OverpassClient.shared;
+  }
+
+  /**
+   * 执行查询并返回原始 JSON 文本；所有镜像均失败时抛出汇总错误
+   */
+  public async query(query: string, token?: CancellationToken): Promise<string> {
+    const errors: string[] = [];
+    for (const endpoint of this.attemptOrder()) {
+      token?.throwIfCancelled();
+      try {
+        const raw = await this.fetcher.get(`${endpoint}?data=${encodeURIComponent(query)}`, token);
+        // Overpass 超时或内存不足时仍可能返回 200，但正文为错误说明
+        if (!raw.trimStart().startsWith('{')) {
+          throw new Error('unexpected response');
+        }
+        this.markSuccess(endpoint);
+        return raw;
+      } catch (error) {
+        if (isCancelledError(error)) {
+          throw error;
+        }
+        this.markFailure(endpoint);
+        errors.push(`${hostOf(endpoint)}: ${(error as Error)?.message || String(error)}`);
+        console.warn(`Overpass endpoint failed, rotating: ${endpoint}`, error);
+      }
+    }
+    throw new Error(`All Overpass endpoints failed (${errors.join('; ')})`);
+  }
+
+  // 从首选镜像开始轮换，冷却中的镜像排到最后（按冷却结束时间先后）
+  public attemptOrder(): string[] {
+    const now = this.now();
+    const rotated: string[] = [];
+    for (let i = 0; i < this.endpoints.length; i++) {
+      rotated.push(this.endpoints[(this.preferred + i) % this.endpoints.length]);
+    }
+    const ready = rotated.filter(e => this.retryAfter(e) <= now);
+    const cooling = rotated
+      .filter(e => this.retryAfter(e) > now)
+      .sort((a, b) => this.retryAfter(a) - this.retryAfter(b));
+    return ready.concat(cooling);
+  }
+
+  private retryAfter(endpoint: string): number {
+    return this.states[endpoint]?.retryAfter ?? 0;
+  }
+
+  private markSuccess(endpoint: string): void {
+    delete this.states[endpoint];
+    this.preferred = this.endpoints.indexOf(endpoint);
+  }
+
+  private markFailure(endpoint: string): void {
+    const failures = (this.states[endpoint]?.failures ?? 0) + 1;
+    const backoff = Math.min(OVERPASS_BACKOFF_BASE_MS * Math.pow(2, failures - 1), OVERPASS_BACKOFF_MAX_MS);
+    this.states[endpoint] = { failures, retryAfter: this.now() + backoff };
+  }
+}
+
+function hostOf(endpoint: string): string {
+  const match = endpoint.match(/^https?:\/\/([^/]+)/);
+  return match ? match[1] : endpoint;
+}
@@ -0,0 +1,125 @@
+/**
+ * Overpass 查询构造与响应解析
+ * 覆盖 node/way/relation（way 与 relation 使用 out center 给出的中心点），
+ * 除 amenity=toilets 外，还包括标注了 toilets=yes 的商场、车站和加油站
+ */
+
+import { ToiletPoi, Site, PoiSource, ToiletHost, WheelchairAccess } from './MapService';
+import { CoordSystem } from '../common/coordTransform';
+import { haversineMeters } from '../common/distance';
+
+// 附设公厕的场所筛选条件
+const HOST_FILTERS: Array<{ host: ToiletHost; filter: string }> = [
+  { host: ToiletHost.MALL, filter: '["shop"="mall"]' },
+  { host: ToiletHost.STATION, filter: '["railway"="station"]' },
+  { host: ToiletHost.STATION, filter: '["public_transport"="station"]' },
+  { host: ToiletHost.STATION, filter: '["amenity"="bus_station"]' },
+  { host: ToiletHost.FUEL, filter: '["amenity"="fuel"]' }
+];
+
+const HOST_LABELS: Record<string, string> = {
+  mall: '商场',
+  station: '车站',
+  fuel: '加油站'
+};
+
+/**
+ * 构造附近公厕查询（Overpass QL）
+ */
+export function buildOverpassQuery(latitude: number, longitude: number, radiusMeters: number,
+  timeoutSec: number = 25): string {
+  const around = `(around:${Math.round(radiusMeters)},${latitude.toFixed(6)},${longitude.toFixed(6)})`;
+  const statements: string[] = [`  nwr["amenity"="toilets"]${around};`];
+  for (const item of HOST_FILTERS) {
+    statements.push(`  nwr["toilets"="yes"]${item.filter}${around};`);
+  }
+  return `[out:json][timeout:${timeoutSec}];\n(\n${statements.join('\n')}\n);\nout center tags;`;
+}
+
+/**
+ * 解析 Overpass JSON 响应
+ * 不对外开放（access=private/no）的公厕会被过滤
+ */
+export function parseOverpassResponse(raw: string, latitude: number, longitude: number,
+  radiusMeters: number): ToiletPoi[] {
+  const data = JSON.parse(raw);
+  const elements: any[] = Array.isArray(data?.elements) ? data.elements : [];
+
+  return elements
+    .map((el: any): ToiletPoi | null => parseElement(el, latitude, longitude))
+    .filter((t): t is ToiletPoi => t !== null && Number.isFinite(t.distance) && t.distance <= radiusMeters)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+function parseElement(el: any, latitude: number, longitude: number): ToiletPoi | null {
+  const tags: Record<string, string> = el?.tags ?? {};
+  // node 自带坐标；way/relation 使用 out center 输出的中心点
+  const lat = Number(el?.lat ?? el?.center?.lat);
+  const lon = Number(el?.lon ?? el?.center?.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  const host = tags['amenity'] === 'toilets' ? undefined : detectHost(tags);
+  // 附设公厕优先读取 toilets:* 前缀的标签，场所本身的 wheelchair 等标签描述的是建筑而非公厕
+  const tag = (key: string): string | undefined => host ? tags[`toilets:${key}`] : tags[key];
+  const access = tag('access') ?? (host ? undefined : tags['access']);
+  if (access === 'private' || access === 'no') return null;
+
+  const site: Site = {
+    id: `osm_${el?.type ?? 'node'}_${el?.id}`,
+    name: host ? `${tags['name'] || HOST_LABELS[host]}（内设卫生间）` : (tags['name'] || '公共厕所'),
+    address: formatAddress(tags),
+    location: { latitude: lat, longitude: lon }
+  };
+  const openingHours = host ? (tags['toilets:opening_hours'] ?? tags['opening_hours']) : tags['opening_hours'];
+  const sources: string[] = [PoiSource.OVERPASS];
+  return {
+    ...site,
+    distance: Math.round(haversineMeters(latitude, longitude, lat, lon)),
+    openingHours,
+    sources,
+    // OSM 数据为 WGS-84
+    datum: CoordSystem.WGS84,
+    fee: parseYesNo(tag('fee')),
+    wheelchair: parseWheelchair(tag('wheelchair')),
+    changingTable: parseYesNo(tag('changing_table')),
+    host
+  };
+}
+
+function detectHost(tags: Record<string, string>): string | undefined {
+  if (tags['shop'] === 'mall') return ToiletHost.MALL;
+  if (tags['amenity'] === 'fuel') return ToiletHost.FUEL;
+  if (tags['railway'] === 'station' || tags['public_transport'] === 'station' || tags['amenity'] === 'bus_station') {
+    return ToiletHost.STATION;
+  }
+  return undefined;
+}
+
+function formatAddress(tags: Record<string, string>): string {
+  if (tags['addr:full']) return tags['addr:full'];
+  const street = tags['addr:street'] ?? '';
+  const number = tags['addr:housenumber'] ?? '';
+  return `${street}${number}`;
+}
+
+// yes/limited 视为有，no 视为无，其他取值（如 donation、unknown）视为未知
+function parseYesNo(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (value === 'yes' || value === 'limited') return true;
+  if (value === 'no') return false;
+  return undefined;
+}
+
+function parseWheelchair(value: string | undefined): string | undefined {
+  switch (value) {
+    case 'yes':
+    case 'designated':
+      return WheelchairAccess.YES;
+    case 'limited':
+      return WheelchairAccess.LIMITED;
+    case 'no':
+      return WheelchairAccess.NO;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * 高德 / 百度 Web 服务地点检索响应解析
+ * 与 HTTP 请求分离，便于用录制的 JSON 响应直接测试
+ * 解析结果保留数据源原始坐标系（高德 GCJ-02、百度 BD-09），由调用方统一转换
+ */
+
+import { ToiletPoi, Site, PoiSource } from './MapService';
+import { haversineMeters } from '../common/distance';
+import { CoordSystem } from '../common/coordTransform';
+
+/**
+ * 解析高德「周边搜索」响应（/v3/place/around）
+ * 坐标格式为 "lng,lat" 字符串（GCJ-02）；status 为 "1" 表示成功
+ * latitude/longitude 为请求中心，需与结果同为 GCJ-02
+ */
+export function parseAmapAroundResponse(raw: string, latitude: number, longitude: number,
+  radiusMeters: number): ToiletPoi[] {
+  const data = JSON.parse(raw);
+  if (String(data?.status) !== '1') {
+    throw new Error(`Amap error: ${data?.info ?? 'unknown'} (${data?.infocode ?? ''})`);
+  }
+  const pois: any[] = Array.isArray(data?.pois) ? data.pois : [];
+
+  return finalize(pois.map((el: any): ToiletPoi | null => {
+    const parts = typeof el?.location === 'string' ? el.location.split(',') : [];
+    const lon = Number(parts[0]);
+    const lat = Number(parts[1]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+    const site: Site = {
+      id: `amap_${el?.id ?? `${lat},${lon}`}`,
+      name: el?.name || '公共厕所',
+      // 高德在字段缺失时返回空数组而非字符串
+      address: typeof el?.address === 'string' ? el.address : '',
+      location: { latitude: lat, longitude: lon }
+    };
+    const openTime = el?.biz_ext?.open_time;
+    return {
+      ...site,
+      distance: pickDistance(el?.distance, latitude, longitude, lat, lon),
+      openingHours: typeof openTime === 'string' && openTime.length > 0 ? openTime : undefined,
+      sources: [PoiSource.AMAP],
+      datum: CoordSystem.GCJ02
+    };
+  }), radiusMeters);
+}
+
+/**
+ * 解析百度「地点检索 v2」响应（/place/v2/search，scope=2）
+ * status 为 0 表示成功；距离在 detail_info.distance 中；坐标为 BD-09
+ * latitude/longitude 为请求中心，需与结果同为 BD-09（仅在缺少距离字段时使用）
+ */
+export function parseBaiduPlaceResponse(raw: string, latitude: number, longitude: number,
+  radiusMeters: number): ToiletPoi[] {
+  const data = JSON.parse(raw);
+  if (Number(data?.status) !== 0) {
+    throw new Error(`Baidu error: ${data?.message ?? 'unknown'} (${data?.status})`);
+  }
+  const results: any[] = Array.isArray(data?.results) ? data.results : [];
+
+  return finalize(results.map((el: any): ToiletPoi | null => {
+    const lat = Number(el?.location?.lat);
+    const lon = Number(el?.location?.lng);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+    const site: Site = {
+      id: `baidu_${el?.uid ?? `${lat},${lon}`}`,
+      name: el?.name || '公共厕所',
+      address: el?.address ?? '',
+      location: { latitude: lat, longitude: lon }
+    };
+    const shopHours = el?.detail_info?.shop_hours;
+    return {
+      ...site,
+      distance: pickDistance(el?.detail_info?.distance, latitude, longitude, lat, lon),
+      openingHours: typeof shopHours === 'string' && shopHours.length > 0 ? shopHours : undefined,
+      sources: [PoiSource.BAIDU],
+      datum: CoordSystem.BD09
+    };
+  }), radiusMeters);
+}
+
+// 优先使用服务端给出的距离（与请求坐标同一坐标系），缺失时本地计算
+function pickDistance(reported: unknown, lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const d = Number(reported);
+  if (reported !== undefined && reported !== '' && Number.isFinite(d)) return Math.round(d);
+  return Math.round(haversineMeters(lat1, lon1, lat2, lon2));
+}
+
+function finalize(items: Array<ToiletPoi | null>, radiusMeters: number): ToiletPoi[] {
+  return items
+    .filter((t): t is ToiletPoi => t !== null && Number.isFinite(t.distance) && t.distance <= radiusMeters)
+    .sort((a, b) => a.distance - b.distance);
+}
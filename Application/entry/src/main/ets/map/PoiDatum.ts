@@ -0,0 +1,28 @@
+import { ToiletPoi } from './MapService';
+import { CoordSystem, LatLng, convertCoord } from '../common/coordTransform';
+
+// 应用内部统一使用的坐标系：定位结果与 OSM 数据均为 WGS-84
+export const CANONICAL_DATUM: string = CoordSystem.WGS84;
+
+/**
+ * 将数据源返回的结果统一转换为 WGS-84，并标注坐标系
+ * 距离由数据源在其自身坐标系下算出，平移偏差对距离影响可忽略，保持不变
+ */
+export function normalizePoiDatum(pois: ToiletPoi[]): ToiletPoi[] {
+  return pois.map((poi) => {
+    const from = poi.datum ?? CANONICAL_DATUM;
+    if (from === CANONICAL_DATUM) {
+      return poi.datum ? poi : { ...poi, datum: CANONICAL_DATUM };
+    }
+    const p = convertCoord(poi.location.latitude, poi.location.longitude, from, CANONICAL_DATUM);
+    return { ...poi, location: { latitude: p.lat, longitude: p.lng }, datum: CANONICAL_DATUM };
+  });
+}
+
+/**
+ * 取公厕在目标坐标系下的坐标（用于拉起第三方地图或生成分享链接）
+ * 未标注坐标系的结果视为 WGS-84
+ */
+export function poiLocationIn(poi: ToiletPoi, datum: string): LatLng {
+  return convertCoord(poi.location.latitude, poi.location.longitude, poi.datum ?? CANONICAL_DATUM, datum);
+}
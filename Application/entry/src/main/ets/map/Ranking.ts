@@ -0,0 +1,233 @@
+/**
+ * 检索结果的多因素排序
+ * 按距离/用时、营业状态、无障碍、收费、数据新鲜度与来源可信度分别打分（0~1），
+ * 以设置中的权重加权平均得到总分，并生成卡片上展示的排序说明
+ */
+
+import { PoiRanking, PoiSource, RankingFactorScore, ToiletPoi, WheelchairAccess } from './MapService';
+import { getOpenState, OpenStatus } from '../common/openingHours';
+import { TravelMode } from '../common/types';
+import { routeOf } from '../routing/Router';
+
+export enum RankingFactor {
+  DISTANCE = 'distance',
+  OPEN_NOW = 'openNow',
+  ACCESSIBILITY = 'accessibility',
+  FEE = 'fee',
+  FRESHNESS = 'freshness',
+  CONFIDENCE = 'confidence'
+}
+
+// 各因素权重，0 表示不参与排序
+export interface RankingWeights {
+  distance: number;
+  openNow: number;
+  accessibility: number;
+  fee: number;
+  freshness: number;
+  confidence: number;
+}
+
+export const MAX_RANKING_WEIGHT = 5;
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  distance: 5,
+  openNow: 4,
+  accessibility: 3,
+  fee: 1,
+  freshness: 1,
+  confidence: 2
+};
+
+export interface RankingContext {
+  travelMode: string;        // TravelMode
+  now: Date;
+  needAccessible: boolean;   // 用户需要无障碍设施；否则不参与排序
+}
+
+// 用时达到该值时距离得分为 0.5
+const HALF_SCORE_MINUTES = 10;
+// 到达前这么多分钟内关门视为赶不上
+const CLOSING_MARGIN_MIN = 5;
+// 数据在该天数内视为新鲜，超过 STALE_DAYS 得分降到最低
+const FRESH_DAYS = 90;
+const STALE_DAYS = 3 * 365;
+// 总分差距小于该值时按距离排序，避免近乎相同的得分打乱顺序
+const SCORE_EPSILON = 0.005;
+// 单个因素对总分的影响超过该值才写进说明
+const NOTABLE_IMPACT = 0.08;
+
+// 各数据源的可信度；多源同时报告时按"至少一个准确"合并
+const SOURCE_CONFIDENCE: Record<string, number> = {
+  [PoiSource.FAVORITE]: 0.95,
+  [PoiSource.CURATED]: 0.9,
+  [PoiSource.SITE_KIT]: 0.8,
+  [PoiSource.AMAP]: 0.8,
+  [PoiSource.BAIDU]: 0.8,
+  [PoiSource.OVERPASS]: 0.7,
+  [PoiSource.LOCAL]: 0.7,
+  [PoiSource.COMMUNITY]: 0.6,
+  [PoiSource.MOCK]: 0
+};
+const UNKNOWN_SOURCE_CONFIDENCE = 0.5;
+
+/**
+ * 补齐缺失项并把权重限制在 [0, MAX_RANKING_WEIGHT]，用于读取保存的设置
+ */
+export function normalizeWeights(raw: Partial<RankingWeights> | null | undefined): RankingWeights {
+  const pick = (value: number | undefined, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), MAX_RANKING_WEIGHT) : fallback;
+  const d = DEFAULT_RANKING_WEIGHTS;
+  return {
+    distance: pick(raw?.distance, d.distance),
+    openNow: pick(raw?.openNow, d.openNow),
+    accessibility: pick(raw?.accessibility, d.accessibility),
+    fee: pick(raw?.fee, d.fee),
+    freshness: pick(raw?.freshness, d.freshness),
+    confidence: pick(raw?.confidence, d.confidence)
+  };
+}
+
+/**
+ * 计算单个公厕的得分与说明
+ */
+export function scorePoi(poi: ToiletPoi, weights: RankingWeights, context: RankingContext): PoiRanking {
+  const minutes = routeOf(poi, context.travelMode).minutes;
+  const factors: RankingFactorScore[] = [
+    scoreDistance(minutes, context.travelMode, weights.distance),
+    scoreOpenNow(poi, minutes, context.now, weights.openNow),
+    scoreAccessibility(poi, context.needAccessible ? weights.accessibility : 0),
+    scoreFee(poi, weights.fee),
+    scoreFreshness(poi, context.now, weights.freshness),
+    scoreConfidence(poi, weights.confidence)
+  ];
+  const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+  const score = totalWeight > 0 ? factors.reduce((sum, f) => sum + f.weight * f.score, 0) / totalWeight : 0;
+  return { score: Math.round(score * 1000) / 1000, factors, summary: summarize(factors, totalWeight) };
+}
+
+/**
+ * 按总分从高到低排序，得分相近时距离近的在前；返回带 ranking 的新数组
+ */
+export function rankPois(pois: ToiletPoi[], weights: RankingWeights, context: RankingContext): ToiletPoi[] {
+  return pois
+    .map(p => ({ ...p, ranking: scorePoi(p, weights, context) }))
+    .sort((a, b) => {
+      const diff = b.ranking.score - a.ranking.score;
+      return Math.abs(diff) > SCORE_EPSILON ? diff : a.distance - b.distance;
+    });
+}
+
+/**
+ * 仅按距离排序，并去掉之前的排序说明
+ */
+export function sortByDistance(pois: ToiletPoi[]): ToiletPoi[] {
+  return pois
+    .map(p => {
+      const copy: ToiletPoi = { ...p };
+      delete copy.ranking;
+      return copy;
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
+
+function scoreDistance(minutes: number, travelMode: string, weight: number): RankingFactorScore {
+  const verb = travelMode === TravelMode.CYCLING ? '骑行' : '步行';
+  return {
+    factor: RankingFactor.DISTANCE,
+    weight,
+    score: HALF_SCORE_MINUTES / (HALF_SCORE_MINUTES + minutes),
+    note: `${verb}约${minutes}分钟`
+  };
+}
+
+function scoreOpenNow(poi: ToiletPoi, minutes: number, now: Date, weight: number): RankingFactorScore {
+  const state = getOpenState(poi.openingHours, now);
+  const factor = RankingFactor.OPEN_NOW;
+  if (state.status === OpenStatus.UNKNOWN) {
+    return { factor, weight, score: 0.5, note: '营业时间未知' };
+  }
+  if (state.status === OpenStatus.CLOSED) {
+    // 到达时已开门的不算关门
+    if (state.minutesToChange !== undefined && state.minutesToChange <= minutes) {
+      return { factor, weight, score: 0.7, note: `${state.minutesToChange}分钟后开门` };
+    }
+    return { factor, weight, score: 0, note: '已关门' };
+  }
+  if (!state.alwaysOpen && state.minutesToChange !== undefined &&
+    state.minutesToChange <= minutes + CLOSING_MARGIN_MIN) {
+    return { factor, weight, score: 0.15, note: `${state.minutesToChange}分钟后关门` };
+  }
+  return { factor, weight, score: 1, note: state.alwaysOpen ? '24小时开放' : '营业中' };
+}
+
+function scoreAccessibility(poi: ToiletPoi, weight: number): RankingFactorScore {
+  const factor = RankingFactor.ACCESSIBILITY;
+  switch (poi.wheelchair) {
+    case WheelchairAccess.YES: return { factor, weight, score: 1, note: '有无障碍设施' };
+    case WheelchairAccess.LIMITED: return { factor, weight, score: 0.6, note: '部分无障碍' };
+    case WheelchairAccess.NO: return { factor, weight, score: 0, note: '无无障碍设施' };
+    default: return { factor, weight, score: 0.3, note: '无障碍情况未知' };
+  }
+}
+
+function scoreFee(poi: ToiletPoi, weight: number): RankingFactorScore {
+  const factor = RankingFactor.FEE;
+  if (poi.fee === false) return { factor, weight, score: 1, note: '免费' };
+  if (poi.fee === true) return { factor, weight, score: 0.2, note: '收费' };
+  return { factor, weight, score: 0.6, note: '是否收费未知' };
+}
+
+function scoreFreshness(poi: ToiletPoi, now: Date, weight: number): RankingFactorScore {
+  const factor = RankingFactor.FRESHNESS;
+  if (!poi.updatedAt) {
+    return { factor, weight, score: 0.5, note: '更新时间未知' };
+  }
+  const days = Math.max(0, (now.getTime() - poi.updatedAt) / (24 * 60 * 60 * 1000));
+  if (days <= FRESH_DAYS) {
+    return { factor, weight, score: 1, note: '近期更新' };
+  }
+  const score = Math.max(0.1, 1 - (days - FRESH_DAYS) / (STALE_DAYS - FRESH_DAYS) * 0.9);
+  return { factor, weight, score, note: `${Math.floor(days / 30)}个月前更新` };
+}
+
+function scoreConfidence(poi: ToiletPoi, weight: number): RankingFactorScore {
+  const factor = RankingFactor.CONFIDENCE;
+  const sources = poi.sources ?? [];
+  if (sources.length === 0) {
+    return { factor, weight, score: UNKNOWN_SOURCE_CONFIDENCE, note: '来源未知' };
+  }
+  let miss = 1;
+  for (const s of sources) {
+    miss *= 1 - (SOURCE_CONFIDENCE[s] ?? UNKNOWN_SOURCE_CONFIDENCE);
+  }
+  const score = 1 - miss;
+  const note = sources.indexOf(PoiSource.MOCK) >= 0 ? '演示数据'
+    : sources.length > 1 ? `${sources.length}个数据源确认` : '单一数据源';
+  return { factor, weight, score, note };
+}
+
+// 影响最大的减分项优先说明，其次是最大的加分项；影响都不明显时不说明
+function summarize(factors: RankingFactorScore[], totalWeight: number): string {
+  if (totalWeight <= 0) return '';
+  let worst: RankingFactorScore | null = null;
+  let worstImpact = 0;
+  let best: RankingFactorScore | null = null;
+  let bestImpact = 0;
+  for (const f of factors) {
+    if (f.weight <= 0) continue;
+    const penalty = f.weight * (1 - f.score) / totalWeight;
+    const bonus = f.weight * f.score / totalWeight;
+    if (f.score < 0.5 && penalty > worstImpact) {
+      worst = f;
+      worstImpact = penalty;
+    }
+    if (f.score >= 0.9 && bonus > bestImpact) {
+      best = f;
+      bestImpact = bonus;
+    }
+  }
+  if (worst && worstImpact >= NOTABLE_IMPACT) return `排名靠后：${worst.note}`;
+  if (best && bestImpact >= NOTABLE_IMPACT) return `排名靠前：${best.note}`;
+  return '';
+}
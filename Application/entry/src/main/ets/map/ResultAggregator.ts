@@ -0,0 +1,129 @@
+/**
+ * 多数据源结果聚合
+ * 将 Site Kit / Overpass / 本地种子数据等多个来源的结果合并，
+ * 按「地理距离 + 名称相似度」去重，并保留每条结果的来源列表
+ */
+
+import { ToiletPoi } from './MapService';
+import { haversineMeters } from '../common/distance';
+
+// 单个数据源的返回（失败的数据源直接不传入即可）
+export interface ProviderResponse {
+  source: string;
+  pois: ToiletPoi[];
+}
+
+export interface MergeOptions {
+  nearDistanceM: number;     // 名称相似时视为同一地点的最大距离
+  sameSpotDistanceM: number; // 不看名称、直接视为同一地点的距离
+  minNameSimilarity: number; // 名称相似度阈值（0~1）
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = {
+  nearDistanceM: 40,
+  sameSpotDistanceM: 8,
+  minNameSimilarity: 0.5
+};
+
+// 名称里的通用词，去掉后再比较（"人民广场公厕" 与 "人民广场卫生间" 视为同名）
+const GENERIC_NAME_PATTERN = /(公共厕所|公厕|厕所|卫生间|洗手间|toilets?|restrooms?|wc)/gi;
+const PUNCTUATION_PATTERN = /[\s\-_()（）·,，.。]/g;
+
+/**
+ * 合并多个数据源的结果
+ * responses 的顺序即优先级：位置与名称以先出现的来源为准，缺失字段由后续来源补齐
+ * 只合并不同来源的结果；同一来源内相邻的两条视为两个公厕
+ */
+export function mergeProviderResults(responses: ProviderResponse[],
+  options: MergeOptions = DEFAULT_MERGE_OPTIONS): ToiletPoi[] {
+  const merged: ToiletPoi[] = [];
+  for (const response of responses) {
+    for (const poi of response.pois) {
+      if (!Number.isFinite(poi.location.latitude) || !Number.isFinite(poi.location.longitude)) continue;
+      const existing = merged.find(item =>
+        (item.sources ?? []).indexOf(response.source) < 0 && isSamePlace(item, poi, options));
+      if (existing) {
+        absorb(existing, poi, response.source);
+      } else {
+        merged.push({
+          ...poi,
+          location: { latitude: poi.location.latitude, longitude: poi.location.longitude },
+          sources: unionSources(poi.sources, response.source)
+        });
+      }
+    }
+  }
+  return merged.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * 判断两条结果是否指向同一个公厕
+ */
+export function isSamePlace(a: ToiletPoi, b: ToiletPoi, options: MergeOptions = DEFAULT_MERGE_OPTIONS): boolean {
+  const d = haversineMeters(a.location.latitude, a.location.longitude, b.location.latitude, b.location.longitude);
+  if (d <= options.sameSpotDistanceM) return true;
+  if (d > options.nearDistanceM) return false;
+  const na = normalizeName(a.name);
+  const nb = normalizeName(b.name);
+  // 任意一方只有通用名（如"公共厕所"），无法靠名称区分，按距离判定为同一处
+  if (na.length === 0 || nb.length === 0) return true;
+  return nameSimilarity(na, nb) >= options.minNameSimilarity;
+}
+
+/**
+ * 名称归一化：去掉通用词与标点，统一小写
+ */
+export function normalizeName(name: string): string {
+  return (name || '').toLowerCase().replace(GENERIC_NAME_PATTERN, '').replace(PUNCTUATION_PATTERN, '');
+}
+
+/**
+ * 基于字符二元组的 Dice 系数（0~1），对中文短名称比较友好
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.includes(b) || b.includes(a)) return 1;
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  if (ga.length === 0 || gb.length === 0) return 0;
+  const pool = gb.slice();
+  let hits = 0;
+  for (const g of ga) {
+    const idx = pool.indexOf(g);
+    if (idx >= 0) {
+      hits++;
+      pool.splice(idx, 1);
+    }
+  }
+  return (2 * hits) / (ga.length + gb.length);
+}
+
+function bigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length === 1) return chars;
+  const grams: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    grams.push(chars[i] + chars[i + 1]);
+  }
+  return grams;
+}
+
+// 把重复项的信息并入已有结果
+function absorb(target: ToiletPoi, dup: ToiletPoi, source: string): void {
+  target.sources = unionSources(unionSources(target.sources, source), ...(dup.sources ?? []));
+  if (!target.address && dup.address) target.address = dup.address;
+  if (!target.openingHours && dup.openingHours) target.openingHours = dup.openingHours;
+  if (target.fee === undefined && dup.fee !== undefined) target.fee = dup.fee;
+  if (target.wheelchair === undefined && dup.wheelchair !== undefined) target.wheelchair = dup.wheelchair;
+  if (target.changingTable === undefined && dup.changingTable !== undefined) target.changingTable = dup.changingTable;
+  if (normalizeName(target.name).length === 0 && normalizeName(dup.name).length > 0) target.name = dup.name;
+}
+
+function unionSources(current: string[] | undefined, ...extra: string[]): string[] {
+  const result = current ? current.slice() : [];
+  for (const s of extra) {
+    if (result.indexOf(s) < 0) result.push(s);
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import { MapService, SearchResult } from './MapService';
+import { CancellationSource, CancellationToken, CancelReason, raceCancellation } from '../common/cancellation';
+import { SEARCH_DEADLINE_MS } from '../common/config';
+
+// 进行中的检索；相同参数的请求共享同一个底层检索
+type InflightSearch = {
+  source: CancellationSource;
+  promise: Promise<SearchResult>;
+  waiters: number;
+};
+
+/**
+ * 检索控制器
+ * - begin() 开启新一轮检索并取消上一轮，页面离开或切换出行方式时调用 cancel()
+ * - search() 合并参数相同的进行中请求，并为底层检索施加整体时间预算
+ * 调用方持有的令牌被取消后，search() 立即以 CancelledError 拒绝；
+ * 共享同一底层检索的调用方全部取消后，底层检索才会被取消；
+ * 已结束的检索在下一轮开始或 cancel() 时取消，其后台刷新不再推送
+ */
+export class SearchController {
+  private service: MapService;
+  private deadlineMs: number;
+  private current: CancellationSource | null = null;
+  private inflight: Map<string, InflightSearch> = new Map();
+  private settled: CancellationSource[] = []; // 本轮已结束的检索
+
+  constructor(service: MapService, deadlineMs: number = SEARCH_DEADLINE_MS) {
+    this.service = service;
+    this.deadlineMs = deadlineMs;
+  }
+
+  public setService(service: MapService): void {
+    if (service !== this.service) {
+      this.service = service;
+      // 已发出的请求继续完成，但之后的请求不再与其合并
+      this.inflight.clear();
+    }
+  }
+
+  /**
+   * 开启新一轮检索：取消上一轮并返回本轮的令牌
+   */
+  public begin(): CancellationToken {
+    this.current?.cancel();
+    this.cancelSettled();
+    this.current = new CancellationSource();
+    return this.current.token;
+  }
+
+  public cancel(): void {
+    this.current?.cancel();
+    this.cancelSettled();
+    this.current = null;
+  }
+
+  public isCurrent(token: CancellationToken): boolean {
+    return this.current !== null && this.current.token === token && !token.isCancelled;
+  }
+
+  public search(longitude: number, latitude: number, radiusMeters: number,
+    token?: CancellationToken): Promise<SearchResult> {
+    token?.throwIfCancelled();
+    const key = this.keyOf(longitude, latitude, radiusMeters);
+    let entry = this.inflight.get(key);
+    // 已被取消的检索在结算前仍留在表中，不能再合并进去
+    if (!entry || entry.source.token.isCancelled) {
+      entry = this.start(key, longitude, latitude, radiusMeters);
+    }
+    const shared = entry;
+    shared.waiters++;
+    // 调用方取消时释放引用；全部释放后取消底层检索。底层检索结算后不再监听
+    const unsubscribe = token?.onCancel(() => {
+      shared.waiters--;
+      if (shared.waiters === 0) {
+        shared.source.cancel(CancelReason.CANCELLED);
+      }
+    });
+    if (unsubscribe) {
+      shared.promise.then(unsubscribe, unsubscribe);
+    }
+    return raceCancellation(shared.promise, token);
+  }
+
+  private start(key: string, longitude: number, latitude: number, radiusMeters: number): InflightSearch {
+    const source = CancellationSource.withTimeout(this.deadlineMs);
+    const entry: InflightSearch = {
+      source,
+      promise: this.service.searchNearbyToilets(longitude, latitude, radiusMeters, source.token),
+      waiters: 0
+    };
+    const settle = () => {
+      source.dispose();
+      if (!source.token.isCancelled) {
+        this.settled.push(source);
+      }
+      if (this.inflight.get(key) === entry) {
+        this.inflight.delete(key);
+      }
+    };
+    entry.promise.then(settle, settle);
+    this.inflight.set(key, entry);
+    return entry;
+  }
+
+  private cancelSettled(): void {
+    const settled = this.settled;
+    this.settled = [];
+    settled.forEach(source => source.cancel(CancelReason.CANCELLED));
+  }
+
+  // 坐标保留 5 位小数（约 1 米），更小的抖动视为同一请求
+  private keyOf(longitude: number, latitude: number, radiusMeters: number): string {
+    return `${this.service.name}|${longitude.toFixed(5)}|${latitude.toFixed(5)}|${Math.round(radiusMeters)}`;
+  }
+}
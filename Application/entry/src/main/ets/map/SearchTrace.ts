@@ -0,0 +1,102 @@
+import { SearchResult, SourceAttempt, ToiletPoi } from './MapService';
+
+/**
+ * 检索过程记录
+ * 包装每个数据源的调用，统计耗时与错误，最终生成 SearchResult
+ */
+export class SearchTrace {
+  private attempts: SourceAttempt[] = [];
+  private errors: string[] = [];
+
+  // 执行一次数据源调用并记录结果；失败时记录后继续抛出
+  public async run(source: string, fn: () => Promise<ToiletPoi[]>): Promise<ToiletPoi[]> {
+    const start = Date.now();
+    try {
+      const pois = await fn();
+      this.attempts.push({ source, ok: true, durationMs: Date.now() - start, resultCount: pois.length });
+      return pois;
+    } catch (error) {
+      const message = (error as Error)?.message || String(error);
+      this.attempts.push({ source, ok: false, durationMs: Date.now() - start, error: message });
+      this.errors.push(`${source}: ${message}`);
+      throw error;
+    }
+  }
+
+  // 并入下游服务的记录（用于多个服务串联时）
+  public absorb(result: SearchResult): void {
+    this.attempts.push(...result.attempts);
+    this.errors.push(...result.errors);
+  }
+
+  public recordFailure(source: string, error: Error, durationMs: number): void {
+    const message = error?.message || String(error);
+    this.attempts.push({ source, ok: false, durationMs, error: message });
+    this.errors.push(`${source}: ${message}`);
+  }
+
+  public finish(pois: ToiletPoi[], source: string, mock: boolean = false, completeRadiusM?: number): SearchResult {
+    const result: SearchResult = {
+      pois,
+      source,
+      attempts: this.attempts.slice(),
+      errors: this.errors.slice(),
+      degraded: mock || this.errors.length > 0,
+      mock
+    };
+    if (completeRadiusM !== undefined) {
+      result.completeRadiusM = completeRadiusM;
+    }
+    return result;
+  }
+}
+
+/**
+ * 数据源实际完整检索的半径：超出数据源半径上限的部分没有检索；结果占满一页时后面可能还有，视为不完整
+ */
+export function completeRadius(requestedM: number, maxRadiusM: number, resultCount: number, pageSize: number): number {
+  return resultCount >= pageSize ? 0 : Math.min(requestedM, maxRadiusM);
+}
+
+/**
+ * 合并多个结果的完整半径：取最小值，均未给出时为空；跳过未拿到的结果
+ */
+export function minCompleteRadius(results: Array<SearchResult | null>): number | undefined {
+  let min: number | undefined = undefined;
+  for (const r of results) {
+    if (r && r.completeRadiusM !== undefined) {
+      min = min === undefined ? r.completeRadiusM : Math.min(min, r.completeRadiusM);
+    }
+  }
+  return min;
+}
+
+/**
+ * 将尝试记录格式化为简短文本，如 "site_kit:失败(320ms) overpass:5条(1200ms)"
+ */
+export function summarizeAttempts(attempts: SourceAttempt[]): string {
+  return attempts
+    .map(a => a.ok ? `${a.source}:${a.resultCount ?? 0}条(${a.durationMs}ms)` : `${a.source}:失败(${a.durationMs}ms)`)
+    .join(' ');
+}
+
+/**
+ * 数据源的展示名称
+ */
+export function sourceLabel(source: string): string {
+  switch (source) {
+    case 'site_kit': return '华为地图';
+    case 'overpass': return 'OpenStreetMap';
+    case 'local': return '内置数据';
+    case 'amap': return '高德地图';
+    case 'baidu': return '百度地图';
+    case 'aggregate': return '多个数据源';
+    case 'cache': return '离线缓存';
+    case 'favorite': return '我的收藏';
+    case 'cloud': return '云端数据';
+    case 'curated': return '精选数据';
+    case 'community': return '社区补充';
+    case 'mock': return '演示数据';
+    default: return source;
+  }
+}
@@ -0,0 +1,177 @@
+import { importObject, ToiletReviewService } from 'cloud_objects';
+import type { MyReviewResult, ReviewDraft, ReviewStatsResult } from 'cloud_objects';
+import type { ToiletPoi } from '../map/MapService';
+import { REVIEW_STATS_TTL_MS } from '../common/config';
+import { getSignInProvider, SignInProvider, SignInRequiredError } from '../common/signIn';
+import { CloudDbReviewZone, ReviewZone } from './ReviewZone';
+import { ToiletReview } from './ToiletReview';
+import { ToiletStats } from './ToiletStats';
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+export const MAX_REVIEW_LENGTH = 500;
+
+// 单次 in 查询的 id 数量上限
+const STATS_QUERY_BATCH = 50;
+
+// 某个公厕的社区评分
+export interface RatingSummary {
+  poiId: string;
+  reviewCount: number;
+  cleanlinessAvg: number;
+  availabilityAvg: number;
+  overallAvg: number;
+}
+
+// 评价写入通道；默认为云函数 toilet-review，由其同时刷新汇总，并按登录用户识别评价者
+export interface ReviewSubmitter {
+  submitReview(draft: ReviewDraft): Promise<ReviewStatsResult>;
+  getMyReview(poiId: string): Promise<MyReviewResult | null>;
+}
+
+type CacheEntry = {
+  summary: RatingSummary | null; // null 表示查询过但暂无评价
+  fetchedAt: number;
+};
+
+/**
+ * 公厕评价读写
+ * 汇总评分按 poiId 缓存，列表滚动或重复检索时不重复查询云数据库
+ */
+export class ReviewRepository {
+  private static shared: ReviewRepository | null = null;
+  private zone: ReviewZone;
+  private submitter: ReviewSubmitter;
+  private signIn: SignInProvider;
+  private now: () => number;
+  private cache: Map<string, CacheEntry> = new Map();
+
+  constructor(zone: ReviewZone, submitter: ReviewSubmitter, signIn: SignInProvider, now: () => number = Date.now) {
+    this.zone = zone;
+    this.submitter = submitter;
+    this.signIn = signIn;
+    this.now = now;
+  }
+
+  public static getDefault(): ReviewRepository {
+    if (!ReviewRepository.shared) {
+      ReviewRepository.shared =
+        new ReviewRepository(new CloudDbReviewZone(), importObject(ToiletReviewService), getSignInProvider());
+    }
+    return ReviewRepository.shared;
+  }
+
+  /**
+   * 查询一批公厕的评分，只返回有评价的公厕
+   */
+  public async getRatings(poiIds: string[]): Promise<Map<string, RatingSummary>> {
+    const now = this.now();
+    const missing: string[] = [];
+    for (const id of poiIds) {
+      const entry = this.cache.get(id);
+      if ((!entry || now - entry.fetchedAt > REVIEW_STATS_TTL_MS) && missing.indexOf(id) < 0) {
+        missing.push(id);
+      }
+    }
+    for (let i = 0; i < missing.length; i += STATS_QUERY_BATCH) {
+      const batch = missing.slice(i, i + STATS_QUERY_BATCH);
+      const rows = await this.zone.queryStats(batch);
+      for (const id of batch) {
+        this.cache.set(id, { summary: null, fetchedAt: now });
+      }
+      for (const row of rows) {
+        this.cache.set(row.poiId, { summary: summaryOf(row), fetchedAt: now });
+      }
+    }
+    const result = new Map<string, RatingSummary>();
+    for (const id of poiIds) {
+      const summary = this.cache.get(id)?.summary;
+      if (summary && summary.reviewCount > 0) result.set(id, summary);
+    }
+    return result;
+  }
+
+  public getCachedRating(poiId: string): RatingSummary | null {
+    return this.cache.get(poiId)?.summary ?? null;
+  }
+
+  public async listReviews(poiId: string, limit: number = 20): Promise<ToiletReview[]> {
+    return await this.zone.queryReviews(poiId, limit);
+  }
+
+  /**
+   * 当前用户对某个公厕的评价；未登录或未评价过时为 null
+   */
+  public async getMyReview(poiId: string): Promise<MyReviewResult | null> {
+    if (!await this.signIn.currentUid()) {
+      return null;
+    }
+    return await this.submitter.getMyReview(poiId);
+  }
+
+  /**
+   * 提交评价；未登录时抛出 SignInRequiredError，校验失败时抛出带中文说明的错误
+   */
+  public async submit(draft: ReviewDraft): Promise<RatingSummary> {
+    const problem = validateReview(draft);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (!await this.signIn.currentUid()) {
+      throw new SignInRequiredError();
+    }
+    let result: ReviewStatsResult;
+    try {
+      result = await this.submitter.submitReview(draft);
+    } catch (e) {
+      if (/sign-in required/.test((e as Error)?.message || '')) {
+        throw new SignInRequiredError();
+      }
+      throw e as Error;
+    }
+    const summary: RatingSummary = {
+      poiId: result.poiId,
+      reviewCount: result.reviewCount,
+      cleanlinessAvg: result.cleanlinessAvg,
+      availabilityAvg: result.availabilityAvg,
+      overallAvg: result.overallAvg
+    };
+    this.cache.set(draft.poiId, { summary, fetchedAt: this.now() });
+    return summary;
+  }
+}
+
+/**
+ * 客户端预校验（与云函数规则一致），通过时返回 null
+ */
+export function validateReview(draft: ReviewDraft): string | null {
+  if (!draft.poiId) return '缺少公厕信息';
+  if (!isScore(draft.cleanliness)) return '请为干净程度打分';
+  if (!isScore(draft.availability)) return '请为好找程度打分';
+  if ((draft.content ?? '').length > MAX_REVIEW_LENGTH) return `评价内容不能超过 ${MAX_REVIEW_LENGTH} 字`;
+  return null;
+}
+
+/**
+ * 把评分叠加到检索结果上
+ */
+export function withRatings(pois: ToiletPoi[], ratings: Map<string, RatingSummary>): ToiletPoi[] {
+  return pois.map((p) => {
+    const rating = ratings.get(p.id);
+    return rating ? { ...p, rating: rating.overallAvg, reviewCount: rating.reviewCount } : p;
+  });
+}
+
+function isScore(x: number): boolean {
+  return Number.isInteger(x) && x >= MIN_SCORE && x <= MAX_SCORE;
+}
+
+function summaryOf(row: ToiletStats): RatingSummary {
+  return {
+    poiId: row.poiId,
+    reviewCount: row.reviewCount,
+    cleanlinessAvg: row.cleanlinessAvg,
+    availabilityAvg: row.availabilityAvg,
+    overallAvg: row.overallAvg
+  };
+}
@@ -0,0 +1,35 @@
+import { cloudDatabase } from '@kit.CloudFoundationKit';
+import { ToiletReview } from './ToiletReview';
+import { ToiletStats } from './ToiletStats';
+
+// 评价数据所在的存储区，与 CloudProgram/clouddb/dataentry/d_ToiletStats.json 一致
+export const REVIEW_ZONE_NAME = 'Toilets';
+
+/**
+ * 客户端对评价存储区的只读访问；写入统一经云函数 toilet-review 完成
+ * 单元测试中以内存实现替代 cloudDatabase 存储区
+ */
+export interface ReviewZone {
+  queryStats(poiIds: string[]): Promise<ToiletStats[]>;
+  queryReviews(poiId: string, limit: number): Promise<ToiletReview[]>;
+}
+
+export class CloudDbReviewZone implements ReviewZone {
+  private zone: cloudDatabase.DatabaseZone;
+
+  constructor(zoneName: string = REVIEW_ZONE_NAME) {
+    this.zone = cloudDatabase.zone(zoneName);
+  }
+
+  async queryStats(poiIds: string[]): Promise<ToiletStats[]> {
+    if (poiIds.length === 0) return [];
+    return await this.zone.query(new cloudDatabase.DatabaseQuery(ToiletStats).in('poiId', poiIds));
+  }
+
+  async queryReviews(poiId: string, limit: number): Promise<ToiletReview[]> {
+    return await this.zone.query(new cloudDatabase.DatabaseQuery(ToiletReview)
+      .equalTo('poiId', poiId)
+      .orderByDesc('updatedAt')
+      .limit(limit));
+  }
+}
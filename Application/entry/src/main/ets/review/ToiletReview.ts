@@ -0,0 +1,19 @@
+import { cloudDatabase } from '@kit.CloudFoundationKit';
+
+// 与 CloudProgram/clouddb/objecttype/ToiletReview.json 对应；id 为 `${poiId}|${authorKey}`，authorKey 为评价者的匿名键，不含用户 uid
+class ToiletReview extends cloudDatabase.DatabaseObject {
+  id: string = '';
+  poiId: string = '';
+  authorKey: string = '';
+  cleanliness: number = 0;
+  availability: number = 0;
+  content: string = '';
+  createdAt: Date = new Date(0);
+  updatedAt: Date = new Date(0);
+
+  naturalbase_ClassName(): string {
+    return 'ToiletReview';
+  }
+}
+
+export { ToiletReview };
@@ -0,0 +1,19 @@
+import { cloudDatabase } from '@kit.CloudFoundationKit';
+
+// 与 CloudProgram/clouddb/objecttype/ToiletStats.json 对应；由云函数 toilet-review 维护，客户端只读
+class ToiletStats extends cloudDatabase.DatabaseObject {
+  poiId: string = '';
+  reviewCount: number = 0;
+  cleanlinessTotal: number = 0;
+  availabilityTotal: number = 0;
+  cleanlinessAvg: number = 0;
+  availabilityAvg: number = 0;
+  overallAvg: number = 0;
+  lastReviewAt: Date | null = null;
+
+  naturalbase_ClassName(): string {
+    return 'ToiletStats';
+  }
+}
+
+export { ToiletStats };
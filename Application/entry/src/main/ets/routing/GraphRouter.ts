@@ -0,0 +1,37 @@
+import { RouteEstimate } from '../map/MapService';
+import { GeoPoint } from '../common/types';
+import { CancellationToken } from '../common/cancellation';
+import { haversineMeters } from '../common/distance';
+import { RoadGraph } from './RoadGraph';
+import { RouteMethod, Router, routeEstimate, straightLineEstimate } from './Router';
+
+// 按起点提供覆盖该区域的路网；没有数据时返回 null
+export interface RoadGraphSource {
+  graphFor(origin: GeoPoint, travelMode: string): Promise<RoadGraph | null>;
+}
+
+/**
+ * 基于离线路网的路径规划
+ * 对每个目标单独做 A* 搜索；没有路网、无法吸附到路网或不可达的目标按直线距离估算
+ */
+export class GraphRouter implements Router {
+  public readonly name: string = 'road_graph';
+  private source: RoadGraphSource;
+
+  constructor(source: RoadGraphSource) {
+    this.source = source;
+  }
+
+  public async estimate(origin: GeoPoint, targets: GeoPoint[], travelMode: string,
+    token?: CancellationToken): Promise<RouteEstimate[]> {
+    const graph = await this.source.graphFor(origin, travelMode);
+    token?.throwIfCancelled();
+    return targets.map(t => {
+      const distance = graph ? graph.route(origin, t) : null;
+      if (distance === null) {
+        return straightLineEstimate(haversineMeters(origin.lat, origin.lng, t.lat, t.lng), travelMode);
+      }
+      return routeEstimate(distance, travelMode, RouteMethod.NETWORK);
+    });
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * 离线路网与 A* 最短路径
+ * 由 OSM way 数据（Overpass JSON）按出行方式构建有向路网：步行不受单行限制，骑行遵守单行并排除台阶与人行道；
+ * 起终点吸附到最大连通分量中最近的节点后搜索，启发函数为球面直线距离（不会高估，结果为最短路）
+ */
+
+import { GeoPoint, TravelMode } from '../common/types';
+import { haversineMeters } from '../common/distance';
+import { KdTree } from '../common/spatialIndex';
+import { ROUTE_MAX_SNAP_M } from '../common/config';
+
+// OSM 道路中的一段连续折线，节点 key 相同即为同一路口
+export interface OsmWay {
+  tags: Record<string, string>;
+  nodes: OsmNode[];
+}
+
+export interface OsmNode {
+  key: string;
+  lat: number;
+  lng: number;
+}
+
+// 路网数据覆盖的范围
+export interface RoadExtent {
+  center: GeoPoint;
+  radiusM: number;
+}
+
+// 两种出行方式都可能通行的道路
+const SHARED_HIGHWAYS: string[] = [
+  'primary', 'primary_link', 'secondary', 'secondary_link', 'tertiary', 'tertiary_link', 'unclassified',
+  'residential', 'living_street', 'service', 'road', 'track', 'path', 'cycleway'
+];
+const WALK_ONLY_HIGHWAYS: string[] = ['footway', 'pedestrian', 'steps', 'corridor'];
+const WALK_HIGHWAYS = new Set<string>(SHARED_HIGHWAYS.concat(WALK_ONLY_HIGHWAYS));
+const CYCLE_HIGHWAYS = new Set<string>(SHARED_HIGHWAYS);
+
+const ALLOWED_ACCESS = new Set<string>(['yes', 'designated', 'permissive', 'official']);
+const DENIED_ACCESS = new Set<string>(['no', 'private']);
+
+// 路网距离超过直线距离的该倍数（且超出 MIN_DETOUR_SLACK_M）时放弃，按直线估算
+const MAX_DETOUR_RATIO = 4;
+const MIN_DETOUR_SLACK_M = 1000;
+// 单次搜索最多展开的节点数，防止大路网上的无解搜索耗时过长
+const MAX_EXPANSIONS = 200000;
+
+/**
+ * 构造下载道路数据的 Overpass 查询：输出 way（含标签与节点 id），再输出其节点坐标
+ */
+export function buildRoadGraphQuery(latitude: number, longitude: number, radiusMeters: number,
+  timeoutSec: number = 60): string {
+  const around = `(around:${Math.round(radiusMeters)},${latitude.toFixed(6)},${longitude.toFixed(6)})`;
+  const highways = Array.from(WALK_HIGHWAYS).join('|');
+  return `[out:json][timeout:${timeoutSec}];\nway["highway"~"^(${highways})$"]${around};\nout body qt;\n>;\nout skel qt;`;
+}
+
+/**
+ * 解析 Overpass JSON 中的 way
+ * 支持两种输出：way 只带节点 id、节点坐标另行输出（out body + out skel），或 way 自带 geometry（out geom）；
+ * 缺少坐标的节点（查询范围边缘被截断）处把 way 断开
+ */
+export function parseOsmWays(raw: string): OsmWay[] {
+  const data = JSON.parse(raw);
+  const elements: any[] = Array.isArray(data?.elements) ? data.elements : [];
+  const coords = new Map<string, GeoPoint>();
+  for (const el of elements) {
+    if (el?.type === 'node' && Number.isFinite(el.lat) && Number.isFinite(el.lon)) {
+      coords.set(String(el.id), { lat: el.lat, lng: el.lon });
+    }
+  }
+  const ways: OsmWay[] = [];
+  for (const el of elements) {
+    if (el?.type !== 'way' || !el.tags?.highway) continue;
+    const ids: any[] = Array.isArray(el.nodes) ? el.nodes : [];
+    const geometry: any[] = Array.isArray(el.geometry) ? el.geometry : [];
+    let piece: OsmNode[] = [];
+    for (let i = 0; i < Math.max(ids.length, geometry.length); i++) {
+      const node = toNode(ids[i], geometry[i], coords);
+      if (node) {
+        piece.push(node);
+        continue;
+      }
+      if (piece.length >= 2) ways.push({ tags: el.tags, nodes: piece });
+      piece = [];
+    }
+    if (piece.length >= 2) ways.push({ tags: el.tags, nodes: piece });
+  }
+  return ways;
+}
+
+function toNode(id: any, geom: any, coords: Map<string, GeoPoint>): OsmNode | null {
+  const point: GeoPoint | undefined = geom && Number.isFinite(geom.lat) && Number.isFinite(geom.lon)
+    ? { lat: geom.lat, lng: geom.lon }
+    : id !== undefined ? coords.get(String(id)) : undefined;
+  if (!point) return null;
+  const key = id !== undefined ? String(id) : `${point.lat.toFixed(7)},${point.lng.toFixed(7)}`;
+  return { key, lat: point.lat, lng: point.lng };
+}
+
+/**
+ * 道路数据的覆盖范围（外接矩形中心与覆盖所有节点的半径）；没有节点时返回 null
+ */
+export function extentOf(ways: OsmWay[]): RoadExtent | null {
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  for (const way of ways) {
+    for (const n of way.nodes) {
+      minLat = Math.min(minLat, n.lat);
+      maxLat = Math.max(maxLat, n.lat);
+      minLng = Math.min(minLng, n.lng);
+      maxLng = Math.max(maxLng, n.lng);
+    }
+  }
+  if (!Number.isFinite(minLat)) return null;
+  const center: GeoPoint = { lat: (minLat + maxLat) / 2, lng: (minLng + maxLng) / 2 };
+  let radiusM = 0;
+  for (const way of ways) {
+    for (const n of way.nodes) {
+      radiusM = Math.max(radiusM, haversineMeters(center.lat, center.lng, n.lat, n.lng));
+    }
+  }
+  return { center, radiusM: Math.ceil(radiusM) };
+}
+
+/**
+ * 该道路能否以指定出行方式通行
+ */
+export function isWayUsable(tags: Record<string, string>, travelMode: string): boolean {
+  const highway = tags['highway'];
+  if (!highway || tags['area'] === 'yes') return false;
+  const cycling = travelMode === TravelMode.CYCLING;
+  const modeAccess = tags[cycling ? 'bicycle' : 'foot'];
+  if (modeAccess && DENIED_ACCESS.has(modeAccess)) return false;
+  if (modeAccess && ALLOWED_ACCESS.has(modeAccess)) return WALK_HIGHWAYS.has(highway);
+  if (DENIED_ACCESS.has(tags['access'])) return false;
+  return (cycling ? CYCLE_HIGHWAYS : WALK_HIGHWAYS).has(highway);
+}
+
+/**
+ * 通行方向：0 双向，1 仅沿节点顺序，-1 仅逆节点顺序；步行不受单行限制
+ */
+export function wayDirection(tags: Record<string, string>, travelMode: string): number {
+  if (travelMode !== TravelMode.CYCLING) return 0;
+  if (tags['oneway:bicycle'] === 'no' || (tags['cycleway'] ?? '').startsWith('opposite')) return 0;
+  const oneway = tags['oneway:bicycle'] ?? tags['oneway'];
+  if (oneway === 'yes' || oneway === '1' || oneway === 'true') return 1;
+  if (oneway === '-1' || oneway === 'reverse') return -1;
+  if (tags['junction'] === 'roundabout' && oneway !== 'no') return 1;
+  return 0;
+}
+
+export class RoadGraph {
+  public readonly travelMode: string;
+  private lats: Float64Array;
+  private lngs: Float64Array;
+  // 邻接表（CSR）：节点 i 的出边为 targets/lengths 的 [offsets[i], offsets[i + 1])
+  private offsets: Int32Array;
+  private targets: Int32Array;
+  private lengths: Float64Array;
+  private index: KdTree<number>;
+  // 搜索状态按轮次标记复用，避免每次搜索重新分配
+  private round: number = 0;
+  private seenRound: Int32Array;
+  private closedRound: Int32Array;
+  private costs: Float64Array;
+
+  constructor(ways: OsmWay[], travelMode: string) {
+    this.travelMode = travelMode;
+    const keys = new Map<string, number>();
+    const lats: number[] = [];
+    const lngs: number[] = [];
+    const from: number[] = [];
+    const to: number[] = [];
+    const len: number[] = [];
+    const indexOf = (node: OsmNode): number => {
+      let i = keys.get(node.key);
+      if (i === undefined) {
+        i = lats.length;
+        keys.set(node.key, i);
+        lats.push(node.lat);
+        lngs.push(node.lng);
+      }
+      return i;
+    };
+    for (const way of ways) {
+      if (!isWayUsable(way.tags, travelMode)) continue;
+      const direction = wayDirection(way.tags, travelMode);
+      for (let k = 1; k < way.nodes.length; k++) {
+        const a = indexOf(way.nodes[k - 1]);
+        const b = indexOf(way.nodes[k]);
+        if (a === b) continue;
+        const d = haversineMeters(lats[a], lngs[a], lats[b], lngs[b]);
+        if (direction >= 0) {
+          from.push(a);
+          to.push(b);
+          len.push(d);
+        }
+        if (direction <= 0) {
+          from.push(b);
+          to.push(a);
+          len.push(d);
+        }
+      }
+    }
+
+    const n = lats.length;
+    this.lats = Float64Array.from(lats);
+    this.lngs = Float64Array.from(lngs);
+    this.offsets = new Int32Array(n + 1);
+    for (const a of from) this.offsets[a + 1]++;
+    for (let i = 0; i < n; i++) this.offsets[i + 1] += this.offsets[i];
+    this.targets = new Int32Array(from.length);
+    this.lengths = new Float64Array(from.length);
+    const fill = this.offsets.slice(0, n);
+    for (let e = 0; e < from.length; e++) {
+      const slot = fill[from[e]]++;
+      this.targets[slot] = to[e];
+      this.lengths[slot] = len[e];
+    }
+    this.seenRound = new Int32Array(n);
+    this.closedRound = new Int32Array(n);
+    this.costs = new Float64Array(n);
+    this.index = new KdTree<number>(largestComponent(n, from, to), i => this.lats[i], i => this.lngs[i]);
+  }
+
+  public get nodeCount(): number {
+    return this.lats.length;
+  }
+
+  public get edgeCount(): number {
+    return this.targets.length;
+  }
+
+  /**
+   * 起点到终点的路程（米），含起终点到吸附节点的直线段；无法吸附或不可达时返回 null
+   */
+  public route(from: GeoPoint, to: GeoPoint): number | null {
+    const start = this.index.nearest(from.lat, from.lng, 1, ROUTE_MAX_SNAP_M)[0];
+    const end = this.index.nearest(to.lat, to.lng, 1, ROUTE_MAX_SNAP_M)[0];
+    if (!start || !end) return null;
+    const straight = haversineMeters(from.lat, from.lng, to.lat, to.lng);
+    const limit = Math.max(straight * MAX_DETOUR_RATIO, straight + MIN_DETOUR_SLACK_M);
+    const network = this.search(start.item, end.item, limit);
+    if (network === null) return null;
+    // 吸附段可能与路网段部分重叠，结果不应短于直线距离
+    return Math.max(straight, start.distance + network + end.distance);
+  }
+
+  // A*：返回两节点间的最短路网距离；超过 limit 或不可达时返回 null
+  private search(source: number, target: number, limit: number): number | null {
+    if (source === target) return 0;
+    const round = ++this.round;
+    const heap = new MinHeap();
+    const tLat = this.lats[target];
+    const tLng = this.lngs[target];
+    const estimate = (i: number): number => haversineMeters(this.lats[i], this.lngs[i], tLat, tLng);
+    this.seenRound[source] = round;
+    this.costs[source] = 0;
+    heap.push(source, estimate(source));
+    let expansions = 0;
+    while (heap.size > 0) {
+      const node = heap.pop();
+      if (this.closedRound[node] === round) continue;
+      if (node === target) return this.costs[node];
+      this.closedRound[node] = round;
+      if (++expansions > MAX_EXPANSIONS) return null;
+      const base = this.costs[node];
+      for (let e = this.offsets[node]; e < this.offsets[node + 1]; e++) {
+        const next = this.targets[e];
+        if (this.closedRound[next] === round) continue;
+        const cost = base + this.lengths[e];
+        if (this.seenRound[next] === round && cost >= this.costs[next]) continue;
+        const f = cost + estimate(next);
+        if (f > limit) continue;
+        this.seenRound[next] = round;
+        this.costs[next] = cost;
+        heap.push(next, f);
+      }
+    }
+    return null;
+  }
+}
+
+// 最大（无向）连通分量中的节点；吸附只在其中进行，避免落到查询范围边缘截断出的孤立路段上
+function largestComponent(n: number, from: number[], to: number[]): number[] {
+  const parent = new Int32Array(n);
+  for (let i = 0; i < n; i++) parent[i] = i;
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (let e = 0; e < from.length; e++) {
+    const a = find(from[e]);
+    const b = find(to[e]);
+    if (a !== b) parent[a] = b;
+  }
+  const sizes = new Int32Array(n);
+  let best = -1;
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    sizes[root]++;
+    if (best < 0 || sizes[root] > sizes[best]) best = root;
+  }
+  const nodes: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (find(i) === best) nodes.push(i);
+  }
+  return nodes;
+}
+
+// 二叉小顶堆（按 f 值），允许同一节点重复入堆，出堆时跳过已关闭的
+class MinHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  public get size(): number {
+    return this.nodes.length;
+  }
+
+  public push(node: number, key: number): void {
+    let i = this.nodes.length;
+    this.nodes.push(node);
+    this.keys.push(key);
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (this.keys[p] <= key) break;
+      this.nodes[i] = this.nodes[p];
+      this.keys[i] = this.keys[p];
+      i = p;
+    }
+    this.nodes[i] = node;
+    this.keys[i] = key;
+  }
+
+  public pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastKey = this.keys.pop()!;
+    const n = this.nodes.length;
+    if (n > 0) {
+      let i = 0;
+      while (true) {
+        let c = 2 * i + 1;
+        if (c >= n) break;
+        if (c + 1 < n && this.keys[c + 1] < this.keys[c]) c++;
+        if (this.keys[c] >= lastKey) break;
+        this.nodes[i] = this.nodes[c];
+        this.keys[i] = this.keys[c];
+        i = c;
+      }
+      this.nodes[i] = lastNode;
+      this.keys[i] = lastKey;
+    }
+    return top;
+  }
+}
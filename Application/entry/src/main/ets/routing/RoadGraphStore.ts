@@ -0,0 +1,228 @@
+import preferences from '@ohos.data.preferences';
+import fs from '@ohos.file.fs';
+import { GeoPoint } from '../common/types';
+import { haversineMeters } from '../common/distance';
+import { readTextFile, writeTextFile } from '../common/fileIo';
+import { isNetworkAvailable } from '../common/network';
+import { OverpassClient } from '../map/OverpassClient';
+import { buildRoadGraphQuery, extentOf, OsmWay, parseOsmWays, RoadGraph } from './RoadGraph';
+import { RoadGraphSource } from './GraphRouter';
+import {
+  ROAD_GRAPH_EDGE_MARGIN_M,
+  ROAD_GRAPH_FETCH_RADIUS_M,
+  ROAD_GRAPH_MAX_CACHED,
+  ROAD_GRAPH_TTL_MS
+} from '../common/config';
+
+// 一份路网数据（Overpass 原始 JSON 存为文件，索引存在首选项中）
+type RoadGraphEntry = {
+  id: string;
+  latitude: number;   // 覆盖范围中心
+  longitude: number;
+  radiusM: number;
+  savedAt: number;
+  imported: boolean;  // 用户导入的文件不过期、不淘汰
+};
+
+export interface RoadGraphSummary {
+  cached: number;     // 自动下载的区域数
+  imported: number;   // 导入的文件数
+}
+
+/**
+ * 离线路网数据
+ * 来源为用户导入的 OSM 文件，或检索时在后台下载并缓存的 Overpass 输出；
+ * 没有覆盖定位点的数据时先返回 null（本次按直线估算），同时在后台下载，下次检索即可使用
+ */
+class RoadGraphStore implements RoadGraphSource {
+  private static instance: RoadGraphStore | null = null;
+  private pref!: preferences.Preferences;
+  private dir: string;
+  private entries: RoadGraphEntry[] = [];
+  // 只保留最近使用的一份解析结果及其各出行方式的路网，避免占用过多内存
+  private loadedId: string = '';
+  private loadedWays: OsmWay[] = [];
+  private graphs: Map<string, RoadGraph> = new Map();
+  private downloading: Promise<void> | null = null;
+  private static readonly PREF_NAME = 'road_graph';
+  private static readonly ENTRIES_KEY = 'entries';
+
+  private constructor(pref: preferences.Preferences, dir: string) {
+    this.pref = pref;
+    this.dir = dir;
+  }
+
+  public static async init(context: any): Promise<void> {
+    if (!RoadGraphStore.instance) {
+      const pref = await preferences.getPreferences(context, RoadGraphStore.PREF_NAME);
+      const dir = `${context.filesDir}/road_graph`;
+      if (!await fs.access(dir)) {
+        await fs.mkdir(dir);
+      }
+      const store = new RoadGraphStore(pref, dir);
+      await store.load();
+      RoadGraphStore.instance = store;
+    }
+  }
+
+  public static getInstance(): RoadGraphStore {
+    if (!RoadGraphStore.instance) {
+      throw new Error('RoadGraphStore has not been initialized. Call init() first.');
+    }
+    return RoadGraphStore.instance;
+  }
+
+  public static isInitialized(): boolean {
+    return RoadGraphStore.instance !== null;
+  }
+
+  public async graphFor(origin: GeoPoint, travelMode: string): Promise<RoadGraph | null> {
+    const entry = this.coveringEntry(origin);
+    if (!entry || (!entry.imported && Date.now() - entry.savedAt > ROAD_GRAPH_TTL_MS)) {
+      this.prefetch(origin);
+    }
+    if (!entry) {
+      return null;
+    }
+    try {
+      return await this.graphOf(entry, travelMode);
+    } catch (e) {
+      // 文件缺失或损坏：丢弃该份数据，下次重新下载
+      console.warn('读取路网数据失败:', e);
+      await this.remove([entry]);
+      return null;
+    }
+  }
+
+  /**
+   * 导入 Overpass JSON 格式的 OSM 道路文件，返回其中的道路段数
+   */
+  public async importText(text: string): Promise<number> {
+    let ways: OsmWay[];
+    try {
+      ways = parseOsmWays(text);
+    } catch (e) {
+      throw new Error(`路网文件解析失败: ${(e as Error).message}`);
+    }
+    const extent = extentOf(ways);
+    if (!extent) {
+      throw new Error('文件中没有道路数据');
+    }
+    await this.save({
+      id: `imported_${Date.now()}`,
+      latitude: extent.center.lat,
+      longitude: extent.center.lng,
+      radiusM: extent.radiusM,
+      savedAt: Date.now(),
+      imported: true
+    }, text);
+    return ways.length;
+  }
+
+  public summary(): RoadGraphSummary {
+    const imported = this.entries.filter(e => e.imported).length;
+    return { cached: this.entries.length - imported, imported };
+  }
+
+  public async clear(): Promise<void> {
+    await this.remove(this.entries.slice());
+  }
+
+  // 覆盖定位点（距边界留有余量）的数据，导入的优先，其次最新下载的
+  private coveringEntry(origin: GeoPoint): RoadGraphEntry | null {
+    const covering = this.entries
+      .filter(e => haversineMeters(origin.lat, origin.lng, e.latitude, e.longitude) <=
+        e.radiusM - ROAD_GRAPH_EDGE_MARGIN_M)
+      .sort((a, b) => a.imported !== b.imported ? (a.imported ? -1 : 1) : b.savedAt - a.savedAt);
+    return covering.length > 0 ? covering[0] : null;
+  }
+
+  private async graphOf(entry: RoadGraphEntry, travelMode: string): Promise<RoadGraph> {
+    if (this.loadedId !== entry.id) {
+      this.loadedWays = parseOsmWays(await readTextFile(this.pathOf(entry)));
+      this.loadedId = entry.id;
+      this.graphs.clear();
+    }
+    let graph = this.graphs.get(travelMode);
+    if (!graph) {
+      graph = new RoadGraph(this.loadedWays, travelMode);
+      this.graphs.set(travelMode, graph);
+    }
+    return graph;
+  }
+
+  // 后台下载定位点周围的道路数据；同一时间只进行一次
+  private prefetch(origin: GeoPoint): void {
+    if (this.downloading || !isNetworkAvailable()) {
+      return;
+    }
+    this.downloading = this.download(origin)
+      .catch((e: Error) => console.warn('下载路网数据失败:', e))
+      .finally(() => this.downloading = null);
+  }
+
+  private async download(origin: GeoPoint): Promise<void> {
+    const query = buildRoadGraphQuery(origin.lat, origin.lng, ROAD_GRAPH_FETCH_RADIUS_M);
+    const raw = await OverpassClient.getDefault().query(query);
+    await this.save({
+      id: `overpass_${Date.now()}`,
+      latitude: origin.lat,
+      longitude: origin.lng,
+      radiusM: ROAD_GRAPH_FETCH_RADIUS_M,
+      savedAt: Date.now(),
+      imported: false
+    }, raw);
+  }
+
+  // 写入文件并登记；自动下载的超过上限时淘汰最旧的
+  private async save(entry: RoadGraphEntry, raw: string): Promise<void> {
+    await writeTextFile(this.pathOf(entry), raw);
+    this.entries.push(entry);
+    const cached = this.entries.filter(e => !e.imported).sort((a, b) => b.savedAt - a.savedAt);
+    if (cached.length > ROAD_GRAPH_MAX_CACHED) {
+      await this.remove(cached.slice(ROAD_GRAPH_MAX_CACHED));
+    } else {
+      await this.saveEntries();
+    }
+  }
+
+  private async remove(stale: RoadGraphEntry[]): Promise<void> {
+    const ids = new Set<string>(stale.map(e => e.id));
+    this.entries = this.entries.filter(e => !ids.has(e.id));
+    if (ids.has(this.loadedId)) {
+      this.loadedId = '';
+      this.loadedWays = [];
+      this.graphs.clear();
+    }
+    for (const entry of stale) {
+      try {
+        await fs.unlink(this.pathOf(entry));
+      } catch (_) {
+        // 文件已不存在
+      }
+    }
+    await this.saveEntries();
+  }
+
+  private pathOf(entry: RoadGraphEntry): string {
+    return `${this.dir}/${entry.id}.json`;
+  }
+
+  private async load(): Promise<void> {
+    const raw = await this.pref.get(RoadGraphStore.ENTRIES_KEY, '[]') as string;
+    try {
+      const parsed = JSON.parse(raw);
+      this.entries = Array.isArray(parsed) ? parsed as RoadGraphEntry[] : [];
+    } catch (e) {
+      console.warn('路网索引损坏，已重置:', e);
+      this.entries = [];
+    }
+  }
+
+  private async saveEntries(): Promise<void> {
+    await this.pref.put(RoadGraphStore.ENTRIES_KEY, JSON.stringify(this.entries));
+    await this.pref.flush();
+  }
+}
+
+export default RoadGraphStore;
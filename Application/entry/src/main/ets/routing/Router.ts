@@ -0,0 +1,87 @@
+/**
+ * 路程与用时估算
+ * Router 为可替换的路径规划接口，按出行方式估算从定位点到各公厕的路程；
+ * 没有路网数据时按直线距离乘以绕行系数估算（StraightLineRouter）
+ */
+
+import { RouteEstimate, ToiletPoi } from '../map/MapService';
+import { GeoPoint, TravelMode } from '../common/types';
+import { CancellationToken, isCancelledError } from '../common/cancellation';
+import { haversineMeters } from '../common/distance';
+import { CYCLING_SPEED_M_PER_MIN, ROUTE_DETOUR_FACTOR, WALKING_SPEED_M_PER_MIN } from '../common/config';
+
+export enum RouteMethod {
+  NETWORK = 'network',             // 路网最短路径
+  STRAIGHT_LINE = 'straight_line'  // 直线距离乘绕行系数
+}
+
+export interface Router {
+  readonly name: string;
+
+  /**
+   * 估算从起点到各目标点的路程，结果与 targets 一一对应
+   * 单个目标无法规划时按直线估算，不应抛出
+   */
+  estimate(origin: GeoPoint, targets: GeoPoint[], travelMode: string,
+    token?: CancellationToken): Promise<RouteEstimate[]>;
+}
+
+/**
+ * 按出行方式把路程换算为用时（分钟，向上取整，至少 1 分钟）
+ */
+export function minutesFor(distanceM: number, travelMode: string): number {
+  const speed = travelMode === TravelMode.CYCLING ? CYCLING_SPEED_M_PER_MIN : WALKING_SPEED_M_PER_MIN;
+  return Math.max(1, Math.ceil(distanceM / speed));
+}
+
+/**
+ * 由路程构造估算结果
+ */
+export function routeEstimate(distanceM: number, travelMode: string, method: RouteMethod): RouteEstimate {
+  return { distanceM: Math.round(distanceM), minutes: minutesFor(distanceM, travelMode), travelMode, method };
+}
+
+/**
+ * 直线距离乘以绕行系数的估算
+ */
+export function straightLineEstimate(straightM: number, travelMode: string): RouteEstimate {
+  return routeEstimate(straightM * ROUTE_DETOUR_FACTOR, travelMode, RouteMethod.STRAIGHT_LINE);
+}
+
+/**
+ * 取公厕在指定出行方式下的路程估算；尚未按该方式规划时按直线距离估算
+ */
+export function routeOf(poi: ToiletPoi, travelMode: string): RouteEstimate {
+  if (poi.route && poi.route.travelMode === travelMode) {
+    return poi.route;
+  }
+  return straightLineEstimate(poi.distance, travelMode);
+}
+
+/**
+ * 为结果附上路程估算，返回新数组；规划出错时原样返回（展示时按直线估算）
+ */
+export async function withRoutes(router: Router, origin: GeoPoint, pois: ToiletPoi[], travelMode: string,
+  token?: CancellationToken): Promise<ToiletPoi[]> {
+  if (pois.length === 0) {
+    return pois;
+  }
+  try {
+    const targets: GeoPoint[] = pois.map(p => ({ lat: p.location.latitude, lng: p.location.longitude }));
+    const routes = await router.estimate(origin, targets, travelMode, token);
+    return pois.map((p, i) => routes[i] ? { ...p, route: routes[i] } : p);
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+    console.warn(`Router ${router.name} failed:`, error);
+    return pois;
+  }
+}
+
+// 不依赖路网数据的估算
+export class StraightLineRouter implements Router {
+  public readonly name: string = 'straight_line';
+
+  public async estimate(origin: GeoPoint, targets: GeoPoint[], travelMode: string): Promise<RouteEstimate[]> {
+    return targets.map(t => straightLineEstimate(haversineMeters(origin.lat, origin.lng, t.lat, t.lng), travelMode));
+  }
+}
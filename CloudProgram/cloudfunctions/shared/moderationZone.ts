@@ -0,0 +1,198 @@
+import { cloud } from '@hw-agconnect/cloud-server';
+import { ModerationZone, SubmissionRecord, SubmissionStatus, ToiletRecord } from './moderation';
+
+// 与 clouddb/dataentry/d_Toilet.json 中的 cloudDBZoneName 一致
+export const TOILET_ZONE_NAME = 'Toilets';
+
+// 单次 in 查询的网格数量上限
+const CELL_QUERY_BATCH = 50;
+
+class ToiletSubmission {
+  id: string = '';
+  userId: string = '';
+  name: string = '';
+  latitude: number = 0;
+  longitude: number = 0;
+  geohash6: string = '';
+  openingHours: string = '';
+  fee: string = '';
+  wheelchair: string = '';
+  changingTable: string = '';
+  attributes: string = '{}';
+  status: string = SubmissionStatus.PENDING;
+  reason: string = '';
+  duplicateOf: string = '';
+  createdAt: Date | undefined;
+  reviewedAt: Date | undefined;
+
+  getFieldTypeMap(): Map<string, string> {
+    const fieldTypeMap = new Map<string, string>();
+    fieldTypeMap.set('id', 'String');
+    fieldTypeMap.set('userId', 'String');
+    fieldTypeMap.set('name', 'String');
+    fieldTypeMap.set('latitude', 'Double');
+    fieldTypeMap.set('longitude', 'Double');
+    fieldTypeMap.set('geohash6', 'String');
+    fieldTypeMap.set('openingHours', 'String');
+    fieldTypeMap.set('fee', 'String');
+    fieldTypeMap.set('wheelchair', 'String');
+    fieldTypeMap.set('changingTable', 'String');
+    fieldTypeMap.set('attributes', 'String');
+    fieldTypeMap.set('status', 'String');
+    fieldTypeMap.set('reason', 'String');
+    fieldTypeMap.set('duplicateOf', 'String');
+    fieldTypeMap.set('createdAt', 'Date');
+    fieldTypeMap.set('reviewedAt', 'Date');
+    return fieldTypeMap;
+  }
+
+  getClassName(): string {
+    return 'ToiletSubmission';
+  }
+
+  getPrimaryKeyList(): string[] {
+    return ['id'];
+  }
+
+  getIndexList(): string[] {
+    return ['userId', 'status', 'createdAt'];
+  }
+
+  getEncryptedFieldList(): string[] {
+    return [];
+  }
+}
+
+class Toilet {
+  id: string = '';
+  name: string = '';
+  latitude: number = 0;
+  longitude: number = 0;
+  geohash4: string = '';
+  geohash5: string = '';
+  geohash6: string = '';
+  openingHours: string = '';
+  fee: string = '';
+  wheelchair: string = '';
+  changingTable: string = '';
+  attributes: string = '{}';
+  source: string = '';
+  submissionId: string = '';
+  createdAt: Date | undefined;
+  updatedAt: Date | undefined;
+
+  getFieldTypeMap(): Map<string, string> {
+    const fieldTypeMap = new Map<string, string>();
+    fieldTypeMap.set('id', 'String');
+    fieldTypeMap.set('name', 'String');
+    fieldTypeMap.set('latitude', 'Double');
+    fieldTypeMap.set('longitude', 'Double');
+    fieldTypeMap.set('geohash4', 'String');
+    fieldTypeMap.set('geohash5', 'String');
+    fieldTypeMap.set('geohash6', 'String');
+    fieldTypeMap.set('openingHours', 'String');
+    fieldTypeMap.set('fee', 'String');
+    fieldTypeMap.set('wheelchair', 'String');
+    fieldTypeMap.set('changingTable', 'String');
+    fieldTypeMap.set('attributes', 'String');
+    fieldTypeMap.set('source', 'String');
+    fieldTypeMap.set('submissionId', 'String');
+    fieldTypeMap.set('createdAt', 'Date');
+    fieldTypeMap.set('updatedAt', 'Date');
+    return fieldTypeMap;
+  }
+
+  getClassName(): string {
+    return 'Toilet';
+  }
+
+  getPrimaryKeyList(): string[] {
+    return ['id'];
+  }
+
+  getIndexList(): string[] {
+    return ['geohash4', 'geohash5', 'geohash6'];
+  }
+
+  getEncryptedFieldList(): string[] {
+    return [];
+  }
+}
+
+/**
+ * 基于 AGC 服务端 SDK 的 ModerationZone 实现
+ */
+export class CloudDbModerationZone implements ModerationZone {
+  private database: any;
+
+  constructor(zoneName: string = TOILET_ZONE_NAME) {
+    this.database = cloud.database({ zoneName });
+  }
+
+  async submissionsByUser(userId: string, since: Date): Promise<SubmissionRecord[]> {
+    const rows: ToiletSubmission[] = await this.database.collection(ToiletSubmission).query()
+      .equalTo('userId', userId)
+      .greaterThanOrEqualTo('createdAt', since)
+      .get();
+    return rows.map(toSubmissionRecord);
+  }
+
+  async pendingSubmissions(limit: number): Promise<SubmissionRecord[]> {
+    const rows: ToiletSubmission[] = await this.database.collection(ToiletSubmission).query()
+      .equalTo('status', SubmissionStatus.PENDING)
+      .orderByAsc('createdAt')
+      .limit(limit)
+      .get();
+    return rows.map(toSubmissionRecord);
+  }
+
+  async getSubmission(id: string): Promise<SubmissionRecord | null> {
+    const rows: ToiletSubmission[] = await this.database.collection(ToiletSubmission).query()
+      .equalTo('id', id)
+      .get();
+    return rows.length > 0 ? toSubmissionRecord(rows[0]) : null;
+  }
+
+  async toiletsInCells(cells: string[]): Promise<ToiletRecord[]> {
+    const result: ToiletRecord[] = [];
+    for (let i = 0; i < cells.length; i += CELL_QUERY_BATCH) {
+      const rows: Toilet[] = await this.database.collection(Toilet).query()
+        .in('geohash6', cells.slice(i, i + CELL_QUERY_BATCH))
+        .get();
+      for (const row of rows) {
+        result.push({
+          ...row,
+          createdAt: new Date(row.createdAt ?? 0),
+          updatedAt: new Date(row.updatedAt ?? 0)
+        });
+      }
+    }
+    return result;
+  }
+
+  async upsertSubmission(submission: SubmissionRecord): Promise<void> {
+    const row = new ToiletSubmission();
+    Object.assign(row, submission, { reviewedAt: submission.reviewedAt ?? undefined });
+    await this.database.collection(ToiletSubmission).upsert(row);
+  }
+
+  async upsertToilet(toilet: ToiletRecord): Promise<void> {
+    const row = new Toilet();
+    Object.assign(row, toilet);
+    await this.database.collection(Toilet).upsert(row);
+  }
+
+  async deleteToilet(id: string): Promise<void> {
+    const row = new Toilet();
+    row.id = id;
+    await this.database.collection(Toilet).delete(row);
+  }
+}
+
+function toSubmissionRecord(row: ToiletSubmission): SubmissionRecord {
+  return {
+    ...row,
+    createdAt: new Date(row.createdAt ?? 0),
+    reviewedAt: row.reviewedAt ? new Date(row.reviewedAt) : null
+  };
+}
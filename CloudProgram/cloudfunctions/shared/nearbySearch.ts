@@ -0,0 +1,246 @@
+/**
+ * 服务端附近公厕检索
+ * 公厕按 geohash4/5/6 三级前缀字段分桶；检索时按半径选择精度，扫描与圆相交的网格后按真实距离过滤排序
+ * 不依赖云数据库 SDK，通过 SearchZone 读写，便于用内存实现做单元测试
+ */
+
+import { encodeGeohash, geohashesInCircle, haversineMeters } from './geohash';
+
+export const MAX_RADIUS_M = 20000;
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 200;
+export const MAX_IMPORT_BATCH = 500;
+
+// 可用于检索的前缀字段；精度越低单格越大，适合大半径
+export type GeohashField = 'geohash4' | 'geohash5' | 'geohash6';
+
+interface PrecisionLevel {
+  field: GeohashField;
+  precision: number;
+  maxRadiusM: number;    // 不超过此半径时使用该精度，网格数保持在十几个以内
+}
+
+const PRECISION_LEVELS: PrecisionLevel[] = [
+  { field: 'geohash6', precision: 6, maxRadiusM: 1500 },
+  { field: 'geohash5', precision: 5, maxRadiusM: 8000 },
+  { field: 'geohash4', precision: 4, maxRadiusM: MAX_RADIUS_M }
+];
+
+export enum ToiletOrigin {
+  CURATED = 'curated',     // 运营导入的数据
+  COMMUNITY = 'community'  // 用户补充、审核通过的数据
+}
+
+// 云数据库 Toilet 记录；可选布尔值以 'yes' / 'no' / '' 存储，与 OSM 取值一致
+export interface ToiletRecord {
+  id: string;
+  name: string;
+  latitude: number;            // WGS-84
+  longitude: number;
+  geohash4: string;
+  geohash5: string;
+  geohash6: string;
+  openingHours: string;
+  fee: string;
+  wheelchair: string;
+  changingTable: string;
+  attributes: string;          // JSON
+  source: string;              // ToiletOrigin
+  submissionId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 运营导入的公厕
+export interface CuratedToilet {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  openingHours?: string;
+  fee?: boolean;
+  wheelchair?: string;
+  changingTable?: boolean;
+  attributes?: Record<string, string>;
+}
+
+export interface NearbyQuery {
+  latitude: number;
+  longitude: number;
+  radiusM: number;
+  limit?: number;
+}
+
+// 返回给客户端的公厕（日期转为时间戳，便于跨端序列化）
+export interface NearbyToilet {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  distance: number;            // 米，取整
+  openingHours?: string;
+  fee?: boolean;
+  wheelchair?: string;
+  changingTable?: boolean;
+  attributes?: Record<string, string>;
+  source: string;
+  updatedAt: number;
+}
+
+export interface NearbyResult {
+  toilets: NearbyToilet[];
+  precision: number;           // 本次扫描使用的 geohash 精度
+  cellsScanned: number;
+  truncated: boolean;          // 半径内结果超过 limit，已截断
+}
+
+export interface SearchZone {
+  toiletsInCells(field: GeohashField, cells: string[]): Promise<ToiletRecord[]>;
+  getToilets(ids: string[]): Promise<ToiletRecord[]>;
+  upsertToilets(toilets: ToiletRecord[]): Promise<void>;
+}
+
+export class SearchValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchValidationError';
+  }
+}
+
+/**
+ * 按半径选择扫描精度
+ */
+export function choosePrecision(radiusM: number): PrecisionLevel {
+  return PRECISION_LEVELS.find(level => radiusM <= level.maxRadiusM) ?? PRECISION_LEVELS[PRECISION_LEVELS.length - 1];
+}
+
+/**
+ * 计算三级 geohash 前缀字段
+ */
+export function geohashFields(latitude: number, longitude: number): Pick<ToiletRecord, GeohashField> {
+  const geohash6 = encodeGeohash(latitude, longitude, 6);
+  return { geohash4: geohash6.substring(0, 4), geohash5: geohash6.substring(0, 5), geohash6 };
+}
+
+export function validateCoordinates(latitude: number, longitude: number): void {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+    latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180 ||
+    (latitude === 0 && longitude === 0)) {
+    throw new SearchValidationError('invalid coordinates');
+  }
+}
+
+export class ToiletSearch {
+  private zone: SearchZone;
+
+  constructor(zone: SearchZone) {
+    this.zone = zone;
+  }
+
+  async searchNearby(query: NearbyQuery): Promise<NearbyResult> {
+    if (!query) {
+      throw new SearchValidationError('query is required');
+    }
+    validateCoordinates(query.latitude, query.longitude);
+    if (!Number.isFinite(query.radiusM) || query.radiusM <= 0 || query.radiusM > MAX_RADIUS_M) {
+      throw new SearchValidationError(`radiusM must be in (0, ${MAX_RADIUS_M}]`);
+    }
+    const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+
+    const level = choosePrecision(query.radiusM);
+    const cells = geohashesInCircle(query.latitude, query.longitude, query.radiusM, level.precision);
+    const rows = await this.zone.toiletsInCells(level.field, cells);
+
+    const seen = new Set<string>();
+    const hits: NearbyToilet[] = [];
+    for (const row of rows) {
+      if (seen.has(row.id)) continue;
+      seen.add(row.id);
+      const distance = haversineMeters(query.latitude, query.longitude, row.latitude, row.longitude);
+      if (distance <= query.radiusM) {
+        hits.push(toNearbyToilet(row, Math.round(distance)));
+      }
+    }
+    hits.sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+    return {
+      toilets: hits.slice(0, limit),
+      precision: level.precision,
+      cellsScanned: cells.length,
+      truncated: hits.length > limit
+    };
+  }
+
+  /**
+   * 导入运营数据：按 id 覆盖写入并重算前缀字段，保留已有记录的 createdAt
+   * 返回写入条数
+   */
+  async importCurated(toilets: CuratedToilet[], now: Date = new Date()): Promise<number> {
+    if (!Array.isArray(toilets) || toilets.length === 0) return 0;
+    if (toilets.length > MAX_IMPORT_BATCH) {
+      throw new SearchValidationError(`at most ${MAX_IMPORT_BATCH} toilets per import`);
+    }
+    for (const t of toilets) {
+      if (!t || typeof t.id !== 'string' || t.id.trim().length === 0) {
+        throw new SearchValidationError('id is required');
+      }
+      if (typeof t.name !== 'string' || t.name.trim().length === 0) {
+        throw new SearchValidationError(`name is required for ${t.id}`);
+      }
+      validateCoordinates(t.latitude, t.longitude);
+    }
+    const existing = await this.zone.getToilets(toilets.map(t => t.id.trim()));
+    const createdAt = new Map<string, Date>();
+    for (const row of existing) createdAt.set(row.id, row.createdAt);
+
+    const records: ToiletRecord[] = toilets.map(t => ({
+      id: t.id.trim(),
+      name: t.name.trim(),
+      latitude: t.latitude,
+      longitude: t.longitude,
+      ...geohashFields(t.latitude, t.longitude),
+      openingHours: (t.openingHours ?? '').trim(),
+      fee: yesNo(t.fee),
+      wheelchair: t.wheelchair ?? '',
+      changingTable: yesNo(t.changingTable),
+      attributes: JSON.stringify(t.attributes ?? {}),
+      source: ToiletOrigin.CURATED,
+      submissionId: '',
+      createdAt: createdAt.get(t.id.trim()) ?? now,
+      updatedAt: now
+    }));
+    await this.zone.upsertToilets(records);
+    return records.length;
+  }
+}
+
+function toNearbyToilet(row: ToiletRecord, distance: number): NearbyToilet {
+  const toilet: NearbyToilet = {
+    id: row.id,
+    name: row.name,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    distance,
+    source: row.source,
+    updatedAt: row.updatedAt.getTime()
+  };
+  if (row.openingHours) toilet.openingHours = row.openingHours;
+  if (row.fee) toilet.fee = row.fee === 'yes';
+  if (row.wheelchair) toilet.wheelchair = row.wheelchair;
+  if (row.changingTable) toilet.changingTable = row.changingTable === 'yes';
+  const attributes = parseAttributes(row.attributes);
+  if (attributes) toilet.attributes = attributes;
+  return toilet;
+}
+
+function parseAttributes(raw: string): Record<string, string> | undefined {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && Object.keys(parsed).length > 0 ? parsed : undefined;
+  } catch (_) {
+    return undefined;
+  }
+}
+
+function yesNo(value: boolean | undefined): string {
+  return value === undefined ? '' : (value ? 'yes' : 'no');
+}
@@ -0,0 +1,70 @@
+/**
+ * 运营后台请求的解析与分发
+ * 不依赖云数据库 SDK，审核与导入通过传入的 Moderator、ToiletSearch 完成，便于用内存实现做单元测试
+ */
+
+import { Moderator, SubmissionResult, SubmissionValidationError } from './shared/moderation';
+import { CuratedToilet, SearchValidationError, ToiletSearch } from './shared/nearbySearch';
+
+// HTTP 请求体：按 action 区分操作
+export type AdminRequest =
+  | { action: 'processPending'; limit?: number }
+  | { action: 'reject'; id: string; reason: string }
+  | { action: 'importCurated'; toilets: CuratedToilet[] };
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// 管理操作依赖的服务
+export interface AdminServices {
+  moderator: Moderator;
+  search: ToiletSearch;
+}
+
+/**
+ * 处理一次 HTTP 请求：请求体或参数无效时返回 400，其余错误返回 500
+ */
+export async function handleRequest(body: string | undefined, services: AdminServices): Promise<HttpResponse> {
+  try {
+    const request = JSON.parse(body || '{}') as AdminRequest;
+    return respond(200, await dispatch(request, services));
+  } catch (error) {
+    const badRequest = error instanceof SubmissionValidationError || error instanceof SearchValidationError ||
+      error instanceof SyntaxError;
+    console.error(`Admin request failed: ${(error as Error)?.message}`);
+    return respond(badRequest ? 400 : 500, { error: (error as Error)?.message || String(error) });
+  }
+}
+
+export async function dispatch(request: AdminRequest,
+  services: AdminServices): Promise<SubmissionResult | SubmissionResult[] | number> {
+  switch (request?.action) {
+    case 'processPending': {
+      const results = await services.moderator.processPending(request.limit ?? 50);
+      console.info(`Processed ${results.length} pending submissions`);
+      return results;
+    }
+    case 'reject': {
+      if (typeof request.id !== 'string' || typeof request.reason !== 'string') {
+        throw new SubmissionValidationError('id and reason are required');
+      }
+      const result = await services.moderator.reject(request.id, request.reason);
+      console.info(`Submission ${request.id} rejected: ${request.reason}`);
+      return result;
+    }
+    case 'importCurated': {
+      const count = await services.search.importCurated(request.toilets);
+      console.info(`Imported ${count} curated toilets`);
+      return count;
+    }
+    default:
+      throw new SubmissionValidationError(`unknown action: ${(request as { action?: string })?.action}`);
+  }
+}
+
+function respond(statusCode: number, payload: unknown): HttpResponse {
+  return { statusCode, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) };
+}
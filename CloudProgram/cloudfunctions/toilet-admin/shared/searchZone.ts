@@ -0,0 +1,110 @@
+// 由 scripts/syncShared.js 从 cloudfunctions/shared/searchZone.ts 复制，请勿直接修改
+import { cloud } from '@hw-agconnect/cloud-server';
+import { GeohashField, SearchZone, ToiletRecord } from './nearbySearch';
+
+// 与 clouddb/dataentry/d_Toilet.json 中的 cloudDBZoneName 一致
+export const TOILET_ZONE_NAME = 'Toilets';
+
+// 单次 in 查询的取值数量上限
+const IN_QUERY_BATCH = 50;
+
+class Toilet {
+  id: string = '';
+  name: string = '';
+  latitude: number = 0;
+  longitude: number = 0;
+  geohash4: string = '';
+  geohash5: string = '';
+  geohash6: string = '';
+  openingHours: string = '';
+  fee: string = '';
+  wheelchair: string = '';
+  changingTable: string = '';
+  attributes: string = '{}';
+  source: string = '';
+  submissionId: string = '';
+  createdAt: Date | undefined;
+  updatedAt: Date | undefined;
+
+  getFieldTypeMap(): Map<string, string> {
+    const fieldTypeMap = new Map<string, string>();
+    fieldTypeMap.set('id', 'String');
+    fieldTypeMap.set('name', 'String');
+    fieldTypeMap.set('latitude', 'Double');
+    fieldTypeMap.set('longitude', 'Double');
+    fieldTypeMap.set('geohash4', 'String');
+    fieldTypeMap.set('geohash5', 'String');
+    fieldTypeMap.set('geohash6', 'String');
+    fieldTypeMap.set('openingHours', 'String');
+    fieldTypeMap.set('fee', 'String');
+    fieldTypeMap.set('wheelchair', 'String');
+    fieldTypeMap.set('changingTable', 'String');
+    fieldTypeMap.set('attributes', 'String');
+    fieldTypeMap.set('source', 'String');
+    fieldTypeMap.set('submissionId', 'String');
+    fieldTypeMap.set('createdAt', 'Date');
+    fieldTypeMap.set('updatedAt', 'Date');
+    return fieldTypeMap;
+  }
+
+  getClassName(): string {
+    return 'Toilet';
+  }
+
+  getPrimaryKeyList(): string[] {
+    return ['id'];
+  }
+
+  getIndexList(): string[] {
+    return ['geohash4', 'geohash5', 'geohash6'];
+  }
+
+  getEncryptedFieldList(): string[] {
+    return [];
+  }
+}
+
+/**
+ * 基于 AGC 服务端 SDK 的 SearchZone 实现
+ */
+export class CloudDbSearchZone implements SearchZone {
+  private database: any;
+
+  constructor(zoneName: string = TOILET_ZONE_NAME) {
+    this.database = cloud.database({ zoneName });
+  }
+
+  async toiletsInCells(field: GeohashField, cells: string[]): Promise<ToiletRecord[]> {
+    return await this.queryIn(field, cells);
+  }
+
+  async getToilets(ids: string[]): Promise<ToiletRecord[]> {
+    return await this.queryIn('id', ids);
+  }
+
+  async upsertToilets(toilets: ToiletRecord[]): Promise<void> {
+    const rows = toilets.map(t => {
+      const row = new Toilet();
+      Object.assign(row, t);
+      return row;
+    });
+    await this.database.collection(Toilet).upsert(rows);
+  }
+
+  private async queryIn(field: string, values: string[]): Promise<ToiletRecord[]> {
+    const result: ToiletRecord[] = [];
+    for (let i = 0; i < values.length; i += IN_QUERY_BATCH) {
+      const rows: Toilet[] = await this.database.collection(Toilet).query()
+        .in(field, values.slice(i, i + IN_QUERY_BATCH))
+        .get();
+      for (const row of rows) {
+        result.push({
+          ...row,
+          createdAt: new Date(row.createdAt ?? 0),
+          updatedAt: new Date(row.updatedAt ?? 0)
+        });
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { AdminServices, handleRequest } from '../adminRequest';
+import { CELL_PRECISION, Moderator, SubmissionRecord, SubmissionStatus, ToiletRecord } from '../shared/moderation';
+import { ToiletSearch } from '../shared/nearbySearch';
+import { encodeGeohash } from '../shared/geohash';
+import { MemoryModerationZone, MemorySearchZone } from './memoryZone';
+
+function setup(): { services: AdminServices; moderation: MemoryModerationZone; toilets: Map<string, ToiletRecord> } {
+  const toilets = new Map<string, ToiletRecord>();
+  const moderation = new MemoryModerationZone(toilets);
+  let n = 0;
+  const services: AdminServices = {
+    moderator: new Moderator(moderation, () => `s${++n}`),
+    search: new ToiletSearch(new MemorySearchZone(toilets))
+  };
+  return { services, moderation, toilets };
+}
+
+function pending(id: string, createdAt: number, latitude: number): SubmissionRecord {
+  return {
+    id, userId: 'u1', name: id, latitude, longitude: 120,
+    geohash6: encodeGeohash(latitude, 120, CELL_PRECISION),
+    openingHours: '', fee: '', wheelchair: '', changingTable: '', attributes: '{}',
+    status: SubmissionStatus.PENDING, reason: '', duplicateOf: '', createdAt: new Date(createdAt), reviewedAt: null
+  };
+}
+
+test('processPending moderates the backlog', async () => {
+  const { services, moderation, toilets } = setup();
+  await moderation.upsertSubmission(pending('early', 1000, 30));
+  await moderation.upsertSubmission(pending('late', 2000, 30.00005));
+  const response = await handleRequest(JSON.stringify({ action: 'processPending', limit: 10 }), services);
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(response.headers['Content-Type'], 'application/json');
+  const results = JSON.parse(response.body);
+  assert.deepStrictEqual(results.map((r: { status: string }) => r.status),
+    [SubmissionStatus.APPROVED, SubmissionStatus.DUPLICATE]);
+  assert.strictEqual(toilets.has('community_early'), true);
+});
+
+test('reject takes down the published toilet', async () => {
+  const { services, moderation, toilets } = setup();
+  await services.moderator.submit('u1', { name: 'A', latitude: 30, longitude: 120 });
+  const response = await handleRequest(JSON.stringify({ action: 'reject', id: 's1', reason: 'spam' }), services);
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual(JSON.parse(response.body), { id: 's1', status: SubmissionStatus.REJECTED });
+  assert.strictEqual(moderation.submissions.get('s1')?.reason, 'spam');
+  assert.strictEqual(toilets.has('community_s1'), false);
+});
+
+test('reject without a reason or of an unknown submission is a bad request', async () => {
+  const { services } = setup();
+  const missingReason = await handleRequest(JSON.stringify({ action: 'reject', id: 's1' }), services);
+  assert.strictEqual(missingReason.statusCode, 400);
+  const unknown = await handleRequest(JSON.stringify({ action: 'reject', id: 'missing', reason: 'x' }), services);
+  assert.strictEqual(unknown.statusCode, 400);
+});
+
+test('importCurated stores the toilets and returns the count', async () => {
+  const { services, toilets } = setup();
+  const response = await handleRequest(JSON.stringify({
+    action: 'importCurated',
+    toilets: [{ id: 'gov_1', name: '人民广场公厕', latitude: 31.2304, longitude: 121.4737 }]
+  }), services);
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(JSON.parse(response.body), 1);
+  assert.strictEqual(toilets.get('gov_1')?.name, '人民广场公厕');
+
+  const invalid = await handleRequest(JSON.stringify({
+    action: 'importCurated',
+    toilets: [{ id: '', name: 'A', latitude: 31.2304, longitude: 121.4737 }]
+  }), services);
+  assert.strictEqual(invalid.statusCode, 400);
+});
+
+test('unknown actions and malformed bodies are bad requests', async () => {
+  const { services } = setup();
+  const unknown = await handleRequest(JSON.stringify({ action: 'dropTables' }), services);
+  assert.strictEqual(unknown.statusCode, 400);
+  assert.match(JSON.parse(unknown.body).error, /unknown action: dropTables/);
+  assert.strictEqual((await handleRequest(undefined, services)).statusCode, 400);
+  assert.strictEqual((await handleRequest('{', services)).statusCode, 400);
+});
+
+test('storage failures are server errors', async () => {
+  const { services, moderation } = setup();
+  moderation.pendingSubmissions = async () => {
+    throw new Error('CloudDB unavailable');
+  };
+  const response = await handleRequest(JSON.stringify({ action: 'processPending' }), services);
+  assert.strictEqual(response.statusCode, 500);
+  assert.deepStrictEqual(JSON.parse(response.body), { error: 'CloudDB unavailable' });
+});
@@ -0,0 +1,69 @@
+import { ModerationZone, SubmissionRecord, SubmissionStatus, ToiletRecord } from '../shared/moderation';
+import { GeohashField, SearchZone } from '../shared/nearbySearch';
+
+/**
+ * 云数据库存储区的内存替身：按主键覆盖写入，读取时返回副本
+ * 审核与检索实际读写同一张 Toilet 表，两个替身共用 toilets
+ */
+export class MemoryModerationZone implements ModerationZone {
+  submissions: Map<string, SubmissionRecord> = new Map();
+  toilets: Map<string, ToiletRecord>;
+
+  constructor(toilets: Map<string, ToiletRecord> = new Map()) {
+    this.toilets = toilets;
+  }
+
+  async submissionsByUser(userId: string, since: Date): Promise<SubmissionRecord[]> {
+    return Array.from(this.submissions.values())
+      .filter(s => s.userId === userId && s.createdAt.getTime() >= since.getTime())
+      .map(s => ({ ...s }));
+  }
+
+  async pendingSubmissions(limit: number): Promise<SubmissionRecord[]> {
+    return Array.from(this.submissions.values())
+      .filter(s => s.status === SubmissionStatus.PENDING)
+      .slice(0, limit)
+      .map(s => ({ ...s }));
+  }
+
+  async getSubmission(id: string): Promise<SubmissionRecord | null> {
+    const submission = this.submissions.get(id);
+    return submission ? { ...submission } : null;
+  }
+
+  async toiletsInCells(cells: string[]): Promise<ToiletRecord[]> {
+    return Array.from(this.toilets.values()).filter(t => cells.indexOf(t.geohash6) >= 0).map(t => ({ ...t }));
+  }
+
+  async upsertSubmission(submission: SubmissionRecord): Promise<void> {
+    this.submissions.set(submission.id, { ...submission });
+  }
+
+  async upsertToilet(toilet: ToiletRecord): Promise<void> {
+    this.toilets.set(toilet.id, { ...toilet });
+  }
+
+  async deleteToilet(id: string): Promise<void> {
+    this.toilets.delete(id);
+  }
+}
+
+export class MemorySearchZone implements SearchZone {
+  toilets: Map<string, ToiletRecord>;
+
+  constructor(toilets: Map<string, ToiletRecord> = new Map()) {
+    this.toilets = toilets;
+  }
+
+  async toiletsInCells(field: GeohashField, cells: string[]): Promise<ToiletRecord[]> {
+    return Array.from(this.toilets.values()).filter(t => cells.indexOf(t[field]) >= 0).map(t => ({ ...t }));
+  }
+
+  async getToilets(ids: string[]): Promise<ToiletRecord[]> {
+    return ids.filter(id => this.toilets.has(id)).map(id => ({ ...this.toilets.get(id)! }));
+  }
+
+  async upsertToilets(toilets: ToiletRecord[]): Promise<void> {
+    for (const t of toilets) this.toilets.set(t.id, { ...t });
+  }
+}
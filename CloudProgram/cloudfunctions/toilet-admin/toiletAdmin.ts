@@ -0,0 +1,28 @@
+/**
+ * 运营后台专用的管理操作
+ * 触发器使用服务端鉴权（apigw-server），只有持有服务端凭据的运营工具能调用；
+ * 不是云对象，因此不会生成客户端代理
+ */
+
+import * as crypto from 'crypto';
+import { AdminServices, handleRequest, HttpResponse } from './adminRequest';
+import { Moderator } from './shared/moderation';
+import { CloudDbModerationZone } from './shared/moderationZone';
+import { ToiletSearch } from './shared/nearbySearch';
+import { CloudDbSearchZone } from './shared/searchZone';
+
+interface HttpEvent {
+  body?: string;
+}
+
+export async function handler(event: HttpEvent, context: unknown,
+  callback: (response: HttpResponse) => void): Promise<void> {
+  callback(await handleRequest(event?.body, createServices()));
+}
+
+function createServices(): AdminServices {
+  return {
+    moderator: new Moderator(new CloudDbModerationZone(), () => crypto.randomUUID()),
+    search: new ToiletSearch(new CloudDbSearchZone())
+  };
+}
@@ -0,0 +1,148 @@
+import { cloud } from '@hw-agconnect/cloud-server';
+import { ReviewRecord, ReviewZone, StatsRecord } from './reviewAggregator';
+
+// 评价数据所在的存储区，与 clouddb/dataentry/d_ToiletStats.json 中的 cloudDBZoneName 一致
+export const REVIEW_ZONE_NAME = 'Toilets';
+
+// 单个公厕参与汇总的评价上限
+const MAX_REVIEWS_PER_POI = 1000;
+
+class ToiletReview {
+  id: string = '';
+  poiId: string = '';
+  authorKey: string = '';
+  cleanliness: number = 0;
+  availability: number = 0;
+  content: string = '';
+  createdAt: Date | undefined;
+  updatedAt: Date | undefined;
+
+  getFieldTypeMap(): Map<string, string> {
+    const fieldTypeMap = new Map<string, string>();
+    fieldTypeMap.set('id', 'String');
+    fieldTypeMap.set('poiId', 'String');
+    fieldTypeMap.set('authorKey', 'String');
+    fieldTypeMap.set('cleanliness', 'Integer');
+    fieldTypeMap.set('availability', 'Integer');
+    fieldTypeMap.set('content', 'String');
+    fieldTypeMap.set('createdAt', 'Date');
+    fieldTypeMap.set('updatedAt', 'Date');
+    return fieldTypeMap;
+  }
+
+  getClassName(): string {
+    return 'ToiletReview';
+  }
+
+  getPrimaryKeyList(): string[] {
+    return ['id'];
+  }
+
+  getIndexList(): string[] {
+    return ['poiId', 'updatedAt'];
+  }
+
+  getEncryptedFieldList(): string[] {
+    return [];
+  }
+}
+
+class ToiletStats {
+  poiId: string = '';
+  reviewCount: number = 0;
+  cleanlinessTotal: number = 0;
+  availabilityTotal: number = 0;
+  cleanlinessAvg: number = 0;
+  availabilityAvg: number = 0;
+  overallAvg: number = 0;
+  lastReviewAt: Date | undefined;
+
+  getFieldTypeMap(): Map<string, string> {
+    const fieldTypeMap = new Map<string, string>();
+    fieldTypeMap.set('poiId', 'String');
+    fieldTypeMap.set('reviewCount', 'Integer');
+    fieldTypeMap.set('cleanlinessTotal', 'Integer');
+    fieldTypeMap.set('availabilityTotal', 'Integer');
+    fieldTypeMap.set('cleanlinessAvg', 'Double');
+    fieldTypeMap.set('availabilityAvg', 'Double');
+    fieldTypeMap.set('overallAvg', 'Double');
+    fieldTypeMap.set('lastReviewAt', 'Date');
+    return fieldTypeMap;
+  }
+
+  getClassName(): string {
+    return 'ToiletStats';
+  }
+
+  getPrimaryKeyList(): string[] {
+    return ['poiId'];
+  }
+
+  getIndexList(): string[] {
+    return ['overallAvg'];
+  }
+
+  getEncryptedFieldList(): string[] {
+    return [];
+  }
+}
+
+/**
+ * 基于 AGC 服务端 SDK 的 ReviewZone 实现
+ * 传入 transaction 时读写都在该事务内执行
+ */
+export class CloudDbReviewZone implements ReviewZone {
+  private database: any;
+  private tx: any;
+
+  constructor(zoneName: string = REVIEW_ZONE_NAME, database: any = null, tx: any = null) {
+    this.database = database ?? cloud.database({ zoneName });
+    this.tx = tx;
+  }
+
+  async reviewsOf(poiId: string): Promise<ReviewRecord[]> {
+    const query = this.database.collection(ToiletReview).query()
+      .equalTo('poiId', poiId)
+      .limit(MAX_REVIEWS_PER_POI);
+    const rows: ToiletReview[] = this.tx ? await this.tx.query(query) : await query.get();
+    return rows.map(row => ({
+      id: row.id,
+      poiId: row.poiId,
+      authorKey: row.authorKey,
+      cleanliness: row.cleanliness,
+      availability: row.availability,
+      content: row.content ?? '',
+      createdAt: new Date(row.createdAt ?? 0),
+      updatedAt: new Date(row.updatedAt ?? 0)
+    }));
+  }
+
+  async upsertReview(review: ReviewRecord): Promise<void> {
+    const row = new ToiletReview();
+    Object.assign(row, review);
+    await this.upsert(ToiletReview, row);
+  }
+
+  async upsertStats(stats: StatsRecord): Promise<void> {
+    const row = new ToiletStats();
+    Object.assign(row, stats, { lastReviewAt: stats.lastReviewAt ?? undefined });
+    await this.upsert(ToiletStats, row);
+  }
+
+  // 云数据库事务：提交时与并发事务冲突则整体失败，不会部分写入
+  async transaction<T>(work: (zone: ReviewZone) => Promise<T>): Promise<T> {
+    if (this.tx) {
+      return await work(this);
+    }
+    return await this.database.runTransaction(async (tx: any) =>
+      await work(new CloudDbReviewZone(REVIEW_ZONE_NAME, this.database, tx)));
+  }
+
+  private async upsert(type: any, row: object): Promise<void> {
+    if (this.tx) {
+      await this.tx.upsert(row);
+    } else {
+      await this.database.collection(type).upsert(row);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * 公厕评价的校验与评分汇总
+ * 不依赖云数据库 SDK，通过 ReviewZone 读写，便于用内存实现做单元测试
+ */
+
+import * as crypto from 'crypto';
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+export const MAX_CONTENT_LENGTH = 500;
+
+// 评价者由调用上下文中的登录用户确定，草稿中不携带用户标识
+export interface ReviewDraft {
+  poiId: string;
+  cleanliness: number;   // 干净程度 1~5
+  availability: number;  // 好不好找、是否开放 1~5
+  content?: string;
+}
+
+export interface ReviewRecord {
+  id: string;
+  poiId: string;
+  authorKey: string;  // 评价者的匿名键，见 authorKeyOf
+  cleanliness: number;
+  availability: number;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StatsRecord {
+  poiId: string;
+  reviewCount: number;
+  cleanlinessTotal: number;
+  availabilityTotal: number;
+  cleanlinessAvg: number;
+  availabilityAvg: number;
+  overallAvg: number;
+  lastReviewAt: Date | null;
+}
+
+// 云数据库存储区中评价相关的读写操作
+export interface ReviewZone {
+  reviewsOf(poiId: string): Promise<ReviewRecord[]>;
+  upsertReview(review: ReviewRecord): Promise<void>;
+  upsertStats(stats: StatsRecord): Promise<void>;
+  // 在事务中执行 work：work 通过传入的 zone 读写，并发事务之间互不覆盖对方的写入
+  transaction<T>(work: (zone: ReviewZone) => Promise<T>): Promise<T>;
+}
+
+export class ReviewValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewValidationError';
+  }
+}
+
+/**
+ * 评价者的匿名键：由公厕与登录用户 uid 散列得到
+ * 评价对所有人可读，存储时不保留 uid，也无法据此关联同一用户对不同公厕的评价
+ */
+export function authorKeyOf(poiId: string, uid: string): string {
+  return crypto.createHash('sha256').update(`${poiId}|${uid}`).digest('hex').slice(0, 32);
+}
+
+// 每个用户对同一公厕只保留一条评价，再次提交视为修改
+export function reviewIdOf(poiId: string, uid: string): string {
+  return `${poiId}|${authorKeyOf(poiId, uid)}`;
+}
+
+export function validateDraft(draft: ReviewDraft): void {
+  if (!draft || typeof draft.poiId !== 'string' || draft.poiId.trim().length === 0) {
+    throw new ReviewValidationError('poiId is required');
+  }
+  validateScore('cleanliness', draft.cleanliness);
+  validateScore('availability', draft.availability);
+  if (draft.content !== undefined && typeof draft.content !== 'string') {
+    throw new ReviewValidationError('content must be a string');
+  }
+  if ((draft.content ?? '').length > MAX_CONTENT_LENGTH) {
+    throw new ReviewValidationError(`content must not exceed ${MAX_CONTENT_LENGTH} characters`);
+  }
+}
+
+function validateScore(field: string, score: number): void {
+  if (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) {
+    throw new ReviewValidationError(`${field} must be an integer between ${MIN_SCORE} and ${MAX_SCORE}`);
+  }
+}
+
+/**
+ * 由某个公厕的全部评价重新计算汇总；平均分保留一位小数
+ */
+export function computeStats(poiId: string, reviews: ReviewRecord[]): StatsRecord {
+  let cleanlinessTotal = 0;
+  let availabilityTotal = 0;
+  let lastReviewAt: Date | null = null;
+  for (const review of reviews) {
+    cleanlinessTotal += review.cleanliness;
+    availabilityTotal += review.availability;
+    if (!lastReviewAt || review.updatedAt.getTime() > lastReviewAt.getTime()) {
+      lastReviewAt = review.updatedAt;
+    }
+  }
+  const count = reviews.length;
+  const cleanlinessAvg = count > 0 ? round1(cleanlinessTotal / count) : 0;
+  const availabilityAvg = count > 0 ? round1(availabilityTotal / count) : 0;
+  const overallAvg = count > 0 ? round1((cleanlinessTotal + availabilityTotal) / (2 * count)) : 0;
+  return {
+    poiId,
+    reviewCount: count,
+    cleanlinessTotal,
+    availabilityTotal,
+    cleanlinessAvg,
+    availabilityAvg,
+    overallAvg,
+    lastReviewAt
+  };
+}
+
+export class ReviewAggregator {
+  private zone: ReviewZone;
+
+  constructor(zone: ReviewZone) {
+    this.zone = zone;
+  }
+
+  /**
+   * 以登录用户 uid 的身份写入（或修改）一条评价，并基于该公厕的全部评价刷新汇总
+   * 读取评价、写入评价与写入汇总在同一事务中完成，同时提交的评价不会被较早读到的汇总覆盖
+   */
+  async submit(uid: string, draft: ReviewDraft, now: Date = new Date()): Promise<StatsRecord> {
+    if (!uid) {
+      throw new ReviewValidationError('sign-in required');
+    }
+    validateDraft(draft);
+    const poiId = draft.poiId.trim();
+    const id = reviewIdOf(poiId, uid);
+    return await this.zone.transaction(async (zone: ReviewZone) => {
+      const reviews = await zone.reviewsOf(poiId);
+      const previous = reviews.find(r => r.id === id);
+      const review: ReviewRecord = {
+        id,
+        poiId,
+        authorKey: authorKeyOf(poiId, uid),
+        cleanliness: draft.cleanliness,
+        availability: draft.availability,
+        content: (draft.content ?? '').trim(),
+        createdAt: previous ? previous.createdAt : now,
+        updatedAt: now
+      };
+      await zone.upsertReview(review);
+      const stats = computeStats(poiId, reviews.filter(r => r.id !== id).concat([review]));
+      await zone.upsertStats(stats);
+      return stats;
+    });
+  }
+
+  /**
+   * 登录用户 uid 对某个公厕的评价，未评价过时为 null
+   */
+  async reviewOf(uid: string, poiId: string): Promise<ReviewRecord | null> {
+    if (!uid) {
+      throw new ReviewValidationError('sign-in required');
+    }
+    const id = reviewIdOf(poiId, uid);
+    return (await this.zone.reviewsOf(poiId)).find(r => r.id === id) ?? null;
+  }
+
+  /**
+   * 按现有评价重建汇总（修复历史数据时使用）
+   */
+  async recompute(poiId: string): Promise<StatsRecord> {
+    return await this.zone.transaction(async (zone: ReviewZone) => {
+      const stats = computeStats(poiId, await zone.reviewsOf(poiId));
+      await zone.upsertStats(stats);
+      return stats;
+    });
+  }
+}
+
+function round1(x: number): number {
+  return Math.round(x * 10) / 10;
+}
@@ -0,0 +1,31 @@
+import { ReviewRecord, ReviewZone, StatsRecord } from '../reviewAggregator';
+
+/**
+ * 云数据库存储区的内存替身：按主键覆盖写入，读取时返回副本；事务按提交顺序串行执行
+ */
+export class MemoryReviewZone implements ReviewZone {
+  reviews: Map<string, ReviewRecord> = new Map();
+  stats: Map<string, StatsRecord> = new Map();
+  upserts = 0;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  async transaction<T>(work: (zone: ReviewZone) => Promise<T>): Promise<T> {
+    const run = this.pending.then(() => work(this));
+    this.pending = run.catch(() => undefined);
+    return await run;
+  }
+
+  async reviewsOf(poiId: string): Promise<ReviewRecord[]> {
+    return Array.from(this.reviews.values()).filter(r => r.poiId === poiId).map(r => ({ ...r }));
+  }
+
+  async upsertReview(review: ReviewRecord): Promise<void> {
+    this.upserts++;
+    this.reviews.set(review.id, { ...review });
+  }
+
+  async upsertStats(stats: StatsRecord): Promise<void> {
+    this.upserts++;
+    this.stats.set(stats.poiId, { ...stats });
+  }
+}
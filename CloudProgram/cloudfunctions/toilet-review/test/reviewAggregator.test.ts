@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { authorKeyOf, computeStats, ReviewAggregator, ReviewValidationError, reviewIdOf } from '../reviewAggregator';
+import { MemoryReviewZone } from './memoryZone';
+
+test('first review creates stats', async () => {
+  const zone = new MemoryReviewZone();
+  const stats = await new ReviewAggregator(zone).submit('u1', { poiId: 'osm_node_1', cleanliness: 4, availability: 5, content: ' 很干净 ' }, new Date(1000));
+  assert.strictEqual(stats.reviewCount, 1);
+  assert.strictEqual(stats.cleanlinessAvg, 4);
+  assert.strictEqual(stats.availabilityAvg, 5);
+  assert.strictEqual(stats.overallAvg, 4.5);
+  assert.strictEqual(zone.reviews.get(reviewIdOf('osm_node_1', 'u1'))?.content, '很干净');
+  assert.deepStrictEqual(zone.stats.get('osm_node_1'), stats);
+});
+
+test('reviews from several users are averaged', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  await aggregator.submit('u1', { poiId: 'p', cleanliness: 5, availability: 4 }, new Date(1000));
+  await aggregator.submit('u2', { poiId: 'p', cleanliness: 2, availability: 4 }, new Date(2000));
+  const stats = await aggregator.submit('u3', { poiId: 'p', cleanliness: 3, availability: 1 }, new Date(3000));
+  assert.strictEqual(stats.reviewCount, 3);
+  assert.strictEqual(stats.cleanlinessTotal, 10);
+  assert.strictEqual(stats.cleanlinessAvg, 3.3);
+  assert.strictEqual(stats.availabilityAvg, 3);
+  assert.strictEqual(stats.lastReviewAt?.getTime(), 3000);
+});
+
+test('resubmitting replaces the previous review and keeps createdAt', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  await aggregator.submit('u1', { poiId: 'p', cleanliness: 1, availability: 1 }, new Date(1000));
+  const stats = await aggregator.submit('u1', { poiId: 'p', cleanliness: 5, availability: 5 }, new Date(5000));
+  assert.strictEqual(stats.reviewCount, 1);
+  assert.strictEqual(stats.overallAvg, 5);
+  const review = zone.reviews.get(reviewIdOf('p', 'u1'));
+  assert.strictEqual(review?.createdAt.getTime(), 1000);
+  assert.strictEqual(review?.updatedAt.getTime(), 5000);
+});
+
+test('stale reads still include the submitted review', async () => {
+  const zone = new MemoryReviewZone();
+  // 模拟最终一致：查询总是返回空
+  zone.reviewsOf = async () => [];
+  const stats = await new ReviewAggregator(zone).submit('u1', { poiId: 'p', cleanliness: 3, availability: 3 });
+  assert.strictEqual(stats.reviewCount, 1);
+});
+
+test('concurrent submissions for the same toilet are both counted', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  await Promise.all([
+    aggregator.submit('u1', { poiId: 'p', cleanliness: 5, availability: 5 }, new Date(1000)),
+    aggregator.submit('u2', { poiId: 'p', cleanliness: 1, availability: 1 }, new Date(1000))
+  ]);
+  const stats = zone.stats.get('p');
+  assert.strictEqual(stats?.reviewCount, 2);
+  assert.strictEqual(stats?.overallAvg, 3);
+});
+
+test('a slow stats write does not drop a review submitted meanwhile', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  // u1 的汇总写入较慢，期间 u2 开始提交
+  const write = zone.upsertStats.bind(zone);
+  let second: Promise<unknown> | null = null;
+  zone.upsertStats = async (stats) => {
+    if (!second) {
+      second = aggregator.submit('u2', { poiId: 'p', cleanliness: 1, availability: 1 }, new Date(2000));
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    await write(stats);
+  };
+  await aggregator.submit('u1', { poiId: 'p', cleanliness: 5, availability: 5 }, new Date(1000));
+  await second;
+  assert.strictEqual(zone.stats.get('p')?.reviewCount, 2);
+  assert.strictEqual(zone.stats.get('p')?.overallAvg, 3);
+});
+
+test('invalid drafts are rejected without writing', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  const drafts: any[] = [
+    { poiId: '', cleanliness: 3, availability: 3 },
+    { poiId: 'p', cleanliness: 0, availability: 3 },
+    { poiId: 'p', cleanliness: 3, availability: 3.5 },
+    { poiId: 'p', cleanliness: 3, availability: 3, content: 'x'.repeat(501) }
+  ];
+  for (const draft of drafts) {
+    await assert.rejects(aggregator.submit('u1', draft), ReviewValidationError);
+  }
+  assert.strictEqual(zone.upserts, 0);
+});
+
+test('signed-out callers cannot review', async () => {
+  const zone = new MemoryReviewZone();
+  await assert.rejects(
+    new ReviewAggregator(zone).submit('', { poiId: 'p', cleanliness: 3, availability: 3 }), /sign-in required/);
+  assert.strictEqual(zone.upserts, 0);
+});
+
+test('a draft naming another user cannot overwrite their review', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  await aggregator.submit('u1', { poiId: 'p', cleanliness: 5, availability: 5, content: '很好' }, new Date(1000));
+  const forged: any = { poiId: 'p', userId: 'u1', cleanliness: 1, availability: 1, content: '很差' };
+  const stats = await aggregator.submit('u2', forged, new Date(2000));
+  assert.strictEqual(stats.reviewCount, 2);
+  assert.strictEqual(zone.reviews.get(reviewIdOf('p', 'u1'))?.content, '很好');
+  assert.strictEqual(zone.reviews.get(reviewIdOf('p', 'u2'))?.content, '很差');
+});
+
+test('stored reviews do not contain the uid', async () => {
+  const zone = new MemoryReviewZone();
+  await new ReviewAggregator(zone).submit('uid-secret', { poiId: 'p', cleanliness: 3, availability: 3 });
+  const [review] = Array.from(zone.reviews.values());
+  assert.strictEqual(review.authorKey, authorKeyOf('p', 'uid-secret'));
+  assert.ok(!JSON.stringify(review).includes('uid-secret'));
+  assert.notStrictEqual(authorKeyOf('q', 'uid-secret'), review.authorKey);
+});
+
+test('reviewOf finds only the caller\'s review', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  await aggregator.submit('u1', { poiId: 'p', cleanliness: 4, availability: 2 });
+  assert.strictEqual((await aggregator.reviewOf('u1', 'p'))?.cleanliness, 4);
+  assert.strictEqual(await aggregator.reviewOf('u2', 'p'), null);
+  await assert.rejects(aggregator.reviewOf('', 'p'), /sign-in required/);
+});
+
+test('recompute rebuilds stats from stored reviews', async () => {
+  const zone = new MemoryReviewZone();
+  const aggregator = new ReviewAggregator(zone);
+  await aggregator.submit('u1', { poiId: 'p', cleanliness: 4, availability: 2 });
+  zone.stats.clear();
+  const stats = await aggregator.recompute('p');
+  assert.strictEqual(stats.reviewCount, 1);
+  assert.strictEqual(stats.overallAvg, 3);
+});
+
+test('empty stats have zero averages', () => {
+  const stats = computeStats('p', []);
+  assert.strictEqual(stats.reviewCount, 0);
+  assert.strictEqual(stats.overallAvg, 0);
+  assert.strictEqual(stats.lastReviewAt, null);
+});
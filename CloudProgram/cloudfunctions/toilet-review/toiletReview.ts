@@ -0,0 +1,77 @@
+import { ReviewAggregator, ReviewDraft, ReviewRecord, ReviewValidationError, StatsRecord } from './reviewAggregator';
+import { CloudDbReviewZone } from './cloudDbZone';
+
+// 云对象运行时注入的调用上下文；auth 为网关校验过的登录用户，客户端无法伪造
+interface InvocationContext {
+  auth?: { uid?: string };
+}
+
+// 返回给客户端的汇总（日期转为时间戳，便于跨端序列化）
+export interface ReviewStatsResult {
+  poiId: string;
+  reviewCount: number;
+  cleanlinessAvg: number;
+  availabilityAvg: number;
+  overallAvg: number;
+  lastReviewAt: number;
+}
+
+// 当前用户自己的评价，用于回填评价面板
+export interface MyReviewResult {
+  poiId: string;
+  cleanliness: number;
+  availability: number;
+  content: string;
+  updatedAt: number;
+}
+
+export class ToiletReviewService {
+  private context?: InvocationContext;
+
+  async submitReview(draft: ReviewDraft): Promise<ReviewStatsResult> {
+    try {
+      const stats = await new ReviewAggregator(new CloudDbReviewZone()).submit(this.context?.auth?.uid ?? '', draft);
+      console.info(`Review saved for ${stats.poiId}, count=${stats.reviewCount}, avg=${stats.overallAvg}`);
+      return toResult(stats);
+    } catch (error) {
+      if (error instanceof ReviewValidationError) {
+        console.warn(`Rejected review: ${error.message}`);
+      } else {
+        console.error(`Failed to save review: ${(error as Error)?.message}`);
+      }
+      throw error;
+    }
+  }
+
+  async getMyReview(poiId: string): Promise<MyReviewResult | null> {
+    const review = await new ReviewAggregator(new CloudDbReviewZone()).reviewOf(this.context?.auth?.uid ?? '', poiId);
+    return review ? toMyReview(review) : null;
+  }
+
+  async recomputeStats(poiId: string): Promise<ReviewStatsResult> {
+    const stats = await new ReviewAggregator(new CloudDbReviewZone()).recompute(poiId);
+    console.info(`Stats recomputed for ${poiId}, count=${stats.reviewCount}`);
+    return toResult(stats);
+  }
+}
+
+function toResult(stats: StatsRecord): ReviewStatsResult {
+  return {
+    poiId: stats.poiId,
+    reviewCount: stats.reviewCount,
+    cleanlinessAvg: stats.cleanlinessAvg,
+    availabilityAvg: stats.availabilityAvg,
+    overallAvg: stats.overallAvg,
+    lastReviewAt: stats.lastReviewAt ? stats.lastReviewAt.getTime() : 0
+  };
+}
+
+function toMyReview(review: ReviewRecord): MyReviewResult {
+  return {
+    poiId: review.poiId,
+    cleanliness: review.cleanliness,
+    availability: review.availability,
+    content: review.content,
+    updatedAt: review.updatedAt.getTime()
+  };
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { encodeGeohash, geohashesInCircle, haversineMeters } from '../shared/geohash';
+
+// 固定种子的伪随机数，保证失败可复现
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+// 从圆心沿给定方位角移动 distanceM 后的点
+function destination(lat: number, lng: number, bearing: number, distanceM: number): { lat: number; lng: number } {
+  const d = distanceM / 6371000;
+  const latRad = lat * Math.PI / 180;
+  const lngRad = lng * Math.PI / 180;
+  const lat2Rad = Math.asin(Math.sin(latRad) * Math.cos(d) + Math.cos(latRad) * Math.sin(d) * Math.cos(bearing));
+  const lng2Rad = lngRad + Math.atan2(Math.sin(bearing) * Math.sin(d) * Math.cos(latRad), Math.cos(d) - Math.sin(latRad) * Math.sin(lat2Rad));
+  return { lat: lat2Rad * 180 / Math.PI, lng: ((lng2Rad * 180 / Math.PI + 540) % 360) - 180 };
+}
+
+test('cells touched only near the edge of the circle are included', () => {
+  const cells = geohashesInCircle(31.00001, 121.13154, 500, 6);
+  assert.ok(cells.indexOf('wtw0kk') >= 0);
+});
+
+test('every point inside the radius lands in a returned cell', () => {
+  const random = seededRandom(42);
+  const cases: [number, number][] = [[500, 6], [1500, 6], [5000, 5], [20000, 4]];
+  for (let i = 0; i < 300; i++) {
+    const lat = -60 + random() * 120;
+    const lng = -180 + random() * 360;
+    const [radiusM, precision] = cases[i % cases.length];
+    const cells = new Set(geohashesInCircle(lat, lng, radiusM, precision));
+    for (let j = 0; j < 200; j++) {
+      // 一半样本贴近圆周，最容易暴露漏格
+      const distance = radiusM * (j % 2 === 0 ? 1 - random() * 1e-3 : random());
+      const p = destination(lat, lng, random() * 2 * Math.PI, distance);
+      if (haversineMeters(lat, lng, p.lat, p.lng) > radiusM) continue;
+      const hash = encodeGeohash(p.lat, p.lng, precision);
+      assert.ok(cells.has(hash), `(${lat}, ${lng}) r=${radiusM}: ${hash} missing for (${p.lat}, ${p.lng})`);
+    }
+  }
+});
+
+test('circles across the antimeridian wrap around', () => {
+  const cells = geohashesInCircle(0, 179.9999, 1000, 6);
+  assert.ok(cells.indexOf(encodeGeohash(0, -179.9999, 6)) >= 0);
+  assert.ok(cells.indexOf(encodeGeohash(0, 179.9999, 6)) >= 0);
+});
+
+test('circles are not padded with far away cells', () => {
+  const cells = geohashesInCircle(31.2304, 121.4737, 50, 6);
+  assert.deepStrictEqual(cells, ['wtw3sj']);
+});
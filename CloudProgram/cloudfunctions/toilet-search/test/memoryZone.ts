@@ -0,0 +1,22 @@
+import { GeohashField, SearchZone, ToiletRecord } from '../shared/nearbySearch';
+
+/**
+ * 云数据库存储区的内存替身：按主键覆盖写入，读取时返回副本，并记录每次扫描的网格
+ */
+export class MemorySearchZone implements SearchZone {
+  toilets: Map<string, ToiletRecord> = new Map();
+  scans: { field: GeohashField; cells: string[] }[] = [];
+
+  async toiletsInCells(field: GeohashField, cells: string[]): Promise<ToiletRecord[]> {
+    this.scans.push({ field, cells: cells.slice() });
+    return Array.from(this.toilets.values()).filter(t => cells.indexOf(t[field]) >= 0).map(t => ({ ...t }));
+  }
+
+  async getToilets(ids: string[]): Promise<ToiletRecord[]> {
+    return ids.filter(id => this.toilets.has(id)).map(id => ({ ...this.toilets.get(id)! }));
+  }
+
+  async upsertToilets(toilets: ToiletRecord[]): Promise<void> {
+    for (const t of toilets) this.toilets.set(t.id, { ...t });
+  }
+}
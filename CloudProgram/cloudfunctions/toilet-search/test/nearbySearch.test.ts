@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import {
+  choosePrecision,
+  geohashFields,
+  SearchValidationError,
+  ToiletOrigin,
+  ToiletRecord,
+  ToiletSearch
+} from '../shared/nearbySearch';
+import { encodeGeohash } from '../shared/geohash';
+import { MemorySearchZone } from './memoryZone';
+
+const LAT = 31.2304;
+const LNG = 121.4737;
+
+function community(id: string, latitude: number, longitude: number): ToiletRecord {
+  return {
+    id, name: id, latitude, longitude, ...geohashFields(latitude, longitude),
+    openingHours: '', fee: 'no', wheelchair: '', changingTable: '', attributes: '{}',
+    source: ToiletOrigin.COMMUNITY, submissionId: `sub_${id}`, createdAt: new Date(0), updatedAt: new Date(1000)
+  };
+}
+
+test('prefix fields share the same hash', () => {
+  const fields = geohashFields(LAT, LNG);
+  assert.strictEqual(fields.geohash6, encodeGeohash(LAT, LNG, 6));
+  assert.strictEqual(fields.geohash5, fields.geohash6.substring(0, 5));
+  assert.strictEqual(fields.geohash4, fields.geohash6.substring(0, 4));
+});
+
+test('precision gets coarser as the radius grows', () => {
+  assert.strictEqual(choosePrecision(500).field, 'geohash6');
+  assert.strictEqual(choosePrecision(1500).field, 'geohash6');
+  assert.strictEqual(choosePrecision(5000).field, 'geohash5');
+  assert.strictEqual(choosePrecision(20000).field, 'geohash4');
+});
+
+test('results are filtered by radius and ranked by distance', async () => {
+  const zone = new MemorySearchZone();
+  await zone.upsertToilets([
+    community('far', LAT + 0.009, LNG),       // 约 1km
+    community('mid', LAT + 0.003, LNG),       // 约 330m
+    community('near', LAT, LNG + 0.001)       // 约 95m
+  ]);
+  const result = await new ToiletSearch(zone).searchNearby({ latitude: LAT, longitude: LNG, radiusM: 500 });
+  assert.deepStrictEqual(result.toilets.map(t => t.id), ['near', 'mid']);
+  assert.ok(result.toilets[0].distance > 80 && result.toilets[0].distance < 110);
+  assert.strictEqual(result.toilets[0].fee, false);
+  assert.strictEqual(result.toilets[0].changingTable, undefined);
+  assert.strictEqual(result.toilets[0].updatedAt, 1000);
+  assert.strictEqual(result.precision, 6);
+  assert.strictEqual(result.truncated, false);
+  assert.strictEqual(zone.scans.length, 1);
+  assert.strictEqual(result.cellsScanned, zone.scans[0].cells.length);
+});
+
+test('neighbouring cells are scanned across a cell border', async () => {
+  const zone = new MemorySearchZone();
+  // 经度 0 两侧分属不同网格
+  await zone.upsertToilets([community('west', 51.5, -0.0005)]);
+  const result = await new ToiletSearch(zone).searchNearby({ latitude: 51.5, longitude: 0.0005, radiusM: 200 });
+  assert.notStrictEqual(encodeGeohash(51.5, -0.0005, 6), encodeGeohash(51.5, 0.0005, 6));
+  assert.deepStrictEqual(result.toilets.map(t => t.id), ['west']);
+});
+
+test('large radius uses coarse cells and honours the limit', async () => {
+  const zone = new MemorySearchZone();
+  const rows: ToiletRecord[] = [];
+  for (let i = 0; i < 10; i++) {
+    rows.push(community(`t${i}`, LAT + i * 0.01, LNG));
+  }
+  await zone.upsertToilets(rows);
+  const result = await new ToiletSearch(zone).searchNearby({ latitude: LAT, longitude: LNG, radiusM: 15000, limit: 3 });
+  assert.strictEqual(result.precision, 4);
+  assert.strictEqual(zone.scans[0].field, 'geohash4');
+  assert.deepStrictEqual(result.toilets.map(t => t.id), ['t0', 't1', 't2']);
+  assert.strictEqual(result.truncated, true);
+});
+
+test('invalid queries are rejected', async () => {
+  const search = new ToiletSearch(new MemorySearchZone());
+  const queries: any[] = [
+    null,
+    { latitude: 91, longitude: LNG, radiusM: 500 },
+    { latitude: 0, longitude: 0, radiusM: 500 },
+    { latitude: LAT, longitude: LNG, radiusM: 0 },
+    { latitude: LAT, longitude: LNG, radiusM: 50000 }
+  ];
+  for (const query of queries) {
+    await assert.rejects(search.searchNearby(query), SearchValidationError);
+  }
+});
+
+test('curated import computes prefix fields and keeps createdAt', async () => {
+  const zone = new MemorySearchZone();
+  const search = new ToiletSearch(zone);
+  const count = await search.importCurated([
+    { id: 'gov_1', name: ' 人民广场公厕 ', latitude: LAT, longitude: LNG, fee: false, wheelchair: 'yes' }
+  ], new Date(1000));
+  assert.strictEqual(count, 1);
+  await search.importCurated([{ id: 'gov_1', name: '人民广场公厕', latitude: LAT, longitude: LNG }], new Date(5000));
+
+  const row = zone.toilets.get('gov_1');
+  assert.strictEqual(row?.name, '人民广场公厕');
+  assert.strictEqual(row?.source, ToiletOrigin.CURATED);
+  assert.strictEqual(row?.geohash5, encodeGeohash(LAT, LNG, 5));
+  assert.strictEqual(row?.createdAt.getTime(), 1000);
+  assert.strictEqual(row?.updatedAt.getTime(), 5000);
+  assert.strictEqual(row?.fee, '');
+
+  const result = await search.searchNearby({ latitude: LAT, longitude: LNG, radiusM: 100 });
+  assert.strictEqual(result.toilets[0].source, ToiletOrigin.CURATED);
+});
+
+test('invalid imports are rejected without writing', async () => {
+  const zone = new MemorySearchZone();
+  const search = new ToiletSearch(zone);
+  await assert.rejects(search.importCurated([{ id: '', name: 'A', latitude: LAT, longitude: LNG }]), SearchValidationError);
+  await assert.rejects(search.importCurated([
+    { id: 'ok', name: 'A', latitude: LAT, longitude: LNG },
+    { id: 'bad', name: 'B', latitude: NaN, longitude: LNG }
+  ]), SearchValidationError);
+  assert.strictEqual(zone.toilets.size, 0);
+  assert.strictEqual(await search.importCurated([]), 0);
+});
@@ -0,0 +1,19 @@
+import { NearbyQuery, NearbyResult, SearchValidationError, ToiletSearch } from './shared/nearbySearch';
+import { CloudDbSearchZone } from './shared/searchZone';
+
+export class ToiletSearchService {
+  async searchNearby(query: NearbyQuery): Promise<NearbyResult> {
+    try {
+      const result = await new ToiletSearch(new CloudDbSearchZone()).searchNearby(query);
+      console.info(`Nearby search r=${query.radiusM} precision=${result.precision} cells=${result.cellsScanned} hits=${result.toilets.length}`);
+      return result;
+    } catch (error) {
+      if (error instanceof SearchValidationError) {
+        console.warn(`Rejected search: ${error.message}`);
+      } else {
+        console.error(`Nearby search failed: ${(error as Error)?.message}`);
+      }
+      throw error;
+    }
+  }
+}
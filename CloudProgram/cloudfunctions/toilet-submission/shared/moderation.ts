@@ -0,0 +1,287 @@
+// 由 scripts/syncShared.js 从 cloudfunctions/shared/moderation.ts 复制，请勿直接修改
+/**
+ * 用户补充公厕的校验、限流、查重与发布
+ * 不依赖云数据库 SDK，通过 ModerationZone 读写，便于用内存实现做单元测试
+ */
+
+import { encodeGeohash, geohashesInCircle, haversineMeters } from './geohash';
+
+// 分桶网格精度（6 位约 1.2km × 0.6km），与 toilet-search 的 geohash6 字段一致
+export const CELL_PRECISION = 6;
+export const MAX_NAME_LENGTH = 60;
+export const MAX_HOURS_LENGTH = 120;
+
+export enum SubmissionStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  DUPLICATE = 'duplicate',
+  REJECTED = 'rejected'
+}
+
+export interface SubmissionDraft {
+  name: string;
+  latitude: number;            // WGS-84
+  longitude: number;
+  openingHours?: string;       // OSM opening_hours 语法
+  fee?: boolean;
+  wheelchair?: string;         // yes / limited / no
+  changingTable?: boolean;
+  attributes?: Record<string, string>;
+}
+
+// 可选布尔值以 'yes' / 'no' / '' 存储，与 OSM 取值一致
+export interface SubmissionRecord {
+  id: string;
+  userId: string;              // 提交者的登录用户 id（由服务端鉴权得到）
+  name: string;
+  latitude: number;
+  longitude: number;
+  geohash6: string;
+  openingHours: string;
+  fee: string;
+  wheelchair: string;
+  changingTable: string;
+  attributes: string;          // JSON
+  status: string;              // SubmissionStatus
+  reason: string;
+  duplicateOf: string;
+  createdAt: Date;
+  reviewedAt: Date | null;
+}
+
+// 审核通过、可被检索到的公厕；geohash4/5/6 前缀字段供 toilet-search 按半径选择精度扫描
+export interface ToiletRecord {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  geohash4: string;
+  geohash5: string;
+  geohash6: string;
+  openingHours: string;
+  fee: string;
+  wheelchair: string;
+  changingTable: string;
+  attributes: string;
+  source: string;              // community / curated
+  submissionId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ModerationZone {
+  submissionsByUser(userId: string, since: Date): Promise<SubmissionRecord[]>;
+  pendingSubmissions(limit: number): Promise<SubmissionRecord[]>;
+  getSubmission(id: string): Promise<SubmissionRecord | null>;
+  toiletsInCells(cells: string[]): Promise<ToiletRecord[]>;
+  upsertSubmission(submission: SubmissionRecord): Promise<void>;
+  upsertToilet(toilet: ToiletRecord): Promise<void>;
+  deleteToilet(id: string): Promise<void>;
+}
+
+export interface ModerationPolicy {
+  duplicateRadiusM: number;    // 此范围内已有公厕即视为重复
+  maxPerDay: number;           // 每个用户 24 小时内最多提交条数
+  minIntervalMs: number;       // 同一用户两次提交的最小间隔
+}
+
+export const DEFAULT_POLICY: ModerationPolicy = {
+  duplicateRadiusM: 30,
+  maxPerDay: 5,
+  minIntervalMs: 60 * 1000
+};
+
+export class SubmissionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionValidationError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface SubmissionResult {
+  id: string;
+  status: string;              // SubmissionStatus
+  duplicateOf?: string;
+  duplicateName?: string;
+  toiletId?: string;           // 审核通过后生成的公厕 id
+}
+
+export function validateSubmission(draft: SubmissionDraft): void {
+  if (!draft) {
+    throw new SubmissionValidationError('draft is required');
+  }
+  const name = typeof draft.name === 'string' ? draft.name.trim() : '';
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new SubmissionValidationError(`name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  const { latitude, longitude } = draft;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) ||
+    latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180 ||
+    (latitude === 0 && longitude === 0)) {
+    throw new SubmissionValidationError('invalid coordinates');
+  }
+  if (draft.openingHours !== undefined &&
+    (typeof draft.openingHours !== 'string' || draft.openingHours.length > MAX_HOURS_LENGTH)) {
+    throw new SubmissionValidationError(`openingHours must be a string of at most ${MAX_HOURS_LENGTH} characters`);
+  }
+  if (draft.wheelchair !== undefined && ['yes', 'limited', 'no'].indexOf(draft.wheelchair) < 0) {
+    throw new SubmissionValidationError('wheelchair must be yes, limited or no');
+  }
+}
+
+export class Moderator {
+  private zone: ModerationZone;
+  private policy: ModerationPolicy;
+  private newId: () => string;
+
+  constructor(zone: ModerationZone, newId: () => string, policy: ModerationPolicy = DEFAULT_POLICY) {
+    this.zone = zone;
+    this.newId = newId;
+    this.policy = policy;
+  }
+
+  /**
+   * 接收一条提交：校验、限流后写入待审核集合，随即执行自动审核
+   * userId 须取自服务端鉴权后的调用者身份，不能来自客户端提交的内容，否则换个 id 就能绕过限流
+   */
+  async submit(userId: string, draft: SubmissionDraft, now: Date = new Date()): Promise<SubmissionResult> {
+    if (typeof userId !== 'string' || userId.length === 0) {
+      throw new SubmissionValidationError('sign-in required');
+    }
+    validateSubmission(draft);
+    await this.checkRateLimit(userId, now);
+
+    const submission: SubmissionRecord = {
+      id: this.newId(),
+      userId,
+      name: draft.name.trim(),
+      latitude: draft.latitude,
+      longitude: draft.longitude,
+      geohash6: encodeGeohash(draft.latitude, draft.longitude, CELL_PRECISION),
+      openingHours: (draft.openingHours ?? '').trim(),
+      fee: yesNo(draft.fee),
+      wheelchair: draft.wheelchair ?? '',
+      changingTable: yesNo(draft.changingTable),
+      attributes: JSON.stringify(draft.attributes ?? {}),
+      status: SubmissionStatus.PENDING,
+      reason: '',
+      duplicateOf: '',
+      createdAt: now,
+      reviewedAt: null
+    };
+    await this.zone.upsertSubmission(submission);
+    return await this.moderate(submission, now);
+  }
+
+  /**
+   * 处理积压的待审核提交（自动审核失败或需要重跑时使用），按提交时间先后处理
+   */
+  async processPending(limit: number = 50, now: Date = new Date()): Promise<SubmissionResult[]> {
+    const pending = (await this.zone.pendingSubmissions(limit))
+      .filter(s => s.status === SubmissionStatus.PENDING)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const results: SubmissionResult[] = [];
+    for (const submission of pending) {
+      results.push(await this.moderate(submission, now));
+    }
+    return results;
+  }
+
+  /**
+   * 人工驳回（如内容不实）；已自动审核通过的提交，同时撤下由它发布的公厕
+   */
+  async reject(id: string, reason: string, now: Date = new Date()): Promise<SubmissionResult> {
+    const submission = await this.zone.getSubmission(id);
+    if (!submission) {
+      throw new SubmissionValidationError(`submission ${id} not found`);
+    }
+    if (submission.status === SubmissionStatus.APPROVED) {
+      await this.zone.deleteToilet(communityToiletId(submission.id));
+    }
+    submission.status = SubmissionStatus.REJECTED;
+    submission.reason = reason;
+    submission.reviewedAt = now;
+    await this.zone.upsertSubmission(submission);
+    return { id, status: submission.status };
+  }
+
+  // 查重：检索半径内已有公厕时标记为重复，否则发布为公厕
+  private async moderate(submission: SubmissionRecord, now: Date): Promise<SubmissionResult> {
+    const duplicate = await this.findDuplicate(submission.latitude, submission.longitude);
+    if (duplicate) {
+      submission.status = SubmissionStatus.DUPLICATE;
+      submission.duplicateOf = duplicate.id;
+      submission.reason = `within ${this.policy.duplicateRadiusM}m of ${duplicate.id}`;
+      submission.reviewedAt = now;
+      await this.zone.upsertSubmission(submission);
+      return { id: submission.id, status: submission.status, duplicateOf: duplicate.id, duplicateName: duplicate.name };
+    }
+
+    const toilet: ToiletRecord = {
+      id: communityToiletId(submission.id),
+      name: submission.name,
+      latitude: submission.latitude,
+      longitude: submission.longitude,
+      geohash4: submission.geohash6.substring(0, 4),
+      geohash5: submission.geohash6.substring(0, 5),
+      geohash6: submission.geohash6,
+      openingHours: submission.openingHours,
+      fee: submission.fee,
+      wheelchair: submission.wheelchair,
+      changingTable: submission.changingTable,
+      attributes: submission.attributes,
+      source: 'community',
+      submissionId: submission.id,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.zone.upsertToilet(toilet);
+    submission.status = SubmissionStatus.APPROVED;
+    submission.reviewedAt = now;
+    await this.zone.upsertSubmission(submission);
+    return { id: submission.id, status: submission.status, toiletId: toilet.id };
+  }
+
+  private async findDuplicate(lat: number, lng: number): Promise<ToiletRecord | null> {
+    const radius = this.policy.duplicateRadiusM;
+    const candidates = await this.zone.toiletsInCells(geohashesInCircle(lat, lng, radius, CELL_PRECISION));
+    let best: ToiletRecord | null = null;
+    let bestDistance = Infinity;
+    for (const toilet of candidates) {
+      const d = haversineMeters(lat, lng, toilet.latitude, toilet.longitude);
+      if (d <= radius && d < bestDistance) {
+        best = toilet;
+        bestDistance = d;
+      }
+    }
+    return best;
+  }
+
+  private async checkRateLimit(userId: string, now: Date): Promise<void> {
+    const since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const recent = await this.zone.submissionsByUser(userId, since);
+    if (recent.length >= this.policy.maxPerDay) {
+      throw new RateLimitError(`at most ${this.policy.maxPerDay} submissions per day`);
+    }
+    const latest = recent.reduce((max, s) => Math.max(max, s.createdAt.getTime()), -Infinity);
+    if (now.getTime() - latest < this.policy.minIntervalMs) {
+      throw new RateLimitError('submitting too frequently');
+    }
+  }
+}
+
+// 由提交发布的公厕 id
+function communityToiletId(submissionId: string): string {
+  return `community_${submissionId}`;
+}
+
+function yesNo(value: boolean | undefined): string {
+  return value === undefined ? '' : (value ? 'yes' : 'no');
+}
@@ -0,0 +1,43 @@
+import { ModerationZone, SubmissionRecord, SubmissionStatus, ToiletRecord } from '../shared/moderation';
+
+/**
+ * 云数据库存储区的内存替身：按主键覆盖写入，读取时返回副本
+ */
+export class MemoryModerationZone implements ModerationZone {
+  submissions: Map<string, SubmissionRecord> = new Map();
+  toilets: Map<string, ToiletRecord> = new Map();
+
+  async submissionsByUser(userId: string, since: Date): Promise<SubmissionRecord[]> {
+    return Array.from(this.submissions.values())
+      .filter(s => s.userId === userId && s.createdAt.getTime() >= since.getTime())
+      .map(s => ({ ...s }));
+  }
+
+  async pendingSubmissions(limit: number): Promise<SubmissionRecord[]> {
+    return Array.from(this.submissions.values())
+      .filter(s => s.status === SubmissionStatus.PENDING)
+      .slice(0, limit)
+      .map(s => ({ ...s }));
+  }
+
+  async getSubmission(id: string): Promise<SubmissionRecord | null> {
+    const submission = this.submissions.get(id);
+    return submission ? { ...submission } : null;
+  }
+
+  async toiletsInCells(cells: string[]): Promise<ToiletRecord[]> {
+    return Array.from(this.toilets.values()).filter(t => cells.indexOf(t.geohash6) >= 0).map(t => ({ ...t }));
+  }
+
+  async upsertSubmission(submission: SubmissionRecord): Promise<void> {
+    this.submissions.set(submission.id, { ...submission });
+  }
+
+  async upsertToilet(toilet: ToiletRecord): Promise<void> {
+    this.toilets.set(toilet.id, { ...toilet });
+  }
+
+  async deleteToilet(id: string): Promise<void> {
+    this.toilets.delete(id);
+  }
+}
@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import {
+  CELL_PRECISION,
+  Moderator,
+  RateLimitError,
+  SubmissionRecord,
+  SubmissionStatus,
+  SubmissionValidationError
+} from '../shared/moderation';
+import { encodeGeohash } from '../shared/geohash';
+import { MemoryModerationZone } from './memoryZone';
+
+const MINUTE = 60 * 1000;
+
+function sequentialIds(): () => string {
+  let n = 0;
+  return () => `s${++n}`;
+}
+
+test('new submission is promoted to a community toilet', async () => {
+  const zone = new MemoryModerationZone();
+  const result = await new Moderator(zone, sequentialIds()).submit('u1', { name: ' 人民公园东门公厕 ', latitude: 39.9, longitude: 116.4,
+    openingHours: '06:00-22:00', fee: false, wheelchair: 'yes', changingTable: true
+  }, new Date(1000));
+  assert.strictEqual(result.status, SubmissionStatus.APPROVED);
+  assert.strictEqual(result.toiletId, 'community_s1');
+
+  const toilet = zone.toilets.get('community_s1');
+  assert.strictEqual(toilet?.name, '人民公园东门公厕');
+  assert.strictEqual(toilet?.geohash6, encodeGeohash(39.9, 116.4, CELL_PRECISION));
+  assert.strictEqual(toilet?.geohash4, encodeGeohash(39.9, 116.4, 4));
+  assert.strictEqual(toilet?.fee, 'no');
+  assert.strictEqual(toilet?.changingTable, 'yes');
+  assert.strictEqual(toilet?.source, 'community');
+  assert.strictEqual(zone.submissions.get('s1')?.status, SubmissionStatus.APPROVED);
+  assert.strictEqual(zone.submissions.get('s1')?.reviewedAt?.getTime(), 1000);
+});
+
+test('submission near an existing toilet is marked duplicate', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds());
+  await moderator.submit('u1', { name: 'A', latitude: 39.9, longitude: 116.4 }, new Date(0));
+  // 约 11 米外
+  const result = await moderator.submit('u2', { name: 'B', latitude: 39.9001, longitude: 116.4 }, new Date(0));
+  assert.strictEqual(result.status, SubmissionStatus.DUPLICATE);
+  assert.strictEqual(result.duplicateOf, 'community_s1');
+  assert.strictEqual(result.duplicateName, 'A');
+  assert.strictEqual(zone.toilets.size, 1);
+});
+
+test('duplicates are found across geohash cell borders', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds());
+  // 经度 0 两侧分属不同网格
+  await moderator.submit('u1', { name: 'A', latitude: 51.5, longitude: -0.0001 }, new Date(0));
+  const result = await moderator.submit('u2', { name: 'B', latitude: 51.5, longitude: 0.0001 }, new Date(0));
+  assert.notStrictEqual(encodeGeohash(51.5, -0.0001, CELL_PRECISION), encodeGeohash(51.5, 0.0001, CELL_PRECISION));
+  assert.strictEqual(result.status, SubmissionStatus.DUPLICATE);
+});
+
+test('submission outside the duplicate radius is approved', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds());
+  await moderator.submit('u1', { name: 'A', latitude: 39.9, longitude: 116.4 }, new Date(0));
+  // 约 110 米外
+  const result = await moderator.submit('u2', { name: 'B', latitude: 39.901, longitude: 116.4 }, new Date(0));
+  assert.strictEqual(result.status, SubmissionStatus.APPROVED);
+  assert.strictEqual(zone.toilets.size, 2);
+});
+
+test('submissions are rate limited per user', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds(), { duplicateRadiusM: 30, maxPerDay: 2, minIntervalMs: MINUTE });
+  await moderator.submit('u1', { name: 'A', latitude: 30, longitude: 120 }, new Date(0));
+  await assert.rejects(
+    moderator.submit('u1', { name: 'B', latitude: 30.01, longitude: 120 }, new Date(30 * 1000)),
+    RateLimitError);
+  await moderator.submit('u1', { name: 'B', latitude: 30.01, longitude: 120 }, new Date(2 * MINUTE));
+  await assert.rejects(
+    moderator.submit('u1', { name: 'C', latitude: 30.02, longitude: 120 }, new Date(10 * MINUTE)),
+    RateLimitError);
+  // 其他用户不受影响
+  await moderator.submit('u2', { name: 'C', latitude: 30.02, longitude: 120 }, new Date(10 * MINUTE));
+  // 24 小时后额度恢复
+  await moderator.submit('u1', { name: 'D', latitude: 30.03, longitude: 120 }, new Date(25 * 60 * MINUTE));
+  assert.strictEqual(zone.submissions.size, 4);
+});
+
+test('invalid drafts are rejected without writing', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds());
+  const drafts: any[] = [
+    null,
+    { name: '  ', latitude: 30, longitude: 120 },
+    { name: 'x'.repeat(61), latitude: 30, longitude: 120 },
+    { name: 'A', latitude: 91, longitude: 120 },
+    { name: 'A', latitude: 0, longitude: 0 },
+    { name: 'A', latitude: NaN, longitude: 120 },
+    { name: 'A', latitude: 30, longitude: 120, wheelchair: 'maybe' }
+  ];
+  for (const draft of drafts) {
+    await assert.rejects(moderator.submit('u1', draft), SubmissionValidationError);
+  }
+  // 没有登录身份的调用者不能提交
+  await assert.rejects(moderator.submit('', { name: 'A', latitude: 30, longitude: 120 }), SubmissionValidationError);
+  assert.strictEqual(zone.submissions.size, 0);
+});
+
+test('processPending moderates backlog in submission order', async () => {
+  const zone = new MemoryModerationZone();
+  const pending = (id: string, createdAt: number, latitude: number): SubmissionRecord => ({
+    id, userId: 'u1', name: id, latitude, longitude: 120,
+    geohash6: encodeGeohash(latitude, 120, CELL_PRECISION),
+    openingHours: '', fee: '', wheelchair: '', changingTable: '', attributes: '{}',
+    status: SubmissionStatus.PENDING, reason: '', duplicateOf: '', createdAt: new Date(createdAt), reviewedAt: null
+  });
+  await zone.upsertSubmission(pending('late', 2000, 30.00005));
+  await zone.upsertSubmission(pending('early', 1000, 30));
+
+  const results = await new Moderator(zone, sequentialIds()).processPending(10, new Date(3000));
+  assert.deepStrictEqual(results.map(r => r.id), ['early', 'late']);
+  assert.strictEqual(results[0].status, SubmissionStatus.APPROVED);
+  assert.strictEqual(results[1].status, SubmissionStatus.DUPLICATE);
+  assert.strictEqual(results[1].duplicateOf, 'community_early');
+  assert.strictEqual((await zone.pendingSubmissions(10)).length, 0);
+});
+
+test('reject marks the submission and keeps the reason', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds());
+  await moderator.submit('u1', { name: 'A', latitude: 30, longitude: 120 }, new Date(0));
+  const result = await moderator.reject('s1', 'not a public toilet', new Date(5000));
+  assert.strictEqual(result.status, SubmissionStatus.REJECTED);
+  assert.strictEqual(zone.submissions.get('s1')?.reason, 'not a public toilet');
+  // 自动发布的公厕随驳回一并撤下
+  assert.strictEqual(zone.toilets.has('community_s1'), false);
+  await assert.rejects(moderator.reject('missing', 'x'), SubmissionValidationError);
+});
+
+test('rejecting a duplicate keeps the existing toilet', async () => {
+  const zone = new MemoryModerationZone();
+  const moderator = new Moderator(zone, sequentialIds());
+  await moderator.submit('u1', { name: 'A', latitude: 30, longitude: 120 }, new Date(0));
+  await moderator.submit('u2', { name: 'B', latitude: 30.0001, longitude: 120 }, new Date(0));
+  await moderator.reject('s2', 'spam', new Date(5000));
+  assert.strictEqual(zone.submissions.get('s2')?.status, SubmissionStatus.REJECTED);
+  assert.strictEqual(zone.toilets.has('community_s1'), true);
+});
@@ -0,0 +1,31 @@
+import * as crypto from 'crypto';
+import { Moderator, RateLimitError, SubmissionDraft, SubmissionResult, SubmissionValidationError } from './shared/moderation';
+import { CloudDbModerationZone } from './shared/moderationZone';
+
+// 云对象运行时注入的调用上下文；auth 为网关校验过的登录用户，客户端无法伪造
+interface InvocationContext {
+  auth?: { uid?: string };
+}
+
+export class ToiletSubmissionService {
+  private context?: InvocationContext;
+
+  async submit(draft: SubmissionDraft): Promise<SubmissionResult> {
+    try {
+      const result = await createModerator().submit(this.context?.auth?.uid ?? '', draft);
+      console.info(`Submission ${result.id} -> ${result.status}`);
+      return result;
+    } catch (error) {
+      if (error instanceof SubmissionValidationError || error instanceof RateLimitError) {
+        console.warn(`Rejected submission: ${error.message}`);
+      } else {
+        console.error(`Failed to handle submission: ${(error as Error)?.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+function createModerator(): Moderator {
+  return new Moderator(new CloudDbModerationZone(), () => crypto.randomUUID());
+}
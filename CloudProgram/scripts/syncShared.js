@@ -0,0 +1,63 @@
+/**
+ * 把 cloudfunctions/shared 下的公共代码复制到用到它的云函数目录中
+ * 每个云函数按目录单独部署，不能引用目录之外的文件，因此各自带一份 shared/ 副本；
+ * 副本随代码提交，修改时只改 cloudfunctions/shared，再运行 npm run sync-shared
+ *
+ * 用法：node scripts/syncShared.js [--check]
+ * --check 只检查副本是否与源文件一致，不一致时以非零状态退出（各云函数的 npm test 会先执行）
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const FUNCTIONS_DIR = path.join(__dirname, '..', 'cloudfunctions');
+const SOURCE_DIR = path.join(FUNCTIONS_DIR, 'shared');
+
+// 各云函数需要的公共文件（含其依赖的文件）
+const TARGETS = {
+  'toilet-search': ['geohash.ts', 'nearbySearch.ts', 'searchZone.ts'],
+  'toilet-submission': ['geohash.ts', 'moderation.ts', 'moderationZone.ts'],
+  'toilet-admin': ['geohash.ts', 'moderation.ts', 'moderationZone.ts', 'nearbySearch.ts', 'searchZone.ts']
+};
+
+function headerOf(file) {
+  return `// 由 scripts/syncShared.js 从 cloudfunctions/shared/${file} 复制，请勿直接修改\n`;
+}
+
+// 返回与源文件不一致的副本路径；fix 为 true 时就地更新
+function sync(fix) {
+  const stale = [];
+  for (const [name, files] of Object.entries(TARGETS)) {
+    const targetDir = path.join(FUNCTIONS_DIR, name, 'shared');
+    if (fix) {
+      fs.mkdirSync(targetDir, { recursive: true });
+    }
+    for (const file of files) {
+      const expected = headerOf(file) + fs.readFileSync(path.join(SOURCE_DIR, file), 'utf8');
+      const target = path.join(targetDir, file);
+      const actual = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+      if (actual !== expected) {
+        stale.push(path.relative(FUNCTIONS_DIR, target));
+        if (fix) fs.writeFileSync(target, expected);
+      }
+    }
+    const extras = fs.existsSync(targetDir) ? fs.readdirSync(targetDir).filter(f => files.indexOf(f) < 0) : [];
+    for (const extra of extras) {
+      stale.push(path.relative(FUNCTIONS_DIR, path.join(targetDir, extra)));
+      if (fix) fs.rmSync(path.join(targetDir, extra), { recursive: true });
+    }
+  }
+  return stale;
+}
+
+if (process.argv.includes('--check')) {
+  const stale = sync(false);
+  if (stale.length > 0) {
+    console.error(`Shared copies are out of date, run "npm run sync-shared" in CloudProgram:\n  ${stale.join('\n  ')}`);
+    process.exit(1);
+  }
+} else {
+  for (const file of sync(true)) {
+    console.log(`updated ${file}`);
+  }
+}